@@ -0,0 +1,150 @@
+// Append-only, hash-chained audit trail written on behalf of signed-in staff
+
+import { createHash } from 'node:crypto';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+
+export interface AuditEntryInput {
+  action: string;
+  visitorId?: string;
+  targetUserId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  details?: Record<string, unknown>;
+}
+
+interface ChainedAuditEntry {
+  sequence: number;
+  timestamp: string;
+  action: string;
+  userId: string;
+  visitorId: string | null;
+  targetUserId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  details: Record<string, unknown>;
+  ipAddress: string;
+  previousHash: string;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+const MAX_ENTRIES_PER_CALL = 200;
+
+const STAFF_ROLES = ['super-admin', 'admin', 'hierarchy-person', 'front-desk'];
+
+// What the app records from the browser; everything else is written by the functions themselves
+const CLIENT_ACTIONS = new Set([
+  'appointment_cancelled', 'appointment_created', 'appointment_rescheduled', 'appointment_updated',
+  'badge_numbering_updated', 'check_in_policy_override', 'database_connection_test',
+  'emergency_ended', 'emergency_roll_call', 'emergency_started',
+  'family_member_check_out', 'family_member_emergency_evacuation',
+  'invitation_created', 'invitation_revoked', 'legal_hold_placed', 'legal_hold_released',
+  'occupancy_limits_updated', 'resident_created', 'resident_deleted', 'resident_updated',
+  'retention_policy_updated', 'role_template_updated',
+  'user_approved', 'user_created', 'user_deleted', 'user_login', 'user_logout', 'user_password_changed', 'user_updated',
+  'visit_durations_updated', 'visitor_check_in', 'visitor_check_out', 'visitor_emergency_evacuation',
+  'visitor_profile_created', 'visitor_profile_updated', 'visitor_profiles_merged',
+  'watchlist_entry_created', 'watchlist_entry_deleted', 'watchlist_entry_updated', 'watchlist_hit',
+]);
+
+// JSON with sorted keys; keep in sync with canonicalize in src/services/auditService.ts
+export const canonicalize = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+};
+
+export const hashAuditEntry = (entry: ChainedAuditEntry): string =>
+  createHash('sha256').update(canonicalize(entry)).digest('hex');
+
+export const clientIp = (request: CallableRequest): string => {
+  const forwarded = request.rawRequest.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || request.rawRequest.ip || 'unknown';
+};
+
+// Serialised through audit_meta/head so concurrent writers can't fork the chain
+export const appendAuditEntries = async (
+  userId: string,
+  ipAddress: string,
+  inputs: AuditEntryInput[],
+): Promise<void> => {
+  const db = getFirestore();
+  const headRef = db.doc('audit_meta/head');
+
+  await db.runTransaction(async (tx) => {
+    const head = await tx.get(headRef);
+    let sequence: number = head.exists ? head.get('sequence') : 0;
+    let previousHash: string = head.exists ? head.get('hash') : GENESIS_HASH;
+    const now = new Date();
+
+    for (const input of inputs) {
+      sequence += 1;
+      const entry: ChainedAuditEntry = {
+        sequence,
+        timestamp: now.toISOString(),
+        action: input.action,
+        userId,
+        visitorId: input.visitorId || null,
+        targetUserId: input.targetUserId || null,
+        before: input.before || null,
+        after: input.after || null,
+        details: input.details || {},
+        ipAddress,
+        previousHash,
+      };
+      const hash = hashAuditEntry(entry);
+
+      tx.create(db.collection('audit_logs').doc(), {
+        ...entry,
+        timestamp: Timestamp.fromDate(now),
+        hash,
+      });
+      previousHash = hash;
+    }
+
+    tx.set(headRef, { sequence, hash: previousHash, updatedAt: Timestamp.fromDate(now) });
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+export const recordAudit = onCall<{ entries: AuditEntryInput[] }>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to record audit entries');
+  }
+  const token = request.auth.token;
+  if (token.active !== true || !STAFF_ROLES.includes(token.role)) {
+    throw new HttpsError('permission-denied', 'Only active staff may record audit entries');
+  }
+
+  const entries = request.data?.entries;
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_ENTRIES_PER_CALL) {
+    throw new HttpsError('invalid-argument', `Send between 1 and ${MAX_ENTRIES_PER_CALL} entries`);
+  }
+
+  const inputs = entries.map((entry): AuditEntryInput => {
+    if (!isRecord(entry) || typeof entry.action !== 'string' || !CLIENT_ACTIONS.has(entry.action)) {
+      throw new HttpsError('invalid-argument', 'Every entry needs an action the app records');
+    }
+    return {
+      action: entry.action,
+      visitorId: typeof entry.visitorId === 'string' ? entry.visitorId : undefined,
+      targetUserId: typeof entry.targetUserId === 'string' ? entry.targetUserId : undefined,
+      before: isRecord(entry.before) ? entry.before : undefined,
+      after: isRecord(entry.after) ? entry.after : undefined,
+      details: isRecord(entry.details) ? entry.details : undefined,
+    };
+  });
+
+  await appendAuditEntries(request.auth.uid, clientIp(request), inputs);
+
+  logger.info('Recorded audit entries', { uid: request.auth.uid, count: inputs.length });
+  return { recorded: inputs.length };
+});
@@ -0,0 +1,127 @@
+// End-of-day close-out of visits left open by visitors who walked out without checking out
+
+import { getFirestore, DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { appendAuditEntries, clientIp, AuditEntryInput } from './auditTrail.js';
+import { facilityTimeZone, startOfLocalDay } from './facility.js';
+import { hasPermission } from './permissions.js';
+
+// Keep in sync with src/services/visitDurationService.ts
+const AUTO_CHECK_OUT_STATUS = 'auto-checked-out';
+const SCHEDULE = '55 23 * * *';
+const DEFAULT_MAX_MINUTES: Record<string, number> = {
+  family: 240,
+  friend: 180,
+  professional: 240,
+  volunteer: 480,
+  contractor: 600,
+};
+
+interface AutoCheckOutResult {
+  closed: number;
+  people: number;
+}
+
+// Maximum visit length per access level from settings/visitDurations; a stored null means no maximum
+const maxMinutesByLevel = (settings: DocumentData | undefined): Record<string, number | null> => {
+  const stored = settings?.maxMinutes || {};
+  return Object.fromEntries(
+    Object.entries(DEFAULT_MAX_MINUTES).map(([level, minutes]) => [level, level in stored ? stored[level] ?? null : minutes])
+  );
+};
+
+// Every open visit that is past its access level's maximum, or was checked in before the facility's
+// current day began, is closed with each person still on site marked auto-checked-out and their badge
+// number released. Visits within their maximum from today stay open; visits closed meanwhile are skipped.
+export const closeOpenVisits = async (now: Date, userId: string, ipAddress: string): Promise<AutoCheckOutResult> => {
+  const db = getFirestore();
+  const maxMinutes = maxMinutesByLevel((await db.doc('settings/visitDurations').get()).data());
+  const startOfDay = startOfLocalDay(now).getTime();
+
+  // Filtered here rather than in the query, which would need a composite index
+  const open = (await db.collection('visits').where('status', '==', 'checked-in').get())
+    .docs.filter(visit => {
+      const checkedInAt: number = visit.get('checkInTime')?.toMillis() ?? 0;
+      const limit = maxMinutes[visit.get('accessLevel')] ?? null;
+      return checkedInAt < startOfDay || (limit !== null && checkedInAt + limit * 60 * 1000 < now.getTime());
+    });
+
+  const auditEntries: AuditEntryInput[] = [];
+  let people = 0;
+
+  for (const visit of open) {
+    const result = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(visit.ref);
+      const data = snapshot.data();
+      if (!data || data.status !== 'checked-in') return null;
+
+      const now = Timestamp.now();
+      const primaryOnSite = !data.primaryCheckOutTime;
+      const departedMembers: DocumentData[] = [];
+      const familyMembers = (data.familyMembers || []).map((member: DocumentData) => {
+        if (member.checkOutTime) return member;
+        departedMembers.push(member);
+        return { ...member, status: AUTO_CHECK_OUT_STATUS, checkOutTime: now };
+      });
+
+      transaction.update(visit.ref, {
+        status: AUTO_CHECK_OUT_STATUS,
+        checkOutTime: now,
+        primaryCheckOutTime: data.primaryCheckOutTime || now,
+        familyMembers,
+      });
+      // Same guard as releaseBadgeNumbers in the web app: legacy badges have nothing reserved
+      [...(primaryOnSite ? [data.badgeNumber] : []), ...departedMembers.map(member => member.badgeNumber)]
+        .filter((badgeNumber: unknown) => typeof badgeNumber === 'string' && badgeNumber && !badgeNumber.includes('/'))
+        .forEach((badgeNumber: string) => transaction.delete(db.doc(`active_badges/${badgeNumber}`)));
+
+      const entry: AuditEntryInput = {
+        action: 'visitor_auto_checked_out',
+        visitorId: visit.id,
+        before: { status: 'checked-in', checkOutTime: null },
+        after: { status: AUTO_CHECK_OUT_STATUS, checkOutTime: now.toDate().toISOString() },
+        details: {
+          visitorIdNumber: data.visitorIdNumber || null,
+          badgeNumber: data.badgeNumber || null,
+          checkInTime: data.checkInTime?.toDate().toISOString() || null,
+          primaryOnSite,
+          familyMemberIds: departedMembers.map(member => member.id),
+        },
+      };
+      return { entry, people: (primaryOnSite ? 1 : 0) + departedMembers.length };
+    });
+    if (result) {
+      auditEntries.push(result.entry);
+      people += result.people;
+    }
+  }
+
+  if (auditEntries.length > 0) {
+    await appendAuditEntries(userId, ipAddress, auditEntries);
+  }
+
+  logger.info('Auto check-out finished', { closed: auditEntries.length, people, startOfDay: new Date(startOfDay).toISOString() });
+  return { closed: auditEntries.length, people };
+};
+
+// Nightly run; switched off by settings/visitDurations.autoCheckOut = false
+export const autoCheckOutOpenVisits = onSchedule({ schedule: SCHEDULE, timeZone: facilityTimeZone }, async () => {
+  const settings = await getFirestore().doc('settings/visitDurations').get();
+  if (settings.get('autoCheckOut') === false) {
+    logger.info('Auto check-out is switched off');
+    return;
+  }
+
+  await closeOpenVisits(new Date(), 'auto-check-out', 'scheduler');
+});
+
+// Lets a visitor manager close out on demand, and the close-out be exercised in the emulator
+export const runAutoCheckOut = onCall(async (request) => {
+  if (!hasPermission(request, 'manage_visitors')) {
+    throw new HttpsError('permission-denied', 'Not allowed to check visitors out automatically');
+  }
+
+  return closeOpenVisits(new Date(), request.auth!.uid, clientIp(request));
+});
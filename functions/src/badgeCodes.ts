@@ -0,0 +1,95 @@
+// Signs the QR codes printed on visitor badges so they can't be forged or reused after expiry
+
+import { randomBytes, sign } from 'node:crypto';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { defineSecret } from 'firebase-functions/params';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { appendAuditEntries, clientIp } from './auditTrail.js';
+import { hasPermission } from './permissions.js';
+
+// PKCS#8 PEM of an ECDSA P-256 key; the matching public key is VITE_BADGE_PUBLIC_KEY in the web app
+export const badgeSigningKey = defineSecret('BADGE_SIGNING_KEY');
+
+// Keep in sync with src/services/badgeCodeService.ts
+const CODE_PREFIX = 'FV1';
+const CODE_LIFETIME_DAYS = 180;
+
+export interface BadgeCodePayload {
+  t: 'v' | 'p'; // visitor badge, or pre-registration pass
+  id: string; // visitorIdNumber, or preRegistrations document ID
+  jti: string; // code ID, used for revocation
+  iat: number; // issued at, seconds since epoch
+  exp: number; // expires at, seconds since epoch
+}
+
+const base64url = (data: Buffer | string): string => Buffer.from(data).toString('base64url');
+
+// FV1.<payload>.<signature>, both base64url; the signature is raw r||s so browsers can verify it with WebCrypto
+export const signPayload = (payload: BadgeCodePayload): string => {
+  const encodedPayload = base64url(JSON.stringify(payload));
+  const signature = sign('sha256', Buffer.from(`${CODE_PREFIX}.${encodedPayload}`), {
+    key: badgeSigningKey.value(),
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `${CODE_PREFIX}.${encodedPayload}.${base64url(signature)}`;
+};
+
+export const issueBadgeCode = onCall<{ visitId: string }>({ secrets: [badgeSigningKey] }, async (request) => {
+  if (!hasPermission(request, 'check_in_visitors')) {
+    throw new HttpsError('permission-denied', 'Not allowed to issue badge codes');
+  }
+
+  const visitId = request.data?.visitId;
+  if (!visitId) {
+    throw new HttpsError('invalid-argument', 'A visit is required');
+  }
+
+  const visitRef = getFirestore().doc(`visits/${visitId}`);
+  const visit = await visitRef.get();
+  if (!visit.exists || !visit.get('visitorIdNumber')) {
+    throw new HttpsError('not-found', 'Visit not found');
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload: BadgeCodePayload = {
+    t: 'v',
+    id: visit.get('visitorIdNumber'),
+    jti: randomBytes(12).toString('base64url'),
+    iat: issuedAt,
+    exp: issuedAt + CODE_LIFETIME_DAYS * 24 * 60 * 60,
+  };
+  const qrCode = signPayload(payload);
+
+  await visitRef.update({
+    qrCode,
+    qrCodeId: payload.jti,
+    qrCodeExpiresAt: Timestamp.fromMillis(payload.exp * 1000),
+  });
+
+  logger.info('Issued badge code', { visitId, codeId: payload.jti, by: request.auth?.uid });
+  return { qrCode, codeId: payload.jti, expiresAt: payload.exp * 1000 };
+});
+
+export const revokeBadgeCode = onCall<{ codeId: string; reason?: string }>(async (request) => {
+  if (!hasPermission(request, 'manage_visitors')) {
+    throw new HttpsError('permission-denied', 'Not allowed to revoke badge codes');
+  }
+
+  const { codeId, reason } = request.data || {};
+  if (!codeId) {
+    throw new HttpsError('invalid-argument', 'A code ID is required');
+  }
+
+  await getFirestore().doc(`revoked_badge_codes/${codeId}`).set({
+    revokedAt: Timestamp.now(),
+    revokedBy: request.auth!.uid,
+    reason: reason || '',
+  });
+  await appendAuditEntries(request.auth!.uid, clientIp(request), [
+    { action: 'badge_code_revoked', details: { codeId, reason: reason || null } },
+  ]);
+
+  logger.info('Revoked badge code', { codeId, by: request.auth?.uid });
+  return { success: true };
+});
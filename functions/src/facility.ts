@@ -0,0 +1,45 @@
+// Where the facility is: schedules run and opening hours are read on its local clock
+
+import { defineString } from 'firebase-functions/params';
+
+// IANA time zone name, e.g. Europe/London; set in functions/.env or prompted for on deploy
+export const facilityTimeZone = defineString('FACILITY_TIME_ZONE', {
+  default: 'America/New_York',
+  description: 'Time zone of the facility, used for nightly jobs and portal opening hours',
+});
+
+export interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// The facility's wall-clock date and time at `date`
+export const localTime = (date: Date, timeZone: string = facilityTimeZone.value()): LocalTime => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute') };
+};
+
+// When the facility's current day began, as of `date`
+export const startOfLocalDay = (date: Date): Date => {
+  const { hour, minute } = localTime(date);
+  return new Date(date.getTime() - (hour * 60 + minute) * 60 * 1000 - date.getUTCSeconds() * 1000 - date.getUTCMilliseconds());
+};
+
+// Whole calendar days from `from` to `to` on the facility's clock
+export const localDaysBetween = (from: Date, to: Date): number => {
+  const toUtcMidnight = ({ year, month, day }: LocalTime) => Date.UTC(year, month - 1, day);
+  return Math.round((toUtcMidnight(localTime(to)) - toUtcMidnight(localTime(from))) / (24 * 60 * 60 * 1000));
+};
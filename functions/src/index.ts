@@ -0,0 +1,14 @@
+// Cloud Functions entry point
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export { syncUserClaims, syncRoleTemplate } from './userClaims.js';
+export { migrateLegacyAccount } from './legacyAccounts.js';
+export { setStaffPassword } from './staffPasswords.js';
+export { recordAudit } from './auditTrail.js';
+export { issueBadgeCode, revokeBadgeCode } from './badgeCodes.js';
+export { getPreRegistrationAvailability, preRegisterVisitor } from './preRegistration.js';
+export { autoCheckOutOpenVisits, runAutoCheckOut } from './autoCheckOut.js';
+export { purgeExpiredPersonalData, runRetentionPurge } from './retention.js';
+export { exportVisitorData, eraseVisitorData } from './subjectAccess.js';
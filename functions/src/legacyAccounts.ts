@@ -0,0 +1,67 @@
+// One-time move of pre-Firebase-Auth staff accounts onto Firebase Auth
+
+import { pbkdf2Sync, timingSafeEqual } from 'node:crypto';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { applyUserClaims } from './userClaims.js';
+
+interface LegacyLoginRequest {
+  username: string;
+  password: string;
+}
+
+// Matches the pbkdf2$sha256$<iterations>$<salt>$<hash> format the web client used to write
+const verifyLegacyPassword = (password: string, stored: string): boolean => {
+  if (!stored.startsWith('pbkdf2$')) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, , iterations, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'base64');
+  const derived = pbkdf2Sync(password, Buffer.from(salt, 'base64'), parseInt(iterations, 10), expected.length, 'sha256');
+  return timingSafeEqual(derived, expected);
+};
+
+export const migrateLegacyAccount = onCall<LegacyLoginRequest>(async (request) => {
+  const { username, password } = request.data || {};
+  if (!username || !password) {
+    throw new HttpsError('invalid-argument', 'Username and password are required');
+  }
+
+  const db = getFirestore();
+  const field = username.includes('@') ? 'email' : 'username';
+  const snapshot = await db.collection('users').where(field, '==', username).limit(1).get();
+  const userDoc = snapshot.docs[0];
+  const profile = userDoc?.data();
+  const stored: string | undefined = profile?.passwordHash || profile?.password;
+
+  if (!userDoc || !profile || !stored || !verifyLegacyPassword(password, stored)) {
+    throw new HttpsError('unauthenticated', 'Invalid username or password');
+  }
+
+  if (profile.isActive !== true) {
+    throw new HttpsError('permission-denied', 'Account is deactivated');
+  }
+
+  // Reuse the profile document ID so users/{uid} lines up with the Auth account
+  await getAuth().createUser({
+    uid: userDoc.id,
+    email: profile.email,
+    password,
+    displayName: `${profile.firstName} ${profile.lastName}`.trim(),
+  });
+  await applyUserClaims(userDoc.id, profile);
+
+  await userDoc.ref.update({
+    password: FieldValue.delete(),
+    passwordHash: FieldValue.delete(),
+    migratedToFirebaseAuthAt: FieldValue.serverTimestamp(),
+  });
+
+  logger.info('Migrated legacy staff account', { uid: userDoc.id });
+  return { email: profile.email as string };
+});
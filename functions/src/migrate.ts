@@ -0,0 +1,54 @@
+// Command-line entry point for the document migrations:
+//   npm run migrate -- --project <id> [--dry-run] [--to <version>]
+// --to picks the visitor schema version; role templates are always brought up to date.
+// Set FIRESTORE_EMULATOR_HOST=localhost:8080 to run against the emulator instead of the live project.
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { parseArgs } from 'node:util';
+import { appendAuditEntries } from './auditTrail.js';
+import { roleTemplateMigrations } from './migrations/roleTemplates.js';
+import { runMigrations } from './migrations/runner.js';
+import { CURRENT_SCHEMA_VERSION, visitorMigrations } from './migrations/visitorSchema.js';
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      project: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      to: { type: 'string' },
+    },
+  });
+
+  const projectId = values.project || process.env.GCLOUD_PROJECT;
+  if (!projectId) {
+    throw new Error('Pass --project <id> or set GCLOUD_PROJECT');
+  }
+
+  const targetVersion = values.to ? parseInt(values.to, 10) : CURRENT_SCHEMA_VERSION;
+  if (!Number.isInteger(targetVersion) || targetVersion < 1 || targetVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`--to must be between 1 and ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  const dryRun = values['dry-run'] ?? false;
+  const target = process.env.FIRESTORE_EMULATOR_HOST ? `emulator at ${process.env.FIRESTORE_EMULATOR_HOST}` : `project ${projectId}`;
+  console.log(`Migrating ${target} to schema v${targetVersion}${dryRun ? ' (dry run, nothing is written)' : ''}`);
+
+  initializeApp({ projectId });
+  const summaries = [
+    ...await runMigrations(getFirestore(), visitorMigrations, { dryRun, targetVersion }),
+    ...await runMigrations(getFirestore(), roleTemplateMigrations, { dryRun }),
+  ];
+
+  if (!dryRun && summaries.length > 0) {
+    await appendAuditEntries('migration-runner', 'local', summaries.map(summary => ({
+      action: 'schema_migrated',
+      details: { ...summary },
+    })));
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
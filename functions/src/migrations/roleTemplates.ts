@@ -0,0 +1,48 @@
+// Role templates saved before a permission existed never grant it, even to roles that have it by default
+
+import { getAuth } from 'firebase-admin/auth';
+import { DEFAULT_ROLE_PERMISSIONS } from '../permissions.js';
+import { applyUserClaims } from '../userClaims.js';
+import { Migration } from './runner.js';
+
+// Keep in sync with ROLE_TEMPLATE_SCHEMA_VERSION in src/services/permissionService.ts
+export const CURRENT_ROLE_TEMPLATE_VERSION = 1;
+
+// Permissions added to the catalogue after role templates could be saved
+const ADDED_PERMISSIONS = ['manage_appointments', 'manage_watchlist', 'manage_data_retention'];
+
+const grantAddedPermissions: Migration = {
+  version: 1,
+  description: 'Grant manage_appointments, manage_watchlist and manage_data_retention to saved role templates whose role has them by default',
+  collections: ['role_templates'],
+  migrate: (snapshot) => {
+    const permissions: string[] = snapshot.get('permissions') || [];
+    const added = ADDED_PERMISSIONS
+      .filter(permission => (DEFAULT_ROLE_PERMISSIONS[snapshot.id] || []).includes(permission))
+      .filter(permission => !permissions.includes(permission));
+
+    return added.length > 0 ? { update: { permissions: [...permissions, ...added] } } : {};
+  },
+  // Claims only change when a profile or template is written, so accounts whose role has no saved
+  // template are still missing the new default permissions until they are re-synced here
+  finish: async ({ db, dryRun, log }) => {
+    const users = await db.collection('users').get();
+    if (dryRun) {
+      log(`  would re-sync claims for ${users.size} users`);
+      return;
+    }
+
+    const auth = getAuth();
+    let synced = 0;
+    for (const userDoc of users.docs) {
+      const hasAuthAccount = await auth.getUser(userDoc.id).then(() => true, () => false);
+      if (!hasAuthAccount) continue;
+
+      await applyUserClaims(userDoc.id, userDoc.data());
+      synced += 1;
+    }
+    log(`  re-synced claims for ${synced} users`);
+  },
+};
+
+export const roleTemplateMigrations: Migration[] = [grantAddedPermissions];
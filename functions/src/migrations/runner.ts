@@ -0,0 +1,135 @@
+// Applies versioned document migrations in order and stamps each document with its schemaVersion
+
+import {
+  BulkWriter,
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  Firestore,
+  QueryDocumentSnapshot,
+} from 'firebase-admin/firestore';
+
+export interface MigrationContext {
+  db: Firestore;
+  dryRun: boolean;
+  log: (message: string) => void;
+}
+
+// What one document turns into; an empty result only stamps the new schemaVersion.
+// Created documents with `merge` set update an existing document instead of replacing it
+export interface DocumentMigration {
+  update?: Record<string, unknown>;
+  create?: { ref: DocumentReference; data: DocumentData; merge?: boolean }[];
+  remove?: boolean;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  collections: string[];
+  prepare?: (context: MigrationContext) => Promise<void>;
+  migrate: (snapshot: QueryDocumentSnapshot, context: MigrationContext) => DocumentMigration;
+  // Runs once every document is written, e.g. to refresh what is derived from them
+  finish?: (context: MigrationContext) => Promise<void>;
+}
+
+export interface MigrationSummary {
+  version: number;
+  description: string;
+  scanned: number;
+  updated: number;
+  created: number;
+  removed: number;
+}
+
+export interface RunOptions {
+  dryRun: boolean;
+  targetVersion?: number;
+  log?: (message: string) => void;
+}
+
+const describeUpdate = (update: Record<string, unknown>): string => {
+  const set = Object.keys(update).filter(key => !(update[key] instanceof FieldValue));
+  const removed = Object.keys(update).filter(key => update[key] instanceof FieldValue);
+  return [
+    set.length ? `set ${set.join(', ')}` : '',
+    removed.length ? `remove ${removed.join(', ')}` : '',
+  ].filter(Boolean).join('; ') || 'stamp version only';
+};
+
+const applyDocumentMigration = (
+  writer: BulkWriter,
+  snapshot: QueryDocumentSnapshot,
+  result: DocumentMigration,
+  version: number,
+): void => {
+  (result.create || []).forEach(({ ref, data, merge }) => {
+    if (merge) {
+      writer.set(ref, data, { merge: true });
+    } else {
+      writer.set(ref, data);
+    }
+  });
+
+  if (result.remove) {
+    writer.delete(snapshot.ref);
+  } else {
+    writer.update(snapshot.ref, { ...result.update, schemaVersion: version });
+  }
+};
+
+export const runMigrations = async (
+  db: Firestore,
+  migrations: Migration[],
+  { dryRun, targetVersion = Infinity, log = console.log }: RunOptions,
+): Promise<MigrationSummary[]> => {
+  const context: MigrationContext = { db, dryRun, log };
+  const summaries: MigrationSummary[] = [];
+  const pending = [...migrations]
+    .filter(migration => migration.version <= targetVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    const summary: MigrationSummary = {
+      version: migration.version,
+      description: migration.description,
+      scanned: 0,
+      updated: 0,
+      created: 0,
+      removed: 0,
+    };
+    log(`v${migration.version}: ${migration.description}${dryRun ? ' (dry run)' : ''}`);
+    await migration.prepare?.(context);
+
+    // One writer per migration, so the next migration reads what this one wrote
+    const writer = dryRun ? null : db.bulkWriter();
+
+    for (const collection of migration.collections) {
+      const snapshot = await db.collection(collection).get();
+
+      for (const doc of snapshot.docs) {
+        summary.scanned += 1;
+        if ((doc.get('schemaVersion') ?? 0) >= migration.version) continue;
+
+        const result = migration.migrate(doc, context);
+        summary.created += result.create?.length || 0;
+        summary.removed += result.remove ? 1 : 0;
+        summary.updated += result.remove ? 0 : 1;
+
+        if (writer) {
+          applyDocumentMigration(writer, doc, result, migration.version);
+        } else {
+          const moved = (result.create || []).map(({ ref }) => ref.path).join(', ');
+          log(`  ${doc.ref.path}: ${result.remove ? `move to ${moved}` : describeUpdate(result.update || {})}`);
+        }
+      }
+    }
+
+    await writer?.close();
+    await migration.finish?.(context);
+    log(`  scanned ${summary.scanned}, updated ${summary.updated}, created ${summary.created}, removed ${summary.removed}`);
+    summaries.push(summary);
+  }
+
+  return summaries;
+};
@@ -0,0 +1,133 @@
+// Visitor document shapes: one name for every field, identity on profiles, visits linked by profileId
+
+import { DocumentData, DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { Migration } from './runner.js';
+
+// Keep in sync with VISITOR_SCHEMA_VERSION in src/services/visitorService.ts
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Field names older versions of the app wrote, and the canonical field each one maps to
+const FIELD_ALIASES: [alias: string, canonical: string][] = [
+  ['phoneNumber', 'phone'],
+  ['roomNumber', 'residentRoom'],
+];
+
+// Keep in sync with PROFILE_FIELDS in src/services/visitorService.ts
+const PROFILE_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'photoUrl', 'emergencyContact', 'emergencyPhone'];
+
+export const toCanonical = (data: DocumentData): DocumentData => {
+  const canonical: DocumentData = { ...data };
+
+  if (typeof data.fullName === 'string' && !data.firstName && !data.lastName) {
+    const [firstName = '', ...rest] = data.fullName.trim().split(/\s+/);
+    canonical.firstName = firstName;
+    canonical.lastName = rest.join(' ');
+  }
+  delete canonical.fullName;
+
+  for (const [alias, field] of FIELD_ALIASES) {
+    if (data[alias] && !data[field]) canonical[field] = data[alias];
+    delete canonical[alias];
+  }
+
+  return canonical;
+};
+
+const unifyFieldNames: Migration = {
+  version: 1,
+  description: 'Rename fullName, phoneNumber and roomNumber to firstName/lastName, phone and residentRoom',
+  collections: ['visitors', 'visits', 'visitorProfiles'],
+  migrate: (snapshot) => {
+    const data = snapshot.data();
+    const canonical = toCanonical(data);
+    const update: Record<string, unknown> = {};
+
+    Object.keys(canonical)
+      .filter(key => canonical[key] !== data[key])
+      .forEach(key => { update[key] = canonical[key]; });
+    Object.keys(data)
+      .filter(key => !(key in canonical))
+      .forEach(key => { update[key] = FieldValue.delete(); });
+
+    return { update };
+  },
+};
+
+const legacyIdNumber = (id: string, data: DocumentData): string => data.visitorIdNumber || `VID-${id}`;
+
+const checkInMillis = (data: DocumentData): number =>
+  data.checkInTime instanceof Timestamp ? data.checkInTime.toMillis() : 0;
+
+// Filled by prepare so every legacy visit of the same person shares one profile, built from their latest visit
+const profilesByIdNumber = new Map<string, { ref: DocumentReference; lastVisitAt: number }>();
+const latestVisitByIdNumber = new Map<string, DocumentData>();
+const profilesWritten = new Set<string>();
+
+const splitLegacyVisitors: Migration = {
+  version: 2,
+  description: 'Move legacy visitors documents into visitorProfiles and visits',
+  collections: ['visitors', 'visits', 'visitorProfiles'],
+  prepare: async ({ db }) => {
+    profilesByIdNumber.clear();
+    latestVisitByIdNumber.clear();
+    profilesWritten.clear();
+
+    const profiles = await db.collection('visitorProfiles').get();
+    profiles.docs.forEach(doc => {
+      if (!doc.get('visitorIdNumber')) return;
+      const lastVisitAt = doc.get('lastVisitAt');
+      profilesByIdNumber.set(doc.get('visitorIdNumber'), {
+        ref: doc.ref,
+        lastVisitAt: lastVisitAt instanceof Timestamp ? lastVisitAt.toMillis() : 0,
+      });
+    });
+
+    const legacy = await db.collection('visitors').get();
+    legacy.docs.forEach(doc => {
+      const data = toCanonical(doc.data());
+      const visitorIdNumber = legacyIdNumber(doc.id, data);
+      const latest = latestVisitByIdNumber.get(visitorIdNumber);
+      if (!latest || checkInMillis(data) > checkInMillis(latest)) latestVisitByIdNumber.set(visitorIdNumber, data);
+    });
+  },
+  migrate: (snapshot, { db }) => {
+    if (snapshot.ref.parent.id !== 'visitors') return {};
+
+    const data = toCanonical(snapshot.data());
+    const visitorIdNumber = legacyIdNumber(snapshot.id, data);
+    const latest = latestVisitByIdNumber.get(visitorIdNumber) || data;
+    const create: { ref: DocumentReference; data: DocumentData; merge?: boolean }[] = [];
+
+    let profile = profilesByIdNumber.get(visitorIdNumber);
+    if (!profile) {
+      profile = { ref: db.collection('visitorProfiles').doc(), lastVisitAt: 0 };
+      profilesByIdNumber.set(visitorIdNumber, profile);
+
+      const now = Timestamp.now();
+      const created: DocumentData = { visitorIdNumber, schemaVersion: CURRENT_SCHEMA_VERSION, createdAt: now, updatedAt: now };
+      PROFILE_FIELDS.forEach(field => { created[field] = latest[field] || ''; });
+      if (latest.checkInTime) created.lastVisitAt = latest.checkInTime;
+      create.push({ ref: profile.ref, data: created });
+      profilesWritten.add(visitorIdNumber);
+    } else if (!profilesWritten.has(visitorIdNumber) && checkInMillis(latest) > profile.lastVisitAt) {
+      // A profile made by the app before the migration ran; a later legacy visit still refreshes it,
+      // and like a check-in, empty legacy fields never wipe what the profile has
+      const refreshed: DocumentData = { lastVisitAt: latest.checkInTime, updatedAt: Timestamp.now() };
+      PROFILE_FIELDS.filter(field => latest[field]).forEach(field => { refreshed[field] = latest[field]; });
+      create.push({ ref: profile.ref, data: refreshed, merge: true });
+      profilesWritten.add(visitorIdNumber);
+    }
+
+    const visit: DocumentData = Object.fromEntries(
+      Object.entries(data).filter(([key]) => !PROFILE_FIELDS.includes(key))
+    );
+    create.push({
+      ref: db.collection('visits').doc(snapshot.id),
+      data: { ...visit, visitorIdNumber, profileId: profile.ref.id, schemaVersion: CURRENT_SCHEMA_VERSION },
+    });
+
+    return { create, remove: true };
+  },
+};
+
+export const visitorMigrations: Migration[] = [unifyFieldNames, splitLegacyVisitors];
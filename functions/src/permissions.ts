@@ -0,0 +1,48 @@
+// Server-side copy of the permission catalogue in src/services/permissionService.ts
+
+import { getFirestore, DocumentData } from 'firebase-admin/firestore';
+import { CallableRequest } from 'firebase-functions/v2/https';
+
+const ALL_PERMISSIONS = [
+  'manage_users', 'manage_roles', 'manage_residents', 'manage_backups',
+  'view_reports', 'export_reports', 'view_audit_logs',
+  'view_visitors', 'check_in_visitors', 'check_out_visitors', 'manage_visitors',
+  'emergency_evacuation', 'override_check_in_policy', 'manage_appointments', 'manage_watchlist',
+  'manage_data_retention',
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  'super-admin': ALL_PERMISSIONS,
+  'admin': [
+    'manage_users', 'manage_roles', 'manage_residents', 'manage_backups',
+    'view_reports', 'export_reports', 'view_audit_logs',
+    'view_visitors', 'check_in_visitors', 'check_out_visitors', 'manage_visitors',
+    'emergency_evacuation', 'override_check_in_policy', 'manage_appointments', 'manage_watchlist',
+    'manage_data_retention',
+  ],
+  'hierarchy-person': ['view_reports', 'export_reports', 'view_audit_logs', 'view_visitors', 'override_check_in_policy'],
+  'front-desk': ['view_visitors', 'check_in_visitors', 'check_out_visitors', 'emergency_evacuation', 'manage_appointments'],
+  'pending': [],
+};
+
+// Checks the custom claims set by syncUserClaims on the caller's ID token; a deactivated account has none
+export const hasPermission = (request: CallableRequest, permission: string): boolean => {
+  const token = request.auth?.token;
+  return token?.active === true && (token.role === 'super-admin' ||
+    (Array.isArray(token.permissions) && token.permissions.includes(permission)));
+};
+
+export const getRolePermissions = async (role: string): Promise<string[]> => {
+  if (role === 'super-admin') return ALL_PERMISSIONS;
+
+  const template = await getFirestore().doc(`role_templates/${role}`).get();
+  return template.exists ? template.data()?.permissions || [] : DEFAULT_ROLE_PERMISSIONS[role] || [];
+};
+
+// Role template plus the user's own grants, minus their revocations
+export const resolvePermissions = async (profile: DocumentData): Promise<string[]> => {
+  const effective = new Set(await getRolePermissions(profile.role));
+  (profile.permissionOverrides?.granted || []).forEach((p: string) => effective.add(p));
+  (profile.permissionOverrides?.revoked || []).forEach((p: string) => effective.delete(p));
+  return ALL_PERMISSIONS.filter(p => effective.has(p));
+};
@@ -0,0 +1,187 @@
+// Public pre-registration portal: visitors book an arrival slot ahead of time and get a signed QR pass
+
+import { createHash, randomBytes } from 'node:crypto';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { appendAuditEntries, clientIp } from './auditTrail.js';
+import { badgeSigningKey, signPayload, BadgeCodePayload } from './badgeCodes.js';
+import { localDaysBetween, localTime } from './facility.js';
+
+// Keep in sync with src/services/preRegistrationService.ts
+const SLOT_MINUTES = 30;
+const SLOT_CAPACITY = 5;
+const PORTAL_OPENING_HOUR = 9;
+const PORTAL_CLOSING_HOUR = 17;
+const BOOKING_DAYS_AHEAD = 14;
+// A pass still works this long after its slot ends, for visitors who run late
+const PASS_GRACE_HOURS = 4;
+
+const SLOT_MS = SLOT_MINUTES * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Bookings accepted per visitor email and per client address in each window
+const RATE_LIMITS = [
+  { scope: 'email', limit: 5, windowMs: DAY_MS },
+  { scope: 'ip', limit: 20, windowMs: HOUR_MS },
+];
+
+// Fields copied from the visitor form; anything else in the request is ignored
+const VISITOR_FIELDS = [
+  'firstName', 'lastName', 'email', 'phone', 'relationship', 'emergencyContact', 'emergencyPhone',
+  'visitorIdNumber', 'accessLevel', 'notes', 'visitorMeetingSelection', 'visitorCategory', 'visitorCategoryOther',
+  'staffDepartment', 'visitPurpose', 'visitPurposeOther', 'residentId', 'residentName', 'residentRoom',
+];
+const REQUIRED_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'emergencyContact', 'emergencyPhone', 'visitorMeetingSelection', 'visitPurpose'];
+const ACCESS_LEVELS = ['family', 'friend', 'professional', 'volunteer', 'contractor'];
+const MAX_FIELD_LENGTH = 500;
+const MAX_PHOTO_LENGTH = 700_000;
+
+interface PreRegistrationRequest {
+  visitor: Record<string, unknown>;
+  slotStart: number;
+}
+
+const sanitizeVisitor = (input: Record<string, unknown>): Record<string, string> => {
+  const visitor: Record<string, string> = {};
+
+  for (const field of VISITOR_FIELDS) {
+    const value = input[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string' || value.length > MAX_FIELD_LENGTH) {
+      throw new HttpsError('invalid-argument', `Invalid ${field}`);
+    }
+    visitor[field] = value.trim();
+  }
+
+  const missing = REQUIRED_FIELDS.filter(field => !visitor[field]);
+  if (missing.length > 0) {
+    throw new HttpsError('invalid-argument', `Missing ${missing.join(', ')}`);
+  }
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(visitor.email)) {
+    throw new HttpsError('invalid-argument', 'A valid email address is required to receive the pass');
+  }
+  if (visitor.accessLevel && !ACCESS_LEVELS.includes(visitor.accessLevel)) {
+    throw new HttpsError('invalid-argument', 'Invalid accessLevel');
+  }
+
+  const photo = input.photoUrl;
+  if (typeof photo === 'string' && photo.startsWith('data:image/') && photo.length <= MAX_PHOTO_LENGTH) {
+    visitor.photoUrl = photo;
+  }
+
+  return visitor;
+};
+
+// Arrival times the portal offers: a slot start within opening hours, from today up to BOOKING_DAYS_AHEAD days out
+const isBookableSlot = (slotStart: number, now: number): boolean => {
+  if (!Number.isInteger(slotStart) || slotStart % SLOT_MS !== 0 || slotStart <= now) return false;
+
+  const { hour } = localTime(new Date(slotStart));
+  return hour >= PORTAL_OPENING_HOUR && hour < PORTAL_CLOSING_HOUR
+    && localDaysBetween(new Date(now), new Date(slotStart)) < BOOKING_DAYS_AHEAD;
+};
+
+// Fixed-window counter under a hash of the key, so no email address or IP address is stored
+const takeRateLimit = async (scope: string, value: string, limit: number, windowMs: number): Promise<void> => {
+  const db = getFirestore();
+  const limitRef = db.doc(`portal_rate_limits/${createHash('sha256').update(`${scope}:${value}`).digest('hex')}`);
+
+  await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(limitRef);
+    const now = Date.now();
+    const windowStart: number = current.get('windowStart')?.toMillis() ?? 0;
+    const inWindow = now - windowStart < windowMs;
+    const count: number = inWindow ? current.get('count') || 0 : 0;
+    if (count >= limit) {
+      throw new HttpsError('resource-exhausted', 'Too many bookings. Please try again later or call the front desk.');
+    }
+
+    const start = inWindow ? windowStart : now;
+    transaction.set(limitRef, {
+      windowStart: Timestamp.fromMillis(start),
+      count: count + 1,
+      expiresAt: Timestamp.fromMillis(start + windowMs),
+    });
+  });
+};
+
+export const getPreRegistrationAvailability = onCall<{ from: number; to: number }>(async (request) => {
+  const { from, to } = request.data || {};
+  if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from || to - from > BOOKING_DAYS_AHEAD * DAY_MS) {
+    throw new HttpsError('invalid-argument', `A date range of up to ${BOOKING_DAYS_AHEAD} days is required`);
+  }
+
+  const snapshot = await getFirestore().collection('pre_registration_slots')
+    .where('slotStart', '>=', Timestamp.fromMillis(from))
+    .where('slotStart', '<', Timestamp.fromMillis(to))
+    .get();
+
+  const booked: Record<string, number> = {};
+  snapshot.docs.forEach(doc => { booked[doc.id] = doc.get('booked') || 0; });
+  return { slotMinutes: SLOT_MINUTES, capacity: SLOT_CAPACITY, booked };
+});
+
+export const preRegisterVisitor = onCall<PreRegistrationRequest>({ secrets: [badgeSigningKey] }, async (request) => {
+  const { visitor: input, slotStart } = request.data || {};
+  if (!input || typeof input !== 'object') {
+    throw new HttpsError('invalid-argument', 'Visitor details are required');
+  }
+
+  const now = Date.now();
+  if (!isBookableSlot(slotStart, now)) {
+    throw new HttpsError('invalid-argument',
+      `Pick an arrival time between ${PORTAL_OPENING_HOUR}:00 and ${PORTAL_CLOSING_HOUR}:00 within the next ${BOOKING_DAYS_AHEAD} days`);
+  }
+
+  const visitor = sanitizeVisitor(input);
+  for (const { scope, limit, windowMs } of RATE_LIMITS) {
+    await takeRateLimit(scope, scope === 'email' ? visitor.email.toLowerCase() : clientIp(request), limit, windowMs);
+  }
+  const db = getFirestore();
+  const registrationRef = db.collection('preRegistrations').doc();
+  const slotRef = db.doc(`pre_registration_slots/${slotStart}`);
+
+  const issuedAt = Math.floor(now / 1000);
+  const payload: BadgeCodePayload = {
+    t: 'p',
+    id: registrationRef.id,
+    jti: randomBytes(12).toString('base64url'),
+    iat: issuedAt,
+    exp: Math.floor((slotStart + SLOT_MS) / 1000) + PASS_GRACE_HOURS * 60 * 60,
+  };
+  const pass = signPayload(payload);
+
+  // Counted in a transaction so two visitors can't both take the last place in a slot
+  await db.runTransaction(async (transaction) => {
+    const slot = await transaction.get(slotRef);
+    const booked: number = slot.get('booked') || 0;
+    if (booked >= SLOT_CAPACITY) {
+      throw new HttpsError('resource-exhausted', 'That arrival time is fully booked. Please pick another.');
+    }
+
+    transaction.set(slotRef, { slotStart: Timestamp.fromMillis(slotStart), booked: booked + 1 }, { merge: true });
+    transaction.create(registrationRef, {
+      visitor,
+      slotStart: Timestamp.fromMillis(slotStart),
+      slotEnd: Timestamp.fromMillis(slotStart + SLOT_MS),
+      status: 'pending',
+      passId: payload.jti,
+      passExpiresAt: Timestamp.fromMillis(payload.exp * 1000),
+      createdAt: Timestamp.fromMillis(now),
+    });
+  });
+
+  await appendAuditEntries('pre-registration-portal', clientIp(request), [{
+    action: 'visitor_pre_registered',
+    details: {
+      preRegistrationId: registrationRef.id,
+      visitorName: `${visitor.firstName} ${visitor.lastName}`,
+      slotStart: new Date(slotStart).toISOString(),
+    },
+  }]);
+
+  logger.info('Visitor pre-registered', { preRegistrationId: registrationRef.id, slotStart });
+  return { id: registrationRef.id, pass, slotStart, expiresAt: payload.exp * 1000 };
+});
@@ -0,0 +1,362 @@
+// Removes visitor personal data once it is older than the retention periods in settings/retention,
+// except what is under an active legal hold. Covers visits, profiles, portal bookings, appointments,
+// the email log and the names recorded in the audit trail
+
+import { getFirestore, DocumentData, FieldValue, Firestore, QueryDocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { appendAuditEntries, clientIp, AuditEntryInput } from './auditTrail.js';
+import { facilityTimeZone } from './facility.js';
+import { hasPermission } from './permissions.js';
+
+// Keep in sync with RetentionCategory in src/types/index.ts
+type RetentionCategory = 'healthScreening' | 'contactDetails' | 'photos' | 'identity';
+
+const CATEGORIES: RetentionCategory[] = ['healthScreening', 'contactDetails', 'photos', 'identity'];
+const SCHEDULE = '30 2 * * *';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_AUDIT_ENTRIES = 200;
+const MAX_REDACTIONS_PER_ENTRY = 1000;
+
+// What each category removes from a closed visit, from each of its family members and from a profile.
+// Identity deletes the profile outright and unlinks the visit from it. Visits written before profiles
+// existed still carry the visitor's name and contact details
+const VISIT_FIELDS: Record<RetentionCategory, string[]> = {
+  healthScreening: ['healthScreening'],
+  contactDetails: ['email', 'phone', 'phoneNumber', 'emergencyContact', 'emergencyPhone'],
+  photos: ['photoUrl', 'photoURL'],
+  identity: ['visitorIdNumber', 'profileId', 'mergedFromVisitorIdNumber', 'firstName', 'lastName', 'fullName', 'notes', 'qrCode', 'qrCodeId'],
+};
+const FAMILY_MEMBER_FIELDS: Record<RetentionCategory, string[]> = {
+  healthScreening: [],
+  contactDetails: ['phone', 'email'],
+  photos: [],
+  identity: ['firstName', 'lastName'],
+};
+const PROFILE_FIELDS: Record<RetentionCategory, string[]> = {
+  healthScreening: [],
+  contactDetails: ['email', 'phone', 'emergencyContact', 'emergencyPhone'],
+  photos: ['photoUrl'],
+  identity: [],
+};
+// Fields of the `visitor` form on a portal booking; identity deletes the booking
+const PRE_REGISTRATION_FIELDS: Record<RetentionCategory, string[]> = {
+  healthScreening: [],
+  contactDetails: ['email', 'phone', 'emergencyContact', 'emergencyPhone'],
+  photos: ['photoUrl'],
+  identity: [],
+};
+const APPOINTMENT_FIELDS: Record<RetentionCategory, string[]> = {
+  healthScreening: [],
+  contactDetails: ['email', 'phone'],
+  photos: [],
+  identity: ['firstName', 'lastName', 'visitorIdNumber', 'notes'],
+};
+// Names the app writes into audit entry details
+const AUDIT_NAME_FIELDS = ['details.visitorName', 'details.residentName'];
+// Profile entries record the visitor's identity and contact details as they changed
+const PROFILE_AUDIT_ACTIONS = ['visitor_profile_created', 'visitor_profile_updated'];
+const AUDIT_PROFILE_FIELDS = ['before', 'after'].flatMap(side =>
+  ['firstName', 'lastName', 'email', 'phone', 'photoUrl', 'emergencyContact', 'emergencyPhone'].map(field => `${side}.${field}`));
+
+export interface LegalHold {
+  visitorIdNumber?: string;
+  from?: Date;
+  to?: Date;
+}
+
+interface PurgeSummary {
+  dryRun: boolean;
+  visits: number;
+  profiles: number;
+  preRegistrations: number;
+  appointments: number;
+  emails: number;
+  auditEntries: number;
+  held: number;
+  byCategory: Record<RetentionCategory, number>;
+}
+
+export const loadActiveHolds = async (db: Firestore): Promise<LegalHold[]> =>
+  (await db.collection('legal_holds').get()).docs
+    .filter(hold => !hold.get('releasedAt'))
+    .map(hold => ({
+      visitorIdNumber: hold.get('visitorIdNumber') || undefined,
+      from: hold.get('from')?.toDate(),
+      to: hold.get('to')?.toDate(),
+    }));
+
+export const isHeld = (holds: LegalHold[], visit: DocumentData): boolean => {
+  const checkInTime: Date | undefined = visit.checkInTime?.toDate();
+  const idNumbers = [visit.visitorIdNumber, visit.mergedFromVisitorIdNumber].filter(Boolean);
+  return holds.some(hold =>
+    (!hold.visitorIdNumber || idNumbers.includes(hold.visitorIdNumber)) &&
+    (!hold.from || (!!checkInTime && checkInTime >= hold.from)) &&
+    (!hold.to || (!!checkInTime && checkInTime <= hold.to))
+  );
+};
+
+// Categories past their period on a document of this age and not removed by an earlier run
+const expiredCategories = (periods: Partial<Record<RetentionCategory, number>>, at: Date | undefined, purged: string[], now: Date) =>
+  CATEGORIES.filter(category => {
+    const days = periods[category];
+    return days && at && now.getTime() - at.getTime() > days * DAY_MS && !purged.includes(category);
+  });
+
+const appendInChunks = async (userId: string, ipAddress: string, entries: AuditEntryInput[]): Promise<void> => {
+  for (let i = 0; i < entries.length; i += MAX_AUDIT_ENTRIES) {
+    await appendAuditEntries(userId, ipAddress, entries.slice(i, i + MAX_AUDIT_ENTRIES));
+  }
+};
+
+export const purgeExpiredData = async (now: Date, userId: string, ipAddress: string, dryRun: boolean): Promise<PurgeSummary> => {
+  const db = getFirestore();
+  const summary: PurgeSummary = {
+    dryRun,
+    visits: 0,
+    profiles: 0,
+    preRegistrations: 0,
+    appointments: 0,
+    emails: 0,
+    auditEntries: 0,
+    held: 0,
+    byCategory: { healthScreening: 0, contactDetails: 0, photos: 0, identity: 0 },
+  };
+
+  const periods: Partial<Record<RetentionCategory, number>> = (await db.doc('settings/retention').get()).get('periodDays') || {};
+  const shortest = Math.min(...CATEGORIES.map(category => periods[category] || Infinity));
+  if (shortest === Infinity) return summary;
+
+  const holds = await loadActiveHolds(db);
+
+  // Every profile old enough to expire has all of its visits in here, so its holds can be checked
+  const cutoff = Timestamp.fromMillis(now.getTime() - shortest * DAY_MS);
+  const [visits, profiles, preRegistrations, appointments, emails, auditLogs] = await Promise.all([
+    db.collection('visits').where('checkInTime', '<', cutoff).get(),
+    db.collection('visitorProfiles').where('lastVisitAt', '<', cutoff).get(),
+    db.collection('preRegistrations').where('slotStart', '<', cutoff).get(),
+    db.collection('appointments').where('startTime', '<', cutoff).get(),
+    db.collection('email_log').where('sentAt', '<', cutoff).get(),
+    periods.identity
+      ? db.collection('audit_logs').where('timestamp', '<', Timestamp.fromMillis(now.getTime() - periods.identity * DAY_MS)).get()
+      : null,
+  ]);
+
+  const writer = db.bulkWriter();
+  const auditEntries: AuditEntryInput[] = [];
+  const heldProfileIds = new Set<string>();
+  // Visits, bookings and appointments kept by a hold; their emails and audit entries are kept too
+  const heldIds = new Set<string>();
+
+  const record = (snapshot: QueryDocumentSnapshot, collection: string, categories: RetentionCategory[], fields: string[]) => {
+    categories.forEach(category => { summary.byCategory[category] += 1; });
+    auditEntries.push({
+      action: 'retention_purged',
+      visitorId: collection === 'visits' ? snapshot.id : undefined,
+      details: { collection, documentId: snapshot.id, categories, fields },
+    });
+  };
+
+  const removeFields = (snapshot: QueryDocumentSnapshot, collection: string, categories: RetentionCategory[], fields: string[]) => {
+    if (!dryRun) {
+      writer.update(snapshot.ref, {
+        ...Object.fromEntries(fields.map(field => [field, FieldValue.delete()])),
+        purgedCategories: FieldValue.arrayUnion(...categories),
+        purgedAt: Timestamp.fromDate(now),
+      });
+    }
+    record(snapshot, collection, categories, fields);
+  };
+
+  const removeDocument = (snapshot: QueryDocumentSnapshot, collection: string, categories: RetentionCategory[]) => {
+    if (!dryRun) writer.delete(snapshot.ref);
+    record(snapshot, collection, categories, ['(document deleted)']);
+  };
+
+  visits.docs.forEach(visit => {
+    const data = visit.data();
+    // Visits still open are never touched
+    if (data.status === 'checked-in') return;
+    const categories = expiredCategories(periods, data.checkInTime?.toDate(), data.purgedCategories || [], now);
+    if (categories.length === 0) return;
+
+    if (isHeld(holds, data)) {
+      summary.held += 1;
+      heldIds.add(visit.id);
+      if (data.profileId) heldProfileIds.add(data.profileId);
+      return;
+    }
+
+    const fields = categories.flatMap(category => VISIT_FIELDS[category]).filter(field => data[field] !== undefined);
+    const memberFields = categories.flatMap(category => FAMILY_MEMBER_FIELDS[category]);
+    const members: DocumentData[] = data.familyMembers || [];
+    const membersChanged = members.some(member => memberFields.some(field => member[field] !== undefined));
+
+    const update: Record<string, unknown> = {
+      ...Object.fromEntries(fields.map(field => [field, FieldValue.delete()])),
+      purgedCategories: FieldValue.arrayUnion(...categories),
+      purgedAt: Timestamp.fromDate(now),
+    };
+    if (membersChanged) {
+      update.familyMembers = members.map(member =>
+        Object.fromEntries(Object.entries(member).filter(([field]) => !memberFields.includes(field))));
+    }
+
+    if (!dryRun) writer.update(visit.ref, update);
+    summary.visits += 1;
+    record(visit, 'visits', categories, [...fields, ...(membersChanged ? memberFields.map(field => `familyMembers.${field}`) : [])]);
+  });
+
+  profiles.docs.forEach(profile => {
+    const data = profile.data();
+    const categories = expiredCategories(periods, data.lastVisitAt?.toDate(), data.purgedCategories || [], now)
+      .filter(category => category !== 'healthScreening');
+    if (categories.length === 0) return;
+
+    if (heldProfileIds.has(profile.id) || holds.some(hold => hold.visitorIdNumber === data.visitorIdNumber)) {
+      summary.held += 1;
+      return;
+    }
+
+    summary.profiles += 1;
+    if (categories.includes('identity')) {
+      removeDocument(profile, 'visitorProfiles', categories);
+    } else {
+      removeFields(profile, 'visitorProfiles', categories, categories.flatMap(category => PROFILE_FIELDS[category]).filter(field => data[field]));
+    }
+  });
+
+  preRegistrations.docs.forEach(registration => {
+    const data = registration.data();
+    const categories = expiredCategories(periods, data.slotStart?.toDate(), data.purgedCategories || [], now)
+      .filter(category => category !== 'healthScreening');
+    if (categories.length === 0) return;
+
+    if (heldIds.has(data.visitId) || isHeld(holds, { visitorIdNumber: data.visitor?.visitorIdNumber, checkInTime: data.slotStart })) {
+      summary.held += 1;
+      heldIds.add(registration.id);
+      return;
+    }
+
+    summary.preRegistrations += 1;
+    if (categories.includes('identity')) {
+      removeDocument(registration, 'preRegistrations', categories);
+    } else {
+      const fields = categories.flatMap(category => PRE_REGISTRATION_FIELDS[category])
+        .map(field => `visitor.${field}`)
+        .filter(field => registration.get(field) !== undefined);
+      removeFields(registration, 'preRegistrations', categories, fields);
+    }
+  });
+
+  appointments.docs.forEach(appointment => {
+    const data = appointment.data();
+    // A series lasts until its last day; one with no end keeps its details while it still brings visitors
+    const lastDay: Date | undefined = data.recurrence ? data.recurrence.until?.toDate() : data.startTime?.toDate();
+    const categories = expiredCategories(periods, lastDay, data.purgedCategories || [], now)
+      .filter(category => category !== 'healthScreening');
+    if (categories.length === 0) return;
+
+    if (heldIds.has(data.visitId) || isHeld(holds, { visitorIdNumber: data.visitorIdNumber, checkInTime: data.startTime })) {
+      summary.held += 1;
+      heldIds.add(appointment.id);
+      return;
+    }
+
+    summary.appointments += 1;
+    removeFields(appointment, 'appointments', categories,
+      categories.flatMap(category => APPOINTMENT_FIELDS[category]).filter(field => data[field] !== undefined));
+  });
+
+  // An email record is the address it went to and a subject naming the visitor, so it goes with either
+  emails.docs.forEach(email => {
+    const categories = expiredCategories(periods, email.get('sentAt')?.toDate(), [], now)
+      .filter(category => category === 'contactDetails' || category === 'identity');
+    if (categories.length === 0) return;
+
+    if (heldIds.has(email.get('relatedId'))) {
+      summary.held += 1;
+      return;
+    }
+
+    summary.emails += 1;
+    removeDocument(email, 'email_log', categories);
+  });
+
+  // Names and profile details in the audit trail are blanked the way an erasure blanks entries: listed
+  // first, then redacted, so the chain check still accepts them. The rest of each entry stays as evidence
+  // of what happened
+  const identifyingFields = (entry: QueryDocumentSnapshot) =>
+    [...AUDIT_NAME_FIELDS, ...(PROFILE_AUDIT_ACTIONS.includes(entry.get('action')) ? AUDIT_PROFILE_FIELDS : [])]
+      .filter(field => entry.get(field) !== undefined);
+  const redacted = (auditLogs?.docs || []).filter(entry =>
+    typeof entry.get('sequence') === 'number' &&
+    identifyingFields(entry).length > 0 &&
+    !heldIds.has(entry.get('visitorId')) &&
+    !heldProfileIds.has(entry.get('details.profileId')) &&
+    !heldIds.has(entry.get('details.preRegistrationId')) &&
+    !heldIds.has(entry.get('details.appointmentId')) &&
+    !holds.some(hold => hold.visitorIdNumber && hold.visitorIdNumber === entry.get('details.visitorIdNumber')));
+  summary.auditEntries = redacted.length;
+
+  await writer.close();
+
+  if (!dryRun && redacted.length > 0) {
+    const sequences = redacted.map(entry => entry.get('sequence') as number);
+    await appendInChunks(userId, ipAddress, Array.from({ length: Math.ceil(sequences.length / MAX_REDACTIONS_PER_ENTRY) }, (_, i) => ({
+      action: 'retention_redacted',
+      details: { fields: [...AUDIT_NAME_FIELDS, ...AUDIT_PROFILE_FIELDS], redactedSequences: sequences.slice(i * MAX_REDACTIONS_PER_ENTRY, (i + 1) * MAX_REDACTIONS_PER_ENTRY) },
+    })));
+
+    const redactor = db.bulkWriter();
+    redacted.forEach(entry => redactor.update(entry.ref, {
+      ...Object.fromEntries(identifyingFields(entry).map(field => [field, FieldValue.delete()])),
+      redactedAt: Timestamp.fromDate(now),
+    }));
+    await redactor.close();
+  }
+
+  const changed = summary.visits + summary.profiles + summary.preRegistrations + summary.appointments + summary.emails;
+  if (!dryRun && changed > 0) {
+    await appendInChunks(userId, ipAddress, [
+      ...auditEntries,
+      {
+        action: 'retention_purge_run',
+        details: {
+          visits: summary.visits,
+          profiles: summary.profiles,
+          preRegistrations: summary.preRegistrations,
+          appointments: summary.appointments,
+          emails: summary.emails,
+          auditEntries: summary.auditEntries,
+          held: summary.held,
+          byCategory: summary.byCategory,
+        },
+      },
+    ]);
+  }
+
+  logger.info('Retention purge finished', { ...summary });
+  return summary;
+};
+
+// Nightly run; switched off by settings/retention.autoPurge = false
+export const purgeExpiredPersonalData = onSchedule({ schedule: SCHEDULE, timeZone: facilityTimeZone }, async () => {
+  const settings = await getFirestore().doc('settings/retention').get();
+  if (settings.get('autoPurge') === false) {
+    logger.info('Retention purge is switched off');
+    return;
+  }
+
+  await purgeExpiredData(new Date(), 'retention-policy', 'scheduler', false);
+});
+
+// Lets an administrator preview what the policy would remove, or purge straight away
+export const runRetentionPurge = onCall<{ dryRun?: boolean }>(async (request) => {
+  if (!hasPermission(request, 'manage_data_retention')) {
+    throw new HttpsError('permission-denied', 'Not allowed to purge visitor data');
+  }
+
+  return purgeExpiredData(new Date(), request.auth!.uid, clientIp(request), request.data?.dryRun !== false);
+});
@@ -0,0 +1,39 @@
+// Lets user managers reset another staff member's password
+
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { appendAuditEntries, clientIp } from './auditTrail.js';
+import { hasPermission } from './permissions.js';
+
+interface SetPasswordRequest {
+  uid: string;
+  password: string;
+}
+
+export const setStaffPassword = onCall<SetPasswordRequest>(async (request) => {
+  if (!hasPermission(request, 'manage_users')) {
+    throw new HttpsError('permission-denied', 'Not allowed to change staff passwords');
+  }
+
+  const { uid, password } = request.data || {};
+  if (!uid || !password || password.length < 8) {
+    throw new HttpsError('invalid-argument', 'Password must be at least 8 characters long');
+  }
+
+  // As in firestore.rules, only super admins may act on another super admin's account
+  const target = await getFirestore().doc(`users/${uid}`).get();
+  if (target.get('role') === 'super-admin' && request.auth?.token.role !== 'super-admin') {
+    throw new HttpsError('permission-denied', "Only a super admin can change a super admin's password");
+  }
+
+  await getAuth().updateUser(uid, { password });
+  await getAuth().revokeRefreshTokens(uid);
+  await appendAuditEntries(request.auth!.uid, clientIp(request), [
+    { action: 'user_password_reset', targetUserId: uid },
+  ]);
+
+  logger.info('Staff password reset', { uid, by: request.auth?.uid });
+  return { success: true };
+});
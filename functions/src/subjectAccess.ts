@@ -0,0 +1,243 @@
+// Subject access requests: everything held about one visitor, exported or erased at their request
+
+import { getFirestore, DocumentData, DocumentSnapshot, FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { appendAuditEntries, clientIp } from './auditTrail.js';
+import { hasPermission } from './permissions.js';
+import { isHeld, loadActiveHolds } from './retention.js';
+
+interface SubjectLookup {
+  profileId?: string;
+  visitorIdNumber?: string;
+}
+
+interface SubjectRecords {
+  profiles: DocumentSnapshot[];
+  visits: DocumentSnapshot[];
+  appointments: DocumentSnapshot[];
+  preRegistrations: DocumentSnapshot[];
+  emails: DocumentSnapshot[];
+  auditEntries: DocumentSnapshot[];
+}
+
+// Firestore caps `in` filters at 30 values
+const IN_LIMIT = 30;
+
+// Everything on a visit that identifies the visitor; check-in times, status and the resident stay for statistics
+const ERASED_VISIT_FIELDS = [
+  'visitorIdNumber', 'profileId', 'mergedFromVisitorIdNumber', 'firstName', 'lastName', 'email', 'phone',
+  'emergencyContact', 'emergencyPhone', 'photoUrl', 'photoURL', 'healthScreening', 'notes', 'qrCode', 'qrCodeId',
+];
+const KEPT_FAMILY_MEMBER_FIELDS = ['id', 'badgeNumber', 'checkInTime', 'checkOutTime', 'status'];
+
+const uniqueDocs = (docs: DocumentSnapshot[]): DocumentSnapshot[] =>
+  Array.from(new Map(docs.map(snapshot => [snapshot.ref.path, snapshot])).values());
+
+const queryIn = async (db: Firestore, collection: string, field: string, values: unknown[]): Promise<DocumentSnapshot[]> => {
+  const unique = Array.from(new Set(values.filter(value => typeof value === 'string' && value)));
+  const chunks = Array.from({ length: Math.ceil(unique.length / IN_LIMIT) }, (_, i) => unique.slice(i * IN_LIMIT, (i + 1) * IN_LIMIT));
+  const snapshots = await Promise.all(chunks.map(chunk => db.collection(collection).where(field, 'in', chunk).get()));
+  return snapshots.flatMap(snapshot => snapshot.docs);
+};
+
+// The profile asked about, the profile it was merged into, and every profile merged into that one
+const findProfiles = async (db: Firestore, { profileId, visitorIdNumber }: SubjectLookup): Promise<DocumentSnapshot[]> => {
+  let profile: DocumentSnapshot | undefined = profileId
+    ? await db.doc(`visitorProfiles/${profileId}`).get()
+    : (await db.collection('visitorProfiles').where('visitorIdNumber', '==', visitorIdNumber).limit(1).get()).docs[0];
+  if (!profile?.exists) return [];
+
+  const seen = new Set<string>([profile.id]);
+  while (profile.get('mergedInto') && !seen.has(profile.get('mergedInto'))) {
+    const survivor: DocumentSnapshot = await db.doc(`visitorProfiles/${profile.get('mergedInto')}`).get();
+    if (!survivor.exists) break;
+    seen.add(survivor.id);
+    profile = survivor;
+  }
+
+  const profiles = [profile];
+  for (let i = 0; i < profiles.length; i++) {
+    const merged = await db.collection('visitorProfiles').where('mergedInto', '==', profiles[i].id).get();
+    profiles.push(...merged.docs.filter(snapshot => !profiles.some(existing => existing.id === snapshot.id)));
+  }
+  return profiles;
+};
+
+const collectRecords = async (db: Firestore, lookup: SubjectLookup): Promise<SubjectRecords> => {
+  const profiles = await findProfiles(db, lookup);
+  const profileIds = profiles.map(profile => profile.id);
+  const idNumbers = [lookup.visitorIdNumber, ...profiles.map(profile => profile.get('visitorIdNumber'))];
+  const emailAddresses = profiles.map(profile => profile.get('email'));
+
+  const visits = uniqueDocs((await Promise.all([
+    queryIn(db, 'visits', 'profileId', profileIds),
+    queryIn(db, 'visits', 'visitorIdNumber', idNumbers),
+    queryIn(db, 'visits', 'mergedFromVisitorIdNumber', idNumbers),
+  ])).flat());
+  if (profiles.length === 0 && visits.length === 0) {
+    throw new HttpsError('not-found', 'No visitor has that profile or ID number');
+  }
+  const visitIds = visits.map(visit => visit.id);
+
+  const [appointments, preRegistrations] = await Promise.all([
+    Promise.all([
+      queryIn(db, 'appointments', 'visitorIdNumber', idNumbers),
+      queryIn(db, 'appointments', 'email', emailAddresses),
+      queryIn(db, 'appointments', 'visitId', visitIds),
+    ]).then(results => uniqueDocs(results.flat())),
+    Promise.all([
+      queryIn(db, 'preRegistrations', 'visitor.visitorIdNumber', idNumbers),
+      queryIn(db, 'preRegistrations', 'visitor.email', emailAddresses),
+      queryIn(db, 'preRegistrations', 'visitId', visitIds),
+    ]).then(results => uniqueDocs(results.flat())),
+  ]);
+  const appointmentIds = appointments.map(appointment => appointment.id);
+  const preRegistrationIds = preRegistrations.map(registration => registration.id);
+
+  const [emails, auditEntries] = await Promise.all([
+    Promise.all([
+      queryIn(db, 'email_log', 'relatedId', [...visitIds, ...appointmentIds, ...preRegistrationIds]),
+      queryIn(db, 'email_log', 'to', emailAddresses),
+    ]).then(results => uniqueDocs(results.flat())),
+    Promise.all([
+      queryIn(db, 'audit_logs', 'visitorId', visitIds),
+      queryIn(db, 'audit_logs', 'details.profileId', profileIds),
+      queryIn(db, 'audit_logs', 'details.mergedProfileId', profileIds),
+      queryIn(db, 'audit_logs', 'details.appointmentId', appointmentIds),
+      queryIn(db, 'audit_logs', 'details.preRegistrationId', preRegistrationIds),
+      // Watchlist hits and profile changes name the visitor by ID number alone
+      queryIn(db, 'audit_logs', 'details.visitorIdNumber', idNumbers),
+      queryIn(db, 'audit_logs', 'after.visitorIdNumber', idNumbers),
+    ]).then(results => uniqueDocs(results.flat())),
+  ]);
+
+  return { profiles, visits, appointments, preRegistrations, emails, auditEntries };
+};
+
+const toPlain = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlain(item)]));
+  }
+  return value;
+};
+
+const toRecords = (docs: DocumentSnapshot[]) =>
+  docs.map(snapshot => ({ id: snapshot.id, ...(toPlain(snapshot.data()) as DocumentData) }));
+
+const countRecords = (records: SubjectRecords): Record<keyof SubjectRecords, number> => ({
+  profiles: records.profiles.length,
+  visits: records.visits.length,
+  appointments: records.appointments.length,
+  preRegistrations: records.preRegistrations.length,
+  emails: records.emails.length,
+  auditEntries: records.auditEntries.length,
+});
+
+const readLookup = (request: CallableRequest<SubjectLookup>): SubjectLookup => {
+  if (!hasPermission(request, 'manage_data_retention')) {
+    throw new HttpsError('permission-denied', 'Not allowed to handle subject access requests');
+  }
+
+  const profileId = typeof request.data?.profileId === 'string' ? request.data.profileId.trim() : '';
+  const visitorIdNumber = typeof request.data?.visitorIdNumber === 'string' ? request.data.visitorIdNumber.trim() : '';
+  if (!profileId && !visitorIdNumber) {
+    throw new HttpsError('invalid-argument', 'Give a visitor profile or ID number');
+  }
+  return { profileId: profileId || undefined, visitorIdNumber: visitorIdNumber || undefined };
+};
+
+export const exportVisitorData = onCall<SubjectLookup>(async (request) => {
+  const lookup = readLookup(request);
+  const db = getFirestore();
+  const records = await collectRecords(db, lookup);
+
+  // Names no one; erasing the visitor later removes even the profile link
+  await appendAuditEntries(request.auth!.uid, clientIp(request), [{
+    action: 'subject_access_exported',
+    details: { profileId: records.profiles[0]?.id || null, counts: countRecords(records) },
+  }]);
+
+  logger.info('Subject access export', { uid: request.auth!.uid, counts: countRecords(records) });
+  return {
+    generatedAt: new Date().toISOString(),
+    profiles: toRecords(records.profiles),
+    visits: toRecords(records.visits),
+    appointments: toRecords(records.appointments),
+    preRegistrations: toRecords(records.preRegistrations),
+    emails: toRecords(records.emails),
+    auditEntries: toRecords(records.auditEntries),
+  };
+});
+
+// Deletes the profiles, pre-registrations and email records, leaves visits and appointments without
+// anything identifying, and blanks the matching audit entries. Refused while the visitor is on site
+// or under a legal hold
+export const eraseVisitorData = onCall<SubjectLookup>(async (request) => {
+  const lookup = readLookup(request);
+  const db = getFirestore();
+  const records = await collectRecords(db, lookup);
+
+  if (records.visits.some(visit => visit.get('status') === 'checked-in')) {
+    throw new HttpsError('failed-precondition', 'The visitor is checked in; check them out before erasing their data');
+  }
+  const holds = await loadActiveHolds(db);
+  const idNumbers = [lookup.visitorIdNumber, ...records.profiles.map(profile => profile.get('visitorIdNumber'))].filter(Boolean);
+  if (holds.some(hold => hold.visitorIdNumber && idNumbers.includes(hold.visitorIdNumber)) ||
+      records.visits.some(visit => isHeld(holds, visit.data() || {}))) {
+    throw new HttpsError('failed-precondition', 'The visitor\'s data is under legal hold');
+  }
+
+  const counts = countRecords(records);
+  const redactedSequences = records.auditEntries
+    .map(entry => entry.get('sequence'))
+    .filter((sequence): sequence is number => typeof sequence === 'number');
+
+  // Written first, so the audit chain check accepts the blanked entries it lists
+  await appendAuditEntries(request.auth!.uid, clientIp(request), [{
+    action: 'subject_erased',
+    details: { counts, redactedSequences },
+  }]);
+
+  const now = Timestamp.now();
+  const writer = db.bulkWriter();
+
+  records.profiles.forEach(profile => writer.delete(profile.ref));
+  records.preRegistrations.forEach(registration => writer.delete(registration.ref));
+  records.emails.forEach(email => writer.delete(email.ref));
+
+  records.visits.forEach(visit => {
+    const data = visit.data() || {};
+    writer.update(visit.ref, {
+      ...Object.fromEntries(ERASED_VISIT_FIELDS.filter(field => data[field] !== undefined).map(field => [field, FieldValue.delete()])),
+      ...(data.policyOverride?.reason ? { 'policyOverride.reason': FieldValue.delete() } : {}),
+      familyMembers: (data.familyMembers || []).map((member: DocumentData) =>
+        Object.fromEntries(Object.entries(member).filter(([field]) => KEPT_FAMILY_MEMBER_FIELDS.includes(field)))),
+      purgedCategories: ['healthScreening', 'contactDetails', 'photos', 'identity'],
+      erasedAt: now,
+    });
+  });
+
+  records.appointments.forEach(appointment => {
+    writer.update(appointment.ref, {
+      firstName: 'Erased',
+      lastName: 'visitor',
+      phone: '',
+      email: FieldValue.delete(),
+      visitorIdNumber: FieldValue.delete(),
+      notes: FieldValue.delete(),
+      erasedAt: now,
+    });
+  });
+
+  records.auditEntries.forEach(entry => {
+    writer.update(entry.ref, { before: null, after: null, details: {}, redactedAt: now });
+  });
+
+  await writer.close();
+
+  logger.info('Subject erased', { uid: request.auth!.uid, counts });
+  return counts;
+});
@@ -0,0 +1,103 @@
+// Keeps Firebase Auth custom claims and the username index in step with users/{uid}
+
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, DocumentData } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { appendAuditEntries } from './auditTrail.js';
+import { resolvePermissions } from './permissions.js';
+
+export interface StaffClaims {
+  role: string;
+  permissions: string[];
+  active: boolean;
+}
+
+export const claimsFromProfile = async (profile: DocumentData): Promise<StaffClaims> => ({
+  role: profile.role,
+  permissions: await resolvePermissions(profile),
+  active: profile.isActive === true,
+});
+
+export const usernameKey = (username: string): string => username.trim().toLowerCase();
+
+export const applyUserClaims = async (uid: string, profile: DocumentData): Promise<void> => {
+  const auth = getAuth();
+  const claims = await claimsFromProfile(profile);
+
+  await auth.setCustomUserClaims(uid, { ...claims });
+  await auth.updateUser(uid, { disabled: !claims.active });
+};
+
+export const syncUserClaims = onDocumentWritten('users/{uid}', async (event) => {
+  const { uid } = event.params;
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  const db = getFirestore();
+  const auth = getAuth();
+
+  if (before?.username && before.username !== after?.username) {
+    await db.doc(`usernames/${usernameKey(before.username)}`).delete();
+  }
+
+  if (!after) {
+    await auth.deleteUser(uid).catch((error) => {
+      if (error.code !== 'auth/user-not-found') throw error;
+    });
+    logger.info('Removed auth account for deleted user', { uid });
+    return;
+  }
+
+  if (after.username && after.email) {
+    await db.doc(`usernames/${usernameKey(after.username)}`).set({ uid, email: after.email });
+  }
+
+  // Signups have no staff session to call recordAudit from, so their creation is recorded here. The
+  // invitation code is a secret, so the entry names the invitation by its reference instead
+  if (!before && (after.pendingApproval === true || after.invitationId)) {
+    const profile = Object.fromEntries(Object.entries(after).filter(([key]) => !['createdAt', 'lastLogin', 'invitationId'].includes(key)));
+    const invitation = after.invitationId ? await db.doc(`invitations/${after.invitationId}`).get() : null;
+    await appendAuditEntries(uid, 'unknown', [{
+      action: 'user_registered',
+      targetUserId: uid,
+      after: profile,
+      details: invitation ? { invitationReference: invitation.get('reference') || null } : {},
+    }]);
+  }
+
+  // Legacy profiles have no Auth account until migrateLegacyAccount runs
+  const hasAuthAccount = await auth.getUser(uid).then(() => true, () => false);
+  if (!hasAuthAccount) return;
+
+  await applyUserClaims(uid, after);
+
+  // Force open sessions to pick up a demotion or deactivation
+  if (before && (before.role !== after.role || before.isActive !== after.isActive ||
+    JSON.stringify(before.permissionOverrides) !== JSON.stringify(after.permissionOverrides))) {
+    await auth.revokeRefreshTokens(uid);
+  }
+
+  logger.info('Synced staff claims', { uid, role: after.role, active: after.isActive });
+});
+
+// Re-applies claims for everyone holding a role when its template is edited
+export const syncRoleTemplate = onDocumentWritten('role_templates/{role}', async (event) => {
+  const { role } = event.params;
+  // A write that leaves the permissions alone, such as a migration stamping its version, signs nobody out
+  const before = event.data?.before.get('permissions');
+  const after = event.data?.after.get('permissions');
+  if (event.data?.before.exists && event.data?.after.exists && JSON.stringify(before) === JSON.stringify(after)) return;
+
+  const auth = getAuth();
+  const users = await getFirestore().collection('users').where('role', '==', role).get();
+
+  for (const userDoc of users.docs) {
+    const hasAuthAccount = await auth.getUser(userDoc.id).then(() => true, () => false);
+    if (!hasAuthAccount) continue;
+
+    await applyUserClaims(userDoc.id, userDoc.data());
+    await auth.revokeRefreshTokens(userDoc.id);
+  }
+
+  logger.info('Re-synced claims after role template change', { role, users: users.size });
+});
@@ -9,51 +9,94 @@ import { Login } from './components/Auth/Login';
 import { Signup } from './components/Auth/Signup';
 import { AdminDashboard } from './components/Admin/AdminDashboard';
 import { FrontDeskDashboard } from './components/FrontDesk/FrontDeskDashboard';
+import { EmergencyRollCall } from './components/Emergency/EmergencyRollCall';
+import { StartEmergencyModal } from './components/Emergency/StartEmergencyModal';
+import { PreRegistrationPortal } from './components/PreRegistration/PreRegistrationPortal';
+import { PreRegistrationPass } from './components/PreRegistration/PreRegistrationPass';
 import { visitorService } from './services/visitorService';
 import { authService } from './services/authService';
+import { emergencyService } from './services/emergencyService';
+import { occupancyService } from './services/occupancyService';
+import { outboxService } from './services/outboxService';
 import { googleDriveService } from './services/googleDriveService';
-import { User, Visitor } from './types';
+import { EmergencySession, EmergencyType, OccupancyStatus, OutboxStatus, User, Visitor } from './types';
 
 function AppContent() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [authReady, setAuthReady] = useState(false);
   const [checkInMode, setCheckInMode] = useState<'check-in' | 'check-out' | null>(null);
-  const [emergencyMode, setEmergencyMode] = useState(false);
+  const [emergencySession, setEmergencySession] = useState<EmergencySession | null>(null);
+  const [showStartEmergency, setShowStartEmergency] = useState(false);
   const [activeVisitorCount, setActiveVisitorCount] = useState(0);
+  const [occupancy, setOccupancy] = useState<OccupancyStatus | null>(null);
+  const [outbox, setOutbox] = useState<OutboxStatus | null>(null);
   const [returningVisitor, setReturningVisitor] = useState<Visitor | null>(null);
   const location = useLocation();
   const navigate = useNavigate();
+  const emergencyMode = emergencySession !== null;
 
   useEffect(() => {
-    // Initialize auth service and check if user is already logged in
-    const initializeAuth = async () => {
-      try {
-        // Wait a bit for Firebase to initialize and default users to be created
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        const user = await authService.getCurrentUser();
-        if (user) {
-          setCurrentUser(user);
-          // Redirect to appropriate dashboard based on role
-          const defaultPath = getDefaultPathForUser(user);
-          if (location.pathname === '/' || location.pathname === '/login' || location.pathname === '/signup') {
-            navigate(defaultPath);
-          }
-        }
-      } catch (error) {
-        console.error('Error initializing auth:', error);
-      }
-    };
+    // Firebase Auth restores the session; role and permissions come from verified token claims
+    const unsubscribe = authService.onAuthStateChanged((user) => {
+      setCurrentUser(user);
+      setAuthReady(true);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    // Redirect signed-in users away from the public pages to their dashboard
+    if (currentUser && (location.pathname === '/' || location.pathname === '/login' || location.pathname === '/signup')) {
+      navigate(getDefaultPathForUser(currentUser));
+    }
+  }, [currentUser, location.pathname, navigate]);
 
-    initializeAuth();
-  }, [location.pathname, navigate]);
+  // Emergency sessions are shared through Firestore so every signed-in terminal sees them
+  useEffect(() => {
+    if (!currentUser) {
+      setEmergencySession(null);
+      return;
+    }
 
+    return emergencyService.subscribeToActiveSession(setEmergencySession);
+  }, [currentUser]);
+
+  // The rules refuse the listener before sign-in, so it is started again for each session
   useEffect(() => {
-    const unsubscribe = visitorService.subscribeToActiveVisitors((visitors) => {
+    if (!currentUser) {
+      setActiveVisitorCount(0);
+      return;
+    }
+
+    return visitorService.subscribeToActiveVisitors((visitors) => {
       setActiveVisitorCount(visitors.length);
     });
+  }, [currentUser]);
 
-    return () => unsubscribe();
-  }, []);
+  useEffect(() => {
+    if (!currentUser) {
+      setOccupancy(null);
+      return;
+    }
+
+    return occupancyService.subscribe(setOccupancy);
+  }, [currentUser]);
+
+  // Check-ins and check-outs taken while the lobby was offline are sent by whoever is signed in when it reconnects
+  useEffect(() => {
+    if (!currentUser) {
+      setOutbox(null);
+      return;
+    }
+
+    const stopSync = outboxService.startSync();
+    const unsubscribe = outboxService.subscribe(setOutbox);
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, [currentUser]);
 
   // Automated Backup Logic
   useEffect(() => {
@@ -136,17 +179,17 @@ function AppContent() {
   };
 
   const handleEmergencyToggle = () => {
-    setEmergencyMode(!emergencyMode);
+    if (emergencySession) {
+      navigate('/emergency');
+    } else {
+      setShowStartEmergency(true);
+    }
   };
 
-  const handleEmergencyEvacuation = async (visitorIds: string[]) => {
-    try {
-      await visitorService.emergencyEvacuation(visitorIds);
-      alert(`Emergency evacuation completed for ${visitorIds.length} visitors.`);
-    } catch (error) {
-      console.error('Emergency evacuation failed:', error);
-      alert('Emergency evacuation failed. Please try again.');
-    }
+  const handleStartEmergency = async (type: EmergencyType, description: string) => {
+    await emergencyService.startSession(type, description, currentUser!);
+    setShowStartEmergency(false);
+    navigate('/emergency');
   };
 
   const handleCheckInComplete = () => {
@@ -169,6 +212,14 @@ function AppContent() {
 
   // Protected Route Component
   const ProtectedRoute = ({ children, requiredRole }: { children: React.ReactNode; requiredRole?: string }) => {
+    if (!authReady) {
+      return (
+        <div className="flex justify-center items-center min-h-screen">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
     if (!currentUser) {
       return <Navigate to="/login" replace />;
     }
@@ -211,6 +262,8 @@ function AppContent() {
           emergencyMode={emergencyMode}
           onEmergencyToggle={handleEmergencyToggle}
           activeVisitorCount={activeVisitorCount}
+          occupancy={occupancy?.facility}
+          outbox={outbox}
           currentUser={currentUser!}
           onLogout={handleLogout}
         />
@@ -236,6 +289,8 @@ function AppContent() {
           emergencyMode={emergencyMode}
           onEmergencyToggle={handleEmergencyToggle}
           activeVisitorCount={activeVisitorCount}
+          occupancy={occupancy?.facility}
+          outbox={outbox}
           currentUser={currentUser!}
           onLogout={handleLogout}
         />
@@ -247,6 +302,45 @@ function AppContent() {
     </ProtectedRoute>
   );
 
+  // Rendered as an element rather than a nested component so roll-call state survives live updates
+  const renderEmergencyPage = () => {
+    if (!authReady) {
+      return (
+        <div className="flex justify-center items-center min-h-screen">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    if (!currentUser) {
+      return <Navigate to="/login" replace />;
+    }
+
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header
+          currentView="emergency"
+          onViewChange={() => { }}
+          emergencyMode={emergencyMode}
+          onEmergencyToggle={handleEmergencyToggle}
+          activeVisitorCount={activeVisitorCount}
+          occupancy={occupancy?.facility}
+          outbox={outbox}
+          currentUser={currentUser}
+          onLogout={handleLogout}
+        />
+
+        <main className="py-6">
+          <EmergencyRollCall
+            session={emergencySession}
+            currentUser={currentUser}
+            onClose={() => navigate(getDefaultPathForUser(currentUser))}
+          />
+        </main>
+      </div>
+    );
+  };
+
   // Visitor Check-in Page Component
   const VisitorCheckInPage = () => {
     if (checkInMode === 'check-in') {
@@ -258,6 +352,8 @@ function AppContent() {
             emergencyMode={emergencyMode}
             onEmergencyToggle={handleEmergencyToggle}
             activeVisitorCount={activeVisitorCount}
+            occupancy={occupancy?.facility}
+            outbox={outbox}
             currentUser={currentUser}
             onLogout={handleLogout}
           />
@@ -281,6 +377,8 @@ function AppContent() {
             emergencyMode={emergencyMode}
             onEmergencyToggle={handleEmergencyToggle}
             activeVisitorCount={activeVisitorCount}
+            occupancy={occupancy?.facility}
+            outbox={outbox}
             currentUser={currentUser}
             onLogout={handleLogout}
           />
@@ -300,6 +398,8 @@ function AppContent() {
           emergencyMode={emergencyMode}
           onEmergencyToggle={handleEmergencyToggle}
           activeVisitorCount={activeVisitorCount}
+          occupancy={occupancy?.facility}
+          outbox={outbox}
           currentUser={currentUser}
           onLogout={handleLogout}
         />
@@ -370,6 +470,12 @@ function AppContent() {
                       <p className="text-sm text-gray-500">
                         Authorized personnel only • Secure system access
                       </p>
+                      <button
+                        onClick={() => navigate('/pre-register')}
+                        className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        Visiting soon? Pre-register and skip the queue
+                      </button>
                     </div>
                   </div>
                 </div>
@@ -388,11 +494,21 @@ function AppContent() {
         <Route path="/" element={<VisitorCheckInPage />} />
         <Route path="/login" element={<LoginPage />} />
         <Route path="/signup" element={<SignupPage />} />
+        <Route path="/pre-register" element={<PreRegistrationPortal onBack={() => navigate('/')} />} />
+        <Route path="/pre-register/pass" element={<PreRegistrationPass />} />
         <Route path="/admin" element={<AdminPage />} />
         <Route path="/front-desk" element={<FrontDeskPage />} />
         <Route path="/hierarchy" element={<HierarchyPage />} />
+        <Route path="/emergency" element={renderEmergencyPage()} />
       </Routes>
 
+      {showStartEmergency && (
+        <StartEmergencyModal
+          onClose={() => setShowStartEmergency(false)}
+          onStart={handleStartEmergency}
+        />
+      )}
+
       {/* Emergency Mode Overlay */}
       {emergencyMode && (
         <div className="fixed inset-0 bg-red-600 bg-opacity-10 pointer-events-none z-40">
@@ -1,11 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { Users, Settings, Shield, UserPlus, Edit, Trash2, Eye, LogOut, Printer } from 'lucide-react';
+import { Users, Settings, Shield, UserPlus, Edit, Trash2, Eye, LogOut, Printer, UserCheck } from 'lucide-react';
 import { User, UserRole } from '../../types';
 import { authService } from '../../services/authService';
 import { CreateUserModal } from './CreateUserModal';
 import { EditUserModal } from './EditUserModal';
 import { printService, PrintData } from '../../services/printService';
 import { BackupSettings } from './BackupSettings';
+import { ResidentManagement } from './ResidentManagement';
+import { WatchlistManagement } from './WatchlistManagement';
+import { DuplicateVisitorFinder } from './DuplicateVisitorFinder';
+import { RoleTemplateManager } from './RoleTemplateManager';
+import { BadgeNumberingSettings } from './BadgeNumberingSettings';
+import { OccupancyLimitsSettings } from './OccupancyLimitsSettings';
+import { VisitDurationSettings } from './VisitDurationSettings';
+import { DataRetentionSettings } from './DataRetentionSettings';
+import { LegalHoldManagement } from './LegalHoldManagement';
+import { SubjectAccessRequests } from './SubjectAccessRequests';
+import { InvitationManager } from './InvitationManager';
+import { AuditLogViewer } from './AuditLogViewer';
+import { usePermission } from '../../hooks/usePermission';
 
 interface AdminDashboardProps {
   currentUser: User;
@@ -55,6 +68,15 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ currentUser, onL
     }
   };
 
+  const handleApproveUser = async (user: User) => {
+    try {
+      await authService.approveUser(user.id, user.requestedRole || 'front-desk', currentUser.id);
+      loadUsers();
+    } catch (err: any) {
+      setError(err.message || 'Failed to approve user');
+    }
+  };
+
   const handleDeleteUser = async (userId: string) => {
     if (!confirm('Are you sure you want to delete this user?')) return;
 
@@ -81,7 +103,13 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ currentUser, onL
     }
   };
 
-  const canManageUsers = authService.canManageUsers(currentUser);
+  const canManageUsers = usePermission('manage_users');
+  const canManageRoles = usePermission('manage_roles');
+  const canManageBackups = usePermission('manage_backups');
+  const canViewAuditLogs = usePermission('view_audit_logs');
+  const canManageVisitors = usePermission('manage_visitors');
+  const canManageWatchlist = usePermission('manage_watchlist');
+  const canManageRetention = usePermission('manage_data_retention');
 
   const printUserList = async () => {
     try {
@@ -187,7 +215,36 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ currentUser, onL
         )}
 
         {/* Backup Settings */}
-        <BackupSettings />
+        {canManageBackups && <BackupSettings />}
+
+        {/* Data Retention */}
+        {canManageRetention && <DataRetentionSettings currentUser={currentUser} />}
+        {canManageRetention && <LegalHoldManagement currentUser={currentUser} />}
+        {canManageRetention && <SubjectAccessRequests />}
+
+        {/* Resident Registry */}
+        <ResidentManagement />
+
+        {/* Watchlist */}
+        {canManageWatchlist && <WatchlistManagement currentUser={currentUser} />}
+
+        {/* Duplicate Visitors */}
+        {canManageVisitors && <DuplicateVisitorFinder />}
+
+        {/* Badge Numbering */}
+        {canManageVisitors && <BadgeNumberingSettings currentUser={currentUser} />}
+
+        {/* Occupancy Limits */}
+        {canManageVisitors && <OccupancyLimitsSettings currentUser={currentUser} />}
+
+        {/* Visit Lengths */}
+        {canManageVisitors && <VisitDurationSettings currentUser={currentUser} />}
+
+        {/* Role Permissions */}
+        {canManageRoles && <RoleTemplateManager currentUser={currentUser} />}
+
+        {/* Invitations */}
+        {canManageUsers && <InvitationManager currentUser={currentUser} />}
 
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -344,15 +401,24 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ currentUser, onL
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getRoleBadgeColor(user.role)}`}>
                           {user.role.replace('-', ' ')}
                         </span>
+                        {user.pendingApproval && user.requestedRole && (
+                          <div className="mt-1 text-xs text-gray-500">Requested {user.requestedRole.replace('-', ' ')}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {user.department || '-'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${user.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                          }`}>
-                          {user.isActive ? 'Active' : 'Inactive'}
-                        </span>
+                        {!user.isActive && user.pendingApproval ? (
+                          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                            Awaiting Approval
+                          </span>
+                        ) : (
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${user.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                            }`}>
+                            {user.isActive ? 'Active' : 'Inactive'}
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {user.lastLogin ? new Date(user.lastLogin).toLocaleDateString() : 'Never'}
@@ -360,6 +426,15 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ currentUser, onL
                       {canManageUsers && (
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <div className="flex space-x-2">
+                            {!user.isActive && user.pendingApproval && (
+                              <button
+                                onClick={() => handleApproveUser(user)}
+                                className="text-green-600 hover:text-green-900"
+                                title="Approve"
+                              >
+                                <UserCheck className="w-4 h-4" />
+                              </button>
+                            )}
                             <button
                               onClick={() => setEditingUser(user)}
                               className="text-blue-600 hover:text-blue-900"
@@ -384,6 +459,13 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ currentUser, onL
             </div>
           )}
         </div>
+
+        {/* Audit Log */}
+        {canViewAuditLogs && (
+          <div className="mt-8">
+            <AuditLogViewer />
+          </div>
+        )}
       </div>
 
       {/* Modals */}
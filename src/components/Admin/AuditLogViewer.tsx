@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { ScrollText, Download, FileSpreadsheet, ShieldCheck, ShieldAlert, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { AuditChainVerification, AuditLog, User } from '../../types';
+import { visitorService } from '../../services/visitorService';
+import { authService } from '../../services/authService';
+import { auditService } from '../../services/auditService';
+
+const PAGE_SIZE = 100;
+
+const formatAction = (action: string) =>
+  action.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export const AuditLogViewer: React.FC = () => {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState({ action: '', userId: '', visitor: '', start: '', end: '' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    loadLogs();
+  }, []);
+
+  const loadLogs = async () => {
+    setIsLoading(true);
+    setVerification(null);
+    const [allLogs, allUsers] = await Promise.all([
+      visitorService.getAllAuditLogs(),
+      authService.getAllUsers().catch(() => [] as User[])
+    ]);
+    setLogs(allLogs);
+    setUsers(allUsers);
+    setIsLoading(false);
+  };
+
+  const userNames = useMemo(
+    () => new Map(users.map(u => [u.id, `${u.firstName} ${u.lastName}`])),
+    [users]
+  );
+  const getUserName = (userId?: string) => (userId && userNames.get(userId)) || userId || '';
+
+  const actions = useMemo(() => Array.from(new Set(logs.map(log => log.action))).sort(), [logs]);
+
+  const filteredLogs = useMemo(() => {
+    const visitorTerm = filters.visitor.trim().toLowerCase();
+    const from = filters.start ? startOfDay(new Date(`${filters.start}T00:00`)) : null;
+    const to = filters.end ? endOfDay(new Date(`${filters.end}T00:00`)) : null;
+
+    return logs.filter(log => {
+      if (filters.action && log.action !== filters.action) return false;
+      if (filters.userId && log.userId !== filters.userId) return false;
+      if (from && (!log.timestamp || log.timestamp < from)) return false;
+      if (to && (!log.timestamp || log.timestamp > to)) return false;
+      if (visitorTerm) {
+        const visitorName = String(log.details?.visitorName || '').toLowerCase();
+        if (!log.visitorId?.toLowerCase().includes(visitorTerm) && !visitorName.includes(visitorTerm)) return false;
+      }
+      return true;
+    });
+  }, [logs, filters]);
+
+  const handleFilterChange = (field: keyof typeof filters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setVerification(await auditService.verifyChain(logs));
+    setIsVerifying(false);
+  };
+
+  const toExportRows = () => filteredLogs.map(log => ({
+    'Sequence': log.sequence ?? '',
+    'Timestamp': log.timestamp ? format(log.timestamp, 'yyyy-MM-dd HH:mm:ss') : '',
+    'Action': log.action,
+    'User ID': log.userId || '',
+    'User': getUserName(log.userId),
+    'Visitor ID': log.visitorId || '',
+    'Target User': getUserName(log.targetUserId),
+    'IP Address': log.ipAddress || '',
+    'Before': formatValue(log.before),
+    'After': formatValue(log.after),
+    'Details': formatValue(log.details),
+    'Hash': log.hash || ''
+  }));
+
+  const exportFilename = () => `audit-log-${format(new Date(), 'yyyy-MM-dd_HHmm')}`;
+
+  const downloadCSV = () => {
+    const rows = toExportRows();
+    if (rows.length === 0) return;
+
+    const headers = Object.keys(rows[0]);
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => headers.map(h => `"${String(row[h as keyof typeof row]).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${exportFilename()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadXLSX = async () => {
+    const rows = toExportRows();
+    if (rows.length === 0) return;
+
+    // Lazy load XLSX
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Audit Logs');
+    XLSX.writeFile(workbook, `${exportFilename()}.xlsx`);
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <ScrollText className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Audit Log</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">
+              {filteredLogs.length} of {logs.length} entries
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={loadLogs}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleVerify}
+            disabled={isVerifying || logs.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {isVerifying ? 'Verifying...' : 'Verify Integrity'}
+          </button>
+          <button
+            onClick={downloadCSV}
+            disabled={filteredLogs.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={downloadXLSX}
+            disabled={filteredLogs.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {verification && (
+        <div className={`mx-4 mb-4 border rounded-md p-3 flex items-start ${verification.valid ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+          {verification.valid ? <ShieldCheck className="w-5 h-5 mr-2 flex-shrink-0" /> : <ShieldAlert className="w-5 h-5 mr-2 flex-shrink-0" />}
+          <div className="text-sm">
+            {verification.valid
+              ? `Chain intact: ${verification.checked} entries verified.`
+              : `Chain broken: ${verification.reason}.`}
+            {verification.unchained > 0 && ` ${verification.unchained} older entries predate hash chaining and were not checked.`}
+          </div>
+        </div>
+      )}
+
+      <div className="px-4 pb-5 sm:px-6 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <select value={filters.action} onChange={(e) => handleFilterChange('action', e.target.value)} className={inputClass}>
+          <option value="">All actions</option>
+          {actions.map(action => (
+            <option key={action} value={action}>{formatAction(action)}</option>
+          ))}
+        </select>
+        <select value={filters.userId} onChange={(e) => handleFilterChange('userId', e.target.value)} className={inputClass}>
+          <option value="">All users</option>
+          {users.map(user => (
+            <option key={user.id} value={user.id}>{user.firstName} {user.lastName}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.visitor}
+          onChange={(e) => handleFilterChange('visitor', e.target.value)}
+          placeholder="Visitor name or ID"
+          className={inputClass}
+        />
+        <input type="date" value={filters.start} onChange={(e) => handleFilterChange('start', e.target.value)} className={inputClass} />
+        <input type="date" value={filters.end} onChange={(e) => handleFilterChange('end', e.target.value)} className={inputClass} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : filteredLogs.length === 0 ? (
+        <div className="text-center py-10 text-sm text-gray-500">
+          {logs.length === 0 ? 'No audit entries recorded yet.' : 'No entries match your filters.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3"></th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Subject
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  IP Address
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredLogs.slice(0, visibleCount).map(log => (
+                <React.Fragment key={log.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="pl-6 py-4 text-gray-400">
+                      {expandedId === log.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {log.timestamp ? format(log.timestamp, 'MMM d, yyyy HH:mm:ss') : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatAction(log.action)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {getUserName(log.userId) || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {log.details?.visitorName || log.visitorId || getUserName(log.targetUserId) || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {log.ipAddress || '-'}
+                    </td>
+                  </tr>
+                  {expandedId === log.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={6} className="px-6 py-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+                          {(['before', 'after', 'details'] as const).map(field => (
+                            <div key={field}>
+                              <div className="font-semibold text-gray-600 uppercase mb-1">{field}</div>
+                              <pre className="bg-white border border-gray-200 rounded p-2 whitespace-pre-wrap break-all text-gray-800">
+                                {log[field] ? JSON.stringify(log[field], null, 2) : '—'}
+                              </pre>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="mt-3 text-xs text-gray-500 space-y-1 font-mono break-all">
+                          {log.visitorId && <div>Visitor: {log.visitorId}</div>}
+                          {log.targetUserId && <div>Target user: {log.targetUserId}</div>}
+                          {log.sequence !== undefined && <div>Sequence: {log.sequence}</div>}
+                          {log.hash && <div>Hash: {log.hash}</div>}
+                          {log.previousHash && <div>Previous: {log.previousHash}</div>}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+          {filteredLogs.length > visibleCount && (
+            <div className="py-4 text-center">
+              <button
+                onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                Show more ({filteredLogs.length - visibleCount} remaining)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
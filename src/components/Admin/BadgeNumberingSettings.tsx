@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Hash, Save } from 'lucide-react';
+import { BadgeNumberingSettings as NumberingSettings, NumberingScheme, User, Visitor } from '../../types';
+import { badgeNumberService, formatNumber, DEFAULT_BADGE_NUMBERING } from '../../services/badgeNumberService';
+import { usePermission } from '../../hooks/usePermission';
+
+interface BadgeNumberingSettingsProps {
+  currentUser: User;
+}
+
+const ACCESS_LEVELS: { value: Visitor['accessLevel']; label: string }[] = [
+  { value: 'family', label: 'Family Member' },
+  { value: 'friend', label: 'Friend' },
+  { value: 'professional', label: 'Healthcare Professional' },
+  { value: 'volunteer', label: 'Volunteer' },
+  { value: 'contractor', label: 'Contractor/Service' },
+];
+
+export const BadgeNumberingSettings: React.FC<BadgeNumberingSettingsProps> = ({ currentUser }) => {
+  const [settings, setSettings] = useState<NumberingSettings>(DEFAULT_BADGE_NUMBERING);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const canManageVisitors = usePermission('manage_visitors');
+
+  useEffect(() => {
+    badgeNumberService.getSettings().then(setSettings);
+  }, []);
+
+  const updateBadgeScheme = (level: Visitor['accessLevel'], changes: Partial<NumberingScheme>) => {
+    setSettings(prev => ({ ...prev, badges: { ...prev.badges, [level]: { ...prev.badges[level], ...changes } } }));
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const updateVisitorIdScheme = (changes: Partial<NumberingSettings['visitorId']>) => {
+    setSettings(prev => ({ ...prev, visitorId: { ...prev.visitorId, ...changes } }));
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await badgeNumberService.saveSettings(settings, currentUser.id);
+      setIsDirty(false);
+      setMessage('Numbering saved. New check-ins use it straight away.');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save badge numbering');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100';
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Hash className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Badge Numbering</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">
+              Format of badge numbers per access level and of new visitor IDs. Numbers held by someone on site are never reissued.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!canManageVisitors || !isDirty || isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Numbers for</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prefix</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Digits</th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Reset Daily</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Example</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {ACCESS_LEVELS.map(({ value, label }) => {
+              const scheme = settings.badges[value];
+              return (
+                <tr key={value}>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900">{label} badges</td>
+                  <td className="px-6 py-3">
+                    <input
+                      type="text"
+                      value={scheme.prefix}
+                      disabled={!canManageVisitors}
+                      onChange={(e) => updateBadgeScheme(value, { prefix: e.target.value })}
+                      className={`${inputClass} w-24`}
+                    />
+                  </td>
+                  <td className="px-6 py-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={scheme.digits}
+                      disabled={!canManageVisitors}
+                      onChange={(e) => updateBadgeScheme(value, { digits: parseInt(e.target.value, 10) || 1 })}
+                      className={`${inputClass} w-20`}
+                    />
+                  </td>
+                  <td className="px-6 py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={scheme.resetDaily}
+                      disabled={!canManageVisitors}
+                      onChange={(e) => updateBadgeScheme(value, { resetDaily: e.target.checked })}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50"
+                    />
+                  </td>
+                  <td className="px-6 py-3 text-sm font-mono text-gray-700">{formatNumber(scheme, 1)}</td>
+                </tr>
+              );
+            })}
+            <tr className="bg-gray-50">
+              <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                Visitor IDs
+                <div className="text-xs font-normal text-gray-500">Kept for life, never reset</div>
+              </td>
+              <td className="px-6 py-3">
+                <input
+                  type="text"
+                  value={settings.visitorId.prefix}
+                  disabled={!canManageVisitors}
+                  onChange={(e) => updateVisitorIdScheme({ prefix: e.target.value })}
+                  className={`${inputClass} w-24`}
+                />
+              </td>
+              <td className="px-6 py-3">
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={settings.visitorId.digits}
+                  disabled={!canManageVisitors}
+                  onChange={(e) => updateVisitorIdScheme({ digits: parseInt(e.target.value, 10) || 1 })}
+                  className={`${inputClass} w-20`}
+                />
+              </td>
+              <td className="px-6 py-3 text-center text-sm text-gray-400">—</td>
+              <td className="px-6 py-3 text-sm font-mono text-gray-700">{formatNumber(settings.visitorId, 1)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
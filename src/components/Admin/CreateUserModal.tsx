@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { X, User, Mail, Shield } from 'lucide-react';
 import { User as UserType, UserRole } from '../../types';
+import { ROLES } from '../../services/permissionService';
 
 interface CreateUserModalProps {
   onClose: () => void;
-  onCreateUser: (userData: Omit<UserType, 'id' | 'createdAt'>) => Promise<void>;
+  onCreateUser: (userData: Omit<UserType, 'id' | 'createdAt' | 'permissions'>) => Promise<void>;
 }
 
 export const CreateUserModal: React.FC<CreateUserModalProps> = ({ onClose, onCreateUser }) => {
@@ -14,29 +15,20 @@ export const CreateUserModal: React.FC<CreateUserModalProps> = ({ onClose, onCre
     firstName: '',
     lastName: '',
     role: 'front-desk' as UserRole,
-    department: '',
-    permissions: [] as string[]
+    department: ''
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const roleOptions = [
-    { value: 'super-admin', label: 'Super Admin', permissions: ['all'] },
-    { value: 'admin', label: 'Admin', permissions: ['manage_users', 'view_reports', 'manage_visitors'] },
-    { value: 'hierarchy-person', label: 'Hierarchy Person', permissions: ['view_reports', 'view_visitors'] },
-    { value: 'front-desk', label: 'Front Desk', permissions: ['check_in_visitors', 'view_visitors'] }
-  ];
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
 
     try {
-      const selectedRole = roleOptions.find(r => r.value === formData.role);
-      const userData: Omit<UserType, 'id' | 'createdAt'> = {
+      // Permissions come from the role template, applied server-side
+      const userData: Omit<UserType, 'id' | 'createdAt' | 'permissions'> = {
         ...formData,
-        permissions: selectedRole?.permissions || [],
         isActive: true
       };
 
@@ -141,7 +133,7 @@ export const CreateUserModal: React.FC<CreateUserModalProps> = ({ onClose, onCre
                 onChange={(e) => handleInputChange('role', e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {roleOptions.map(option => (
+                {ROLES.map(option => (
                   <option key={option.value} value={option.value}>
                     {option.label}
                   </option>
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Archive, Save, Eye, Eraser } from 'lucide-react';
+import { RetentionCategory, RetentionPurgeSummary, RetentionSettings, User } from '../../types';
+import {
+  retentionService,
+  DEFAULT_RETENTION,
+  RETENTION_CATEGORIES,
+  RETENTION_PURGE_TIME,
+} from '../../services/retentionService';
+
+interface DataRetentionSettingsProps {
+  currentUser: User;
+}
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) => `${count} ${count === 1 ? noun : nouns}`;
+
+const describeSummary = (summary: RetentionPurgeSummary): string => {
+  const held = summary.held > 0 ? ` ${summary.held} expired record${summary.held === 1 ? ' is' : 's are'} under legal hold.` : '';
+  const parts = [
+    summary.visits > 0 && plural(summary.visits, 'visit'),
+    summary.profiles > 0 && plural(summary.profiles, 'visitor profile'),
+    summary.preRegistrations > 0 && plural(summary.preRegistrations, 'pre-registration'),
+    summary.appointments > 0 && plural(summary.appointments, 'appointment'),
+    summary.emails > 0 && plural(summary.emails, 'email record'),
+    summary.auditEntries > 0 && plural(summary.auditEntries, 'audit entry', 'audit entries'),
+  ].filter(Boolean);
+  if (parts.length === 0) return `Nothing has expired.${held}`;
+  return `${summary.dryRun ? 'Would remove' : 'Removed'} data from ${parts.join(', ')}.${held}`;
+};
+
+export const DataRetentionSettings: React.FC<DataRetentionSettingsProps> = ({ currentUser }) => {
+  const [settings, setSettings] = useState<RetentionSettings>(DEFAULT_RETENTION);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [summary, setSummary] = useState<RetentionPurgeSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    retentionService.getSettings().then(setSettings);
+  }, []);
+
+  // A blank number keeps the data indefinitely
+  const updatePeriod = (category: RetentionCategory, value: string) => {
+    const days = parseInt(value, 10);
+    setSettings(prev => ({ ...prev, periodDays: { ...prev.periodDays, [category]: days || undefined } }));
+    setIsDirty(true);
+    setMessage(null);
+    setSummary(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await retentionService.saveSettings(settings, currentUser.id);
+      setIsDirty(false);
+      setMessage('Retention policy saved. Preview it before the next nightly purge.');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save retention policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm('Permanently remove all expired visitor data now? This cannot be undone.')) return;
+
+    setIsRunning(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      setSummary(await retentionService.runPurge(dryRun));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to run the retention purge');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Archive className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Data Retention</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">
+              How long visitor data is kept after a visit. Leave a period blank to keep that data indefinitely.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+      {summary && (
+        <div className="mx-4 mb-4 bg-blue-50 border border-blue-200 rounded-md p-3 text-sm text-blue-800">
+          <div>{describeSummary(summary)}</div>
+          {Object.values(summary.byCategory).some(count => count > 0) && (
+            <div className="mt-1 text-blue-700">
+              {RETENTION_CATEGORIES
+                .filter(({ value }) => summary.byCategory[value] > 0)
+                .map(({ value, label }) => `${label}: ${summary.byCategory[value]}`)
+                .join(' · ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keep For (days)</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {RETENTION_CATEGORIES.map(({ value, label, description }) => (
+              <tr key={value}>
+                <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                  {label}
+                  <div className="text-xs font-normal text-gray-500">{description}</div>
+                </td>
+                <td className="px-6 py-3">
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.periodDays[value] ?? ''}
+                    onChange={(e) => updatePeriod(value, e.target.value)}
+                    placeholder="Keep"
+                    className={`${inputClass} w-28`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-4 py-5 sm:px-6 border-t border-gray-200 flex justify-between items-center">
+        <label className="flex items-start text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.autoPurge}
+            onChange={(e) => {
+              setSettings(prev => ({ ...prev, autoPurge: e.target.checked }));
+              setIsDirty(true);
+              setMessage(null);
+            }}
+            className="mt-0.5 mr-2"
+          />
+          <span>
+            <span className="font-medium text-gray-900">Remove expired data every night at {RETENTION_PURGE_TIME}</span>
+            <span className="block text-gray-500">Open visits and data under legal hold are never removed. Each removal is in the audit trail.</span>
+          </span>
+        </label>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => handleRun(true)}
+            disabled={isDirty || isRunning}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            Preview
+          </button>
+          <button
+            onClick={() => handleRun(false)}
+            disabled={isDirty || isRunning}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Eraser className="w-4 h-4 mr-2" />
+            {isRunning ? 'Running...' : 'Purge Now'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Copy, GitMerge, Search } from 'lucide-react';
+import { DuplicateProfileGroup, VisitorProfile } from '../../types';
+import { duplicateVisitorService } from '../../services/duplicateVisitorService';
+import { ProfileMergeModal } from './ProfileMergeModal';
+
+const MATCH_LABELS: Record<DuplicateProfileGroup['matchedOn'][number], string> = {
+  name: 'Same name',
+  'similar-name': 'Similar name',
+  phone: 'Same phone',
+  email: 'Same email',
+};
+
+export const DuplicateVisitorFinder: React.FC = () => {
+  const [groups, setGroups] = useState<DuplicateProfileGroup[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [merging, setMerging] = useState<{ survivor: VisitorProfile; duplicate: VisitorProfile } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reads every visitor profile, so it only runs when asked
+  const scan = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setGroups(await duplicateVisitorService.findDuplicateGroups());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to search for duplicate visitors');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMerged = (visitsMoved: number) => {
+    if (!merging) return;
+    setMessage(`Merged ${merging.duplicate.visitorIdNumber} into ${merging.survivor.visitorIdNumber} · ${visitsMoved} visit${visitsMoved !== 1 ? 's' : ''} moved`);
+    setMerging(null);
+    scan();
+  };
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Copy className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Duplicate Visitors</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">Profiles that look like the same person, matched on name, phone and email</p>
+          </div>
+        </div>
+        <button
+          onClick={scan}
+          disabled={isLoading}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          <Search className="w-4 h-4 mr-2" />
+          {groups ? 'Search Again' : 'Find Duplicates'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {message && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : groups && groups.length === 0 ? (
+        <div className="text-center py-10 text-sm text-gray-500">No likely duplicates found.</div>
+      ) : groups && (
+        <ul className="divide-y divide-gray-200">
+          {groups.map(group => (
+            <li key={group.profiles.map(profile => profile.id).join('_')} className="px-4 py-4 sm:px-6">
+              <div className="flex flex-wrap gap-2 mb-3">
+                {group.matchedOn.map(reason => (
+                  <span key={reason} className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                    {MATCH_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <div className="space-y-2">
+                {group.profiles.map((profile, index) => (
+                  <div key={profile.id} className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      {profile.photoUrl ? (
+                        <img src={profile.photoUrl} alt="" className="w-10 h-10 object-cover rounded-full mr-3" />
+                      ) : (
+                        <div className="w-10 h-10 rounded-full bg-gray-200 mr-3" />
+                      )}
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {profile.firstName} {profile.lastName}
+                          <span className="ml-2 text-gray-500 font-normal">{profile.visitorIdNumber}</span>
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {[profile.phone, profile.email].filter(Boolean).join(' · ')}
+                          {profile.lastVisitAt && ` · Last visit ${format(profile.lastVisitAt, 'PP')}`}
+                        </div>
+                      </div>
+                    </div>
+                    {index > 0 && (
+                      <button
+                        onClick={() => setMerging({ survivor: group.profiles[0], duplicate: profile })}
+                        className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-900"
+                      >
+                        <GitMerge className="w-4 h-4 mr-1" />
+                        Review &amp; Merge
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {merging && (
+        <ProfileMergeModal
+          first={merging.survivor}
+          second={merging.duplicate}
+          onClose={() => setMerging(null)}
+          onMerged={handleMerged}
+        />
+      )}
+    </div>
+  );
+};
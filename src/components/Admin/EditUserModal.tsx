@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { X, User, Mail, Shield } from 'lucide-react';
-import { User as UserType, UserRole } from '../../types';
+import { User as UserType, Permission, PermissionOverrides } from '../../types';
+import { PERMISSIONS, ROLES } from '../../services/permissionService';
+import { usePermission } from '../../hooks/usePermission';
+
+type OverrideState = 'inherit' | 'grant' | 'revoke';
 
 interface EditUserModalProps {
   user: UserType;
@@ -18,15 +22,30 @@ export const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onU
     department: user.department || '',
     isActive: user.isActive
   });
+  const [overrides, setOverrides] = useState<PermissionOverrides>({
+    granted: user.permissionOverrides?.granted || [],
+    revoked: user.permissionOverrides?.revoked || []
+  });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const canManageRoles = usePermission('manage_roles');
+
+  const getOverrideState = (permission: Permission): OverrideState => {
+    if (overrides.granted.includes(permission)) return 'grant';
+    if (overrides.revoked.includes(permission)) return 'revoke';
+    return 'inherit';
+  };
 
-  const roleOptions = [
-    { value: 'super-admin', label: 'Super Admin' },
-    { value: 'admin', label: 'Admin' },
-    { value: 'hierarchy-person', label: 'Hierarchy Person' },
-    { value: 'front-desk', label: 'Front Desk' }
-  ];
+  const setOverrideState = (permission: Permission, state: OverrideState) => {
+    setOverrides(prev => ({
+      granted: state === 'grant'
+        ? [...prev.granted.filter(p => p !== permission), permission]
+        : prev.granted.filter(p => p !== permission),
+      revoked: state === 'revoke'
+        ? [...prev.revoked.filter(p => p !== permission), permission]
+        : prev.revoked.filter(p => p !== permission)
+    }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,7 +60,8 @@ export const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onU
         lastName: formData.lastName,
         role: formData.role,
         department: formData.department || undefined,
-        isActive: formData.isActive
+        isActive: formData.isActive,
+        ...(canManageRoles ? { permissionOverrides: overrides } : {})
       };
 
       await onUpdateUser(user.id, updates);
@@ -145,7 +165,7 @@ export const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onU
                 onChange={(e) => handleInputChange('role', e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {roleOptions.map(option => (
+                {ROLES.map(option => (
                   <option key={option.value} value={option.value}>
                     {option.label}
                   </option>
@@ -168,6 +188,30 @@ export const EditUserModal: React.FC<EditUserModalProps> = ({ user, onClose, onU
               </div>
             )}
 
+            {canManageRoles && formData.role !== 'super-admin' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Permission Overrides
+                </label>
+                <div className="border border-gray-200 rounded-md divide-y divide-gray-100 max-h-56 overflow-y-auto">
+                  {PERMISSIONS.map(permission => (
+                    <div key={permission.key} className="flex items-center justify-between px-3 py-2">
+                      <span className="text-sm text-gray-700">{permission.label}</span>
+                      <select
+                        value={getOverrideState(permission.key)}
+                        onChange={(e) => setOverrideState(permission.key, e.target.value as OverrideState)}
+                        className="text-xs px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="inherit">From role</option>
+                        <option value="grant">Grant</option>
+                        <option value="revoke">Revoke</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="flex items-center">
                 <input
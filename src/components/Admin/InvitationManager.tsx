@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { Ticket, Send, Copy, Ban } from 'lucide-react';
+import { Invitation, InvitationStatus, User, UserRole } from '../../types';
+import { invitationService } from '../../services/invitationService';
+import { ROLES } from '../../services/permissionService';
+
+interface InvitationManagerProps {
+  currentUser: User;
+}
+
+const statusStyles: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800'
+};
+
+export const InvitationManager: React.FC<InvitationManagerProps> = ({ currentUser }) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState({ email: '', role: 'front-desk' as UserRole, expiresInDays: 7 });
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Only super admins may hand out super-admin accounts
+  const roleOptions = ROLES.filter(r => r.value !== 'super-admin' || currentUser.role === 'super-admin');
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  const loadInvitations = async () => {
+    setIsLoading(true);
+    setInvitations(await invitationService.getAllInvitations());
+    setIsLoading(false);
+  };
+
+  const copyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(invitationService.getSignupLink(code));
+      setMessage('Signup link copied to clipboard.');
+    } catch {
+      setMessage(`Signup link: ${invitationService.getSignupLink(code)}`);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const invitation = await invitationService.createInvitation(formData, currentUser.id);
+      setFormData(prev => ({ ...prev, email: '' }));
+      await copyLink(invitation.id);
+      loadInvitations();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to create invitation');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    try {
+      await invitationService.revokeInvitation(invitation, currentUser.id);
+      loadInvitations();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex items-center">
+        <Ticket className="w-6 h-6 text-blue-600 mr-2" />
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Invitations</h3>
+          <p className="mt-1 max-w-2xl text-sm text-gray-500">Signup codes bound to an email address and role</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleCreate} className="px-4 pb-5 sm:px-6 grid grid-cols-1 md:grid-cols-4 gap-3">
+        <input
+          type="email"
+          required
+          value={formData.email}
+          onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+          placeholder="Invitee email"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={formData.role}
+          onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as UserRole }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {roleOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={formData.expiresInDays}
+          onChange={(e) => setFormData(prev => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={1}>Expires in 1 day</option>
+          <option value={3}>Expires in 3 days</option>
+          <option value={7}>Expires in 7 days</option>
+          <option value={14}>Expires in 14 days</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isSending || !formData.email}
+          className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {isSending ? 'Creating...' : 'Create Invitation'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700 break-all">{message}</div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : invitations.length === 0 ? (
+        <div className="text-center py-10 text-sm text-gray-500">No invitations issued yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expires
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {invitations.map((invitation) => {
+                const status = invitationService.getStatus(invitation);
+                return (
+                  <tr key={invitation.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{invitation.email}</div>
+                      <div className="text-xs text-gray-500 font-mono">{invitation.id}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {ROLES.find(r => r.value === invitation.role)?.label || invitation.role}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${statusStyles[status]}`}>
+                        {status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {invitation.expiresAt.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {status === 'pending' && (
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => copyLink(invitation.id)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Copy signup link"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleRevoke(invitation)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Revoke"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Scale, Plus } from 'lucide-react';
+import { LegalHold, LegalHoldInput, User } from '../../types';
+import { retentionService } from '../../services/retentionService';
+import { LegalHoldModal } from './LegalHoldModal';
+
+interface LegalHoldManagementProps {
+  currentUser: User;
+}
+
+const describeRange = (hold: LegalHold): string => {
+  if (hold.from && hold.to) return `${format(hold.from, 'PP')} – ${format(hold.to, 'PP')}`;
+  if (hold.from) return `From ${format(hold.from, 'PP')}`;
+  if (hold.to) return `Until ${format(hold.to, 'PP')}`;
+  return 'All visits';
+};
+
+export const LegalHoldManagement: React.FC<LegalHoldManagementProps> = ({ currentUser }) => {
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHolds();
+  }, []);
+
+  const loadHolds = async () => {
+    setIsLoading(true);
+    setHolds(await retentionService.getAllHolds());
+    setIsLoading(false);
+  };
+
+  const handleSave = async (hold: LegalHoldInput) => {
+    await retentionService.placeHold(hold, currentUser.id);
+    setShowModal(false);
+    loadHolds();
+  };
+
+  const handleRelease = async (hold: LegalHold) => {
+    if (!confirm(`Release the hold "${hold.reason}"? The data it covers becomes subject to the retention policy again.`)) return;
+
+    try {
+      await retentionService.releaseHold(hold, currentUser.id);
+      loadHolds();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to release legal hold');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Scale className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Legal Holds</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">Visitor data kept past its retention period while a hold is in place</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Place Hold
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : holds.length === 0 ? (
+        <div className="text-center py-10 text-sm text-gray-500">No legal holds have been placed.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Visitor
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Visit Dates
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Placed
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {holds.map((hold) => (
+                <tr key={hold.id} className={hold.releasedAt ? 'opacity-50' : ''}>
+                  <td className="px-6 py-4 text-sm text-gray-900">{hold.reason}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{hold.visitorIdNumber || 'Every visitor'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{describeRange(hold)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {hold.createdAt ? format(hold.createdAt, 'PP') : ''}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    {hold.releasedAt ? (
+                      <span className="text-gray-500">Released {format(hold.releasedAt, 'PP')}</span>
+                    ) : (
+                      <button
+                        onClick={() => handleRelease(hold)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Release
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <LegalHoldModal
+          onClose={() => setShowModal(false)}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { X, Scale } from 'lucide-react';
+import { LegalHoldInput } from '../../types';
+
+interface LegalHoldModalProps {
+  onClose: () => void;
+  onSave: (hold: LegalHoldInput) => Promise<void>;
+}
+
+export const LegalHoldModal: React.FC<LegalHoldModalProps> = ({ onClose, onSave }) => {
+  const [formData, setFormData] = useState({
+    visitorIdNumber: '',
+    from: '',
+    to: '',
+    reason: '',
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await onSave({
+        visitorIdNumber: formData.visitorIdNumber.trim() || undefined,
+        from: formData.from ? new Date(`${formData.from}T00:00:00`) : undefined,
+        // Covers the whole of the last day
+        to: formData.to ? new Date(`${formData.to}T23:59:59`) : undefined,
+        reason: formData.reason.trim(),
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to place legal hold');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (error) setError(null);
+  };
+
+  const isFormValid = formData.reason.trim() && (formData.visitorIdNumber.trim() || formData.from || formData.to);
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[32rem] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <Scale className="w-5 h-5 mr-2" />
+              Place Legal Hold
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Name a visitor, a range of visit dates, or both to hold only that visitor's visits in the range.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Visitor ID Number
+              </label>
+              <input
+                type="text"
+                value={formData.visitorIdNumber}
+                onChange={(e) => handleInputChange('visitorIdNumber', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Visits From
+                </label>
+                <input
+                  type="date"
+                  value={formData.from}
+                  onChange={(e) => handleInputChange('from', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Visits To
+                </label>
+                <input
+                  type="date"
+                  value={formData.to}
+                  onChange={(e) => handleInputChange('to', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason *
+              </label>
+              <input
+                type="text"
+                value={formData.reason}
+                onChange={(e) => handleInputChange('reason', e.target.value)}
+                placeholder="e.g. Subpoena 2026-CV-0042"
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div className="flex items-center justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isFormValid || isLoading}
+                className={`px-4 py-2 text-sm font-medium text-white rounded-md ${
+                  !isFormValid || isLoading
+                    ? 'bg-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {isLoading ? 'Saving...' : 'Place Hold'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, Save } from 'lucide-react';
+import { OccupancyLimit, OccupancySettings, User } from '../../types';
+import { occupancyService, DEFAULT_OCCUPANCY } from '../../services/occupancyService';
+import { residentService } from '../../services/residentService';
+import { usePermission } from '../../hooks/usePermission';
+
+interface OccupancyLimitsSettingsProps {
+  currentUser: User;
+}
+
+// Building rows name their building; the other rows are the whole facility and every room
+type LimitScope = 'facility' | 'room' | { building: string };
+type LimitChanges = { max?: string; enforcement?: OccupancyLimit['enforcement'] };
+
+const ENFORCEMENTS: { value: OccupancyLimit['enforcement']; label: string }[] = [
+  { value: 'warn', label: 'Warn the desk' },
+  { value: 'override', label: 'Require supervisor' },
+  { value: 'block', label: 'Block check-in' },
+];
+
+export const OccupancyLimitsSettings: React.FC<OccupancyLimitsSettingsProps> = ({ currentUser }) => {
+  const [settings, setSettings] = useState<OccupancySettings>(DEFAULT_OCCUPANCY);
+  const [buildings, setBuildings] = useState<string[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const canManageVisitors = usePermission('manage_visitors');
+
+  useEffect(() => {
+    Promise.all([occupancyService.getSettings(), residentService.getAllResidents()]).then(([loaded, residents]) => {
+      setSettings(loaded);
+      const names = residents.map(resident => resident.building).filter(Boolean);
+      setBuildings(Array.from(new Set([...names, ...Object.keys(loaded.buildings)])).sort());
+    });
+  }, []);
+
+  // A blank number removes the limit
+  const changeLimit = (current: OccupancyLimit | undefined, changes: LimitChanges) => {
+    const max = changes.max !== undefined ? parseInt(changes.max, 10) : current?.max;
+    if (!max) return undefined;
+    return { max, enforcement: changes.enforcement || current?.enforcement || 'warn' };
+  };
+
+  const update = (scope: LimitScope, changes: LimitChanges) => {
+    setSettings(prev => {
+      if (typeof scope === 'string') {
+        return { ...prev, [scope]: changeLimit(prev[scope], changes) };
+      }
+      const { building } = scope;
+      const limit = changeLimit(prev.buildings[building], changes);
+      const others = Object.fromEntries(Object.entries(prev.buildings).filter(([name]) => name !== building));
+      return { ...prev, buildings: limit ? { ...others, [building]: limit } : others };
+    });
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await occupancyService.saveSettings(settings, currentUser.id);
+      setIsDirty(false);
+      setMessage('Limits saved. Check-ins use them straight away.');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save occupancy limits');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100';
+
+  const rows: { scope: LimitScope; label: string; hint?: string; limit?: OccupancyLimit }[] = [
+    { scope: 'facility', label: 'Whole facility', limit: settings.facility },
+    ...buildings.map(building => ({ scope: { building }, label: `Building ${building}`, limit: settings.buildings[building] })),
+    { scope: 'room', label: 'Each resident room', hint: 'A resident\'s own maximum replaces this number', limit: settings.room },
+  ];
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Building2 className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Occupancy Limits</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">
+              How many people may be on site at once, counting family members. Leave a limit blank for no maximum.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!canManageVisitors || !isDirty || isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Limit for</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Maximum People</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When Reached</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map(({ scope, label, hint, limit }) => (
+              <tr key={typeof scope === 'string' ? scope : `building-${scope.building}`}>
+                <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                  {label}
+                  {hint && <div className="text-xs font-normal text-gray-500">{hint}</div>}
+                </td>
+                <td className="px-6 py-3">
+                  <input
+                    type="number"
+                    min={1}
+                    value={limit?.max ?? ''}
+                    disabled={!canManageVisitors}
+                    onChange={(e) => update(scope, { max: e.target.value })}
+                    placeholder="No limit"
+                    className={`${inputClass} w-28`}
+                  />
+                </td>
+                <td className="px-6 py-3">
+                  <select
+                    value={limit?.enforcement || 'warn'}
+                    disabled={!canManageVisitors || !limit}
+                    onChange={(e) => update(scope, { enforcement: e.target.value as OccupancyLimit['enforcement'] })}
+                    className={inputClass}
+                  >
+                    {ENFORCEMENTS.map(({ value, label: enforcementLabel }) => (
+                      <option key={value} value={value}>{enforcementLabel}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { X, GitMerge } from 'lucide-react';
+import { VisitorProfile, VisitorProfileUpdate } from '../../types';
+import { duplicateVisitorService } from '../../services/duplicateVisitorService';
+
+interface ProfileMergeModalProps {
+  first: VisitorProfile;
+  second: VisitorProfile;
+  onClose: () => void;
+  onMerged: (visitsMoved: number) => void;
+}
+
+type Side = 'first' | 'second';
+
+const FIELDS: { key: keyof VisitorProfileUpdate; label: string }[] = [
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'photoUrl', label: 'Photo' },
+  { key: 'emergencyContact', label: 'Emergency Contact' },
+  { key: 'emergencyPhone', label: 'Emergency Phone' },
+];
+
+export const ProfileMergeModal: React.FC<ProfileMergeModalProps> = ({ first, second, onClose, onMerged }) => {
+  const profiles: Record<Side, VisitorProfile> = { first, second };
+  const [keepId, setKeepId] = useState<Side>('first');
+  // Each field starts on whichever side has a value, preferring the more recent visitor
+  const [choices, setChoices] = useState<Record<string, Side>>(() =>
+    Object.fromEntries(FIELDS.map(({ key }) => [key, first[key] ? 'first' : second[key] ? 'second' : 'first']))
+  );
+  const [visitCounts, setVisitCounts] = useState<Record<Side, number | null>>({ first: null, second: null });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([duplicateVisitorService.countVisits(first.id), duplicateVisitorService.countVisits(second.id)])
+      .then(([firstCount, secondCount]) => setVisitCounts({ first: firstCount, second: secondCount }));
+  }, [first.id, second.id]);
+
+  const handleMerge = async () => {
+    const survivor = profiles[keepId];
+    const duplicate = profiles[keepId === 'first' ? 'second' : 'first'];
+    if (!confirm(`Merge ${duplicate.visitorIdNumber} into ${survivor.visitorIdNumber}? Its visits move to ${survivor.visitorIdNumber}.`)) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const fields: VisitorProfileUpdate = Object.fromEntries(
+        FIELDS.map(({ key }) => [key, profiles[choices[key]][key] || ''])
+      );
+      const result = await duplicateVisitorService.mergeProfiles(survivor.id, duplicate.id, fields);
+      onMerged(result.visitsMoved);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to merge visitor profiles');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderValue = (profile: VisitorProfile, key: keyof VisitorProfileUpdate) => {
+    if (key === 'photoUrl') {
+      return profile.photoUrl
+        ? <img src={profile.photoUrl} alt="" className="w-12 h-12 object-cover rounded" />
+        : <span className="text-gray-400">No photo</span>;
+    }
+    return profile[key] || <span className="text-gray-400">Not given</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[48rem] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <GitMerge className="w-5 h-5 mr-2" />
+              Merge Visitor Profiles
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 mb-4">
+            Pick the details to keep. Every visit from both profiles stays on record under the visitor ID you keep,
+            and the other ID still finds this visitor.
+          </p>
+
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-40"></th>
+                {(['first', 'second'] as Side[]).map(side => (
+                  <th key={side} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <label className="flex items-center space-x-2 normal-case">
+                      <input
+                        type="radio"
+                        name="keepId"
+                        checked={keepId === side}
+                        onChange={() => setKeepId(side)}
+                      />
+                      <span className="text-sm font-semibold text-gray-900">Keep {profiles[side].visitorIdNumber}</span>
+                    </label>
+                    <div className="mt-1 font-normal normal-case">
+                      {visitCounts[side] === null ? 'Counting visits...' : `${visitCounts[side]} visit${visitCounts[side] !== 1 ? 's' : ''}`}
+                      {profiles[side].lastVisitAt && ` · Last ${format(profiles[side].lastVisitAt!, 'PP')}`}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {FIELDS.map(({ key, label }) => (
+                <tr key={key}>
+                  <td className="px-3 py-2 font-medium text-gray-700">{label}</td>
+                  {(['first', 'second'] as Side[]).map(side => (
+                    <td key={side} className="px-3 py-2">
+                      <label className="flex items-center space-x-2 text-gray-900">
+                        <input
+                          type="radio"
+                          name={key}
+                          checked={choices[key] === side}
+                          onChange={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                        />
+                        <span>{renderValue(profiles[side], key)}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleMerge}
+              disabled={isLoading}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-md ${
+                isLoading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isLoading ? 'Merging...' : 'Merge Profiles'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { Home, Plus, Edit, Trash2, Search } from 'lucide-react';
+import { Resident } from '../../types';
+import { residentService, ResidentInput } from '../../services/residentService';
+import { ResidentModal } from './ResidentModal';
+import { usePermission } from '../../hooks/usePermission';
+
+export const ResidentManagement: React.FC = () => {
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingResident, setEditingResident] = useState<Resident | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canManageResidents = usePermission('manage_residents');
+
+  useEffect(() => {
+    loadResidents();
+  }, []);
+
+  const loadResidents = async () => {
+    setIsLoading(true);
+    setResidents(await residentService.getAllResidents());
+    setIsLoading(false);
+  };
+
+  const handleSave = async (resident: ResidentInput) => {
+    if (editingResident) {
+      await residentService.updateResident(editingResident.id, resident);
+    } else {
+      await residentService.createResident(resident);
+    }
+    closeModal();
+    loadResidents();
+  };
+
+  const handleDelete = async (resident: Resident) => {
+    if (!confirm(`Remove ${residentService.getResidentDisplayName(resident)} from the resident registry?`)) return;
+
+    try {
+      await residentService.deleteResident(resident.id);
+      loadResidents();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to delete resident');
+    }
+  };
+
+  const openModal = (resident: Resident | null) => {
+    setEditingResident(resident);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setEditingResident(null);
+    setShowModal(false);
+  };
+
+  const filteredResidents = residents.filter(resident => {
+    const term = searchTerm.toLowerCase();
+    return (
+      residentService.getResidentDisplayName(resident).toLowerCase().includes(term) ||
+      resident.room.toLowerCase().includes(term) ||
+      resident.building.toLowerCase().includes(term)
+    );
+  });
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Home className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Resident Registry</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">Residents available for selection at visitor check-in</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search residents"
+              className="pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {canManageResidents && (
+            <button
+              onClick={() => openModal(null)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Resident
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : filteredResidents.length === 0 ? (
+        <div className="text-center py-10 text-sm text-gray-500">
+          {residents.length === 0 ? 'No residents registered yet.' : 'No residents match your search.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Resident
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Room
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Visiting Hours
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Approved Visitors
+                </th>
+                {canManageResidents && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredResidents.map((resident) => (
+                <tr key={resident.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {residentService.getResidentDisplayName(resident)}
+                    </div>
+                    {resident.emergencyContact && (
+                      <div className="text-sm text-gray-500">{resident.emergencyContact}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {resident.room}{resident.building ? ` · ${resident.building}` : ''}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {resident.visitingHours.start && resident.visitingHours.end
+                      ? `${resident.visitingHours.start} – ${resident.visitingHours.end}`
+                      : 'Any time'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {resident.approvedVisitors.length > 0 ? resident.approvedVisitors.join(', ') : 'Anyone'}
+                  </td>
+                  {canManageResidents && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => openModal(resident)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(resident)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <ResidentModal
+          resident={editingResident}
+          onClose={closeModal}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+};
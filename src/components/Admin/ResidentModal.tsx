@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { X, Home } from 'lucide-react';
+import { Resident } from '../../types';
+import { ResidentInput } from '../../services/residentService';
+
+interface ResidentModalProps {
+  resident?: Resident | null;
+  onClose: () => void;
+  onSave: (resident: ResidentInput) => Promise<void>;
+}
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+export const ResidentModal: React.FC<ResidentModalProps> = ({ resident, onClose, onSave }) => {
+  const [formData, setFormData] = useState({
+    firstName: resident?.firstName || '',
+    lastName: resident?.lastName || '',
+    room: resident?.room || '',
+    building: resident?.building || '',
+    emergencyContact: resident?.emergencyContact || '',
+    approvedVisitors: (resident?.approvedVisitors || []).join(', '),
+    visitingHoursStart: resident?.visitingHours.start || '09:00',
+    visitingHoursEnd: resident?.visitingHours.end || '20:00',
+    specialInstructions: resident?.specialInstructions || '',
+    medicalRestrictions: (resident?.medicalRestrictions || []).join(', '),
+    maxVisitors: resident?.maxVisitors ? String(resident.maxVisitors) : ''
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await onSave({
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        room: formData.room.trim(),
+        building: formData.building.trim(),
+        emergencyContact: formData.emergencyContact.trim(),
+        approvedVisitors: splitList(formData.approvedVisitors),
+        visitingHours: {
+          start: formData.visitingHoursStart,
+          end: formData.visitingHoursEnd
+        },
+        specialInstructions: formData.specialInstructions.trim() || undefined,
+        medicalRestrictions: splitList(formData.medicalRestrictions),
+        // 0 rather than undefined so clearing the field removes the resident's own limit
+        maxVisitors: parseInt(formData.maxVisitors, 10) || 0
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save resident');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (error) setError(null);
+  };
+
+  const isFormValid = formData.firstName && formData.lastName && formData.room;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[32rem] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <Home className="w-5 h-5 mr-2" />
+              {resident ? 'Edit Resident' : 'Add Resident'}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  First Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.firstName}
+                  onChange={(e) => handleInputChange('firstName', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Last Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.lastName}
+                  onChange={(e) => handleInputChange('lastName', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Room *
+                </label>
+                <input
+                  type="text"
+                  value={formData.room}
+                  onChange={(e) => handleInputChange('room', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., A-101"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Building / Wing
+                </label>
+                <input
+                  type="text"
+                  value={formData.building}
+                  onChange={(e) => handleInputChange('building', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Emergency Contact
+              </label>
+              <input
+                type="text"
+                value={formData.emergencyContact}
+                onChange={(e) => handleInputChange('emergencyContact', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Visiting From
+                </label>
+                <input
+                  type="time"
+                  value={formData.visitingHoursStart}
+                  onChange={(e) => handleInputChange('visitingHoursStart', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Visiting Until
+                </label>
+                <input
+                  type="time"
+                  value={formData.visitingHoursEnd}
+                  onChange={(e) => handleInputChange('visitingHoursEnd', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Maximum Visitors in Room
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={formData.maxVisitors}
+                onChange={(e) => handleInputChange('maxVisitors', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Default room limit"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Approved Visitors
+              </label>
+              <input
+                type="text"
+                value={formData.approvedVisitors}
+                onChange={(e) => handleInputChange('approvedVisitors', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Comma separated names or visitor ID numbers"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Medical Restrictions
+              </label>
+              <input
+                type="text"
+                value={formData.medicalRestrictions}
+                onChange={(e) => handleInputChange('medicalRestrictions', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Comma separated, e.g., No outside food"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Special Instructions
+              </label>
+              <textarea
+                value={formData.specialInstructions}
+                onChange={(e) => handleInputChange('specialInstructions', e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex items-center justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isFormValid || isLoading}
+                className={`px-4 py-2 text-sm font-medium text-white rounded-md ${
+                  !isFormValid || isLoading
+                    ? 'bg-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {isLoading ? 'Saving...' : resident ? 'Update Resident' : 'Add Resident'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Save } from 'lucide-react';
+import { Permission, RoleTemplate, User, UserRole } from '../../types';
+import { permissionService, PERMISSIONS, ROLES } from '../../services/permissionService';
+import { usePermission } from '../../hooks/usePermission';
+
+interface RoleTemplateManagerProps {
+  currentUser: User;
+}
+
+export const RoleTemplateManager: React.FC<RoleTemplateManagerProps> = ({ currentUser }) => {
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [dirtyRoles, setDirtyRoles] = useState<Set<UserRole>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const canManageRoles = usePermission('manage_roles');
+
+  useEffect(() => {
+    permissionService.getRoleTemplates().then(setTemplates);
+  }, []);
+
+  const togglePermission = (role: UserRole, permission: Permission) => {
+    setTemplates(prev => prev.map(template => {
+      if (template.role !== role) return template;
+      const permissions = template.permissions.includes(permission)
+        ? template.permissions.filter(p => p !== permission)
+        : [...template.permissions, permission];
+      return { ...template, permissions };
+    }));
+    setDirtyRoles(prev => new Set(prev).add(role));
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      for (const template of templates.filter(t => dirtyRoles.has(t.role))) {
+        await permissionService.saveRoleTemplate(template.role, template.permissions, currentUser.id);
+      }
+      setDirtyRoles(new Set());
+      setMessage('Role templates saved. Signed-in staff pick up the change at their next sign-in.');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save role templates');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const categories = Array.from(new Set(PERMISSIONS.map(p => p.category)));
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <KeyRound className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Role Permissions</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">Default permissions granted to each role</p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!canManageRoles || dirtyRoles.size === 0 || isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Permission
+              </th>
+              {ROLES.map(role => (
+                <th key={role.value} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {role.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {categories.map(category => (
+              <React.Fragment key={category}>
+                <tr className="bg-gray-50">
+                  <td colSpan={ROLES.length + 1} className="px-6 py-2 text-xs font-semibold text-gray-600 uppercase">
+                    {category}
+                  </td>
+                </tr>
+                {PERMISSIONS.filter(p => p.category === category).map(permission => (
+                  <tr key={permission.key}>
+                    <td className="px-6 py-3">
+                      <div className="text-sm font-medium text-gray-900">{permission.label}</div>
+                      <div className="text-xs text-gray-500">{permission.description}</div>
+                    </td>
+                    {templates.map(template => (
+                      <td key={template.role} className="px-6 py-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={template.role === 'super-admin' || template.permissions.includes(permission.key)}
+                          disabled={!canManageRoles || template.role === 'super-admin'}
+                          onChange={() => togglePermission(template.role, permission.key)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
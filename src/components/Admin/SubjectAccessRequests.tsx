@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { UserSearch, FileJson, FileText, Trash2, Search } from 'lucide-react';
+import { SubjectAccessExport, SubjectLookup, SubjectRecordCounts } from '../../types';
+import { subjectAccessService, SUBJECT_RECORD_SECTIONS } from '../../services/subjectAccessService';
+
+type LookupField = keyof SubjectLookup;
+
+export const SubjectAccessRequests: React.FC = () => {
+  const [field, setField] = useState<LookupField>('visitorIdNumber');
+  const [value, setValue] = useState('');
+  const [exported, setExported] = useState<SubjectAccessExport | null>(null);
+  const [erased, setErased] = useState<SubjectRecordCounts | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lookup: SubjectLookup = { [field]: value.trim() };
+  const reference = value.trim();
+
+  const reset = () => {
+    setExported(null);
+    setErased(null);
+    setError(null);
+  };
+
+  const handleFind = async (e: React.FormEvent) => {
+    e.preventDefault();
+    reset();
+    setIsWorking(true);
+
+    try {
+      setExported(await subjectAccessService.exportData(lookup));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to collect the visitor\'s data');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!confirm(`Erase everything held about ${reference}? Profiles are deleted and visits kept only as anonymous records. This cannot be undone.`)) return;
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      setErased(await subjectAccessService.erase(lookup));
+      setExported(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to erase the visitor\'s data');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const counts = exported ? subjectAccessService.countRecords(exported) : erased;
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <UserSearch className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Subject Access Requests</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">
+              Export everything held about a visitor, or erase it at their request
+            </p>
+          </div>
+        </div>
+        <form onSubmit={handleFind} className="flex items-center space-x-3">
+          <select
+            value={field}
+            onChange={(e) => { setField(e.target.value as LookupField); reset(); }}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="visitorIdNumber">Visitor ID number</option>
+            <option value="profileId">Profile ID</option>
+          </select>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => { setValue(e.target.value); reset(); }}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!reference || isWorking}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            {isWorking ? 'Working...' : 'Find Data'}
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {erased && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700">
+            {reference}'s data has been erased. The audit trail keeps only the number of records removed.
+          </div>
+        </div>
+      )}
+
+      {counts && (
+        <div className="px-4 pb-5 sm:px-6">
+          <dl className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {SUBJECT_RECORD_SECTIONS.map(({ key, label }) => (
+              <div key={key} className="border border-gray-200 rounded-md p-3">
+                <dt className="text-xs text-gray-500">{label}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{counts[key]}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {exported && (
+            <div className="mt-4 flex items-center justify-end space-x-3">
+              <button
+                onClick={() => subjectAccessService.downloadJson(exported, reference)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <FileJson className="w-4 h-4 mr-2" />
+                Download JSON
+              </button>
+              <button
+                onClick={() => subjectAccessService.printPdf(exported, reference)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <FileText className="w-4 h-4 mr-2" />
+                Save as PDF
+              </button>
+              <button
+                onClick={handleErase}
+                disabled={isWorking}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Erase All
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Hourglass, Save, LogOut } from 'lucide-react';
+import { User, Visitor, VisitDurationSettings as DurationSettings } from '../../types';
+import { visitDurationService, DEFAULT_VISIT_DURATIONS, AUTO_CHECK_OUT_TIME } from '../../services/visitDurationService';
+import { usePermission } from '../../hooks/usePermission';
+
+interface VisitDurationSettingsProps {
+  currentUser: User;
+}
+
+const ACCESS_LEVELS: { value: Visitor['accessLevel']; label: string }[] = [
+  { value: 'family', label: 'Family Member' },
+  { value: 'friend', label: 'Friend' },
+  { value: 'professional', label: 'Healthcare Professional' },
+  { value: 'volunteer', label: 'Volunteer' },
+  { value: 'contractor', label: 'Contractor/Service' },
+];
+
+export const VisitDurationSettings: React.FC<VisitDurationSettingsProps> = ({ currentUser }) => {
+  const [settings, setSettings] = useState<DurationSettings>(DEFAULT_VISIT_DURATIONS);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const canManageVisitors = usePermission('manage_visitors');
+
+  useEffect(() => {
+    visitDurationService.getSettings().then(setSettings);
+  }, []);
+
+  // A blank number removes the maximum
+  const updateMaxMinutes = (level: Visitor['accessLevel'], value: string) => {
+    const minutes = parseInt(value, 10);
+    setSettings(prev => ({ ...prev, maxMinutes: { ...prev.maxMinutes, [level]: minutes || undefined } }));
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const updateAutoCheckOut = (autoCheckOut: boolean) => {
+    setSettings(prev => ({ ...prev, autoCheckOut }));
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await visitDurationService.saveSettings(settings, currentUser.id);
+      setIsDirty(false);
+      setMessage('Visit lengths saved. Overstay alerts use them straight away.');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save visit lengths');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    if (!window.confirm('Check out everyone still on site now? Their visits will be marked as auto checked out.')) return;
+
+    setIsRunning(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const { closed, people } = await visitDurationService.runAutoCheckOut();
+      setMessage(closed > 0
+        ? `Closed ${closed} open visit${closed === 1 ? '' : 's'} (${people} ${people === 1 ? 'person' : 'people'}).`
+        : 'No visits were open.');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to run auto check-out');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100';
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Hourglass className="w-6 h-6 text-blue-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Visit Lengths</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">
+              Visitors still on site past their maximum are flagged at the front desk. Leave a maximum blank to never flag.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!canManageVisitors || !isDirty || isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="mx-4 mb-4 bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Access Level</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Maximum Visit (minutes)</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {ACCESS_LEVELS.map(({ value, label }) => (
+              <tr key={value}>
+                <td className="px-6 py-3 text-sm font-medium text-gray-900">{label}</td>
+                <td className="px-6 py-3">
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.maxMinutes[value] ?? ''}
+                    disabled={!canManageVisitors}
+                    onChange={(e) => updateMaxMinutes(value, e.target.value)}
+                    placeholder="No maximum"
+                    className={`${inputClass} w-28`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-4 py-5 sm:px-6 border-t border-gray-200 flex justify-between items-center">
+        <label className="flex items-start text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.autoCheckOut}
+            disabled={!canManageVisitors}
+            onChange={(e) => updateAutoCheckOut(e.target.checked)}
+            className="mt-0.5 mr-2"
+          />
+          <span>
+            <span className="font-medium text-gray-900">Check out forgotten visits every night at {AUTO_CHECK_OUT_TIME}</span>
+            <span className="block text-gray-500">Visits past their maximum or open since an earlier day are marked auto checked out and kept apart from real check-outs in reports.</span>
+          </span>
+        </label>
+        <button
+          onClick={handleRunNow}
+          disabled={!canManageVisitors || isRunning}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          {isRunning ? 'Running...' : 'Run Now'}
+        </button>
+      </div>
+    </div>
+  );
+};
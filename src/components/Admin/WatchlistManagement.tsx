@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ShieldOff, Plus, Edit, Trash2, Search } from 'lucide-react';
+import { User, WatchlistEntry } from '../../types';
+import { watchlistService, WatchlistEntryInput } from '../../services/watchlistService';
+import { WatchlistModal } from './WatchlistModal';
+
+interface WatchlistManagementProps {
+  currentUser: User;
+}
+
+export const WatchlistManagement: React.FC<WatchlistManagementProps> = ({ currentUser }) => {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<WatchlistEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    setEntries(await watchlistService.getAllEntries());
+    setIsLoading(false);
+  };
+
+  const handleSave = async (entry: WatchlistEntryInput) => {
+    if (editingEntry) {
+      await watchlistService.updateEntry(editingEntry.id, entry);
+    } else {
+      await watchlistService.createEntry(entry, currentUser.id);
+    }
+    closeModal();
+    loadEntries();
+  };
+
+  const handleDelete = async (entry: WatchlistEntry) => {
+    if (!confirm(`Remove ${entry.firstName} ${entry.lastName} from the watchlist?`)) return;
+
+    try {
+      await watchlistService.deleteEntry(entry.id);
+      loadEntries();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to remove watchlist entry');
+    }
+  };
+
+  const openModal = (entry: WatchlistEntry | null) => {
+    setEditingEntry(entry);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setEditingEntry(null);
+    setShowModal(false);
+  };
+
+  const filteredEntries = entries.filter(entry => {
+    const term = searchTerm.toLowerCase();
+    return (
+      `${entry.firstName} ${entry.lastName}`.toLowerCase().includes(term) ||
+      entry.aliases.some(alias => alias.toLowerCase().includes(term)) ||
+      entry.reason.toLowerCase().includes(term)
+    );
+  });
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <ShieldOff className="w-6 h-6 text-red-600 mr-2" />
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Watchlist</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">People screened out at check-in or needing a supervisor's approval</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search watchlist"
+              className="pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={() => openModal(null)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Person
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : filteredEntries.length === 0 ? (
+        <div className="text-center py-10 text-sm text-gray-500">
+          {entries.length === 0 ? 'Nobody is on the watchlist.' : 'No entries match your search.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Person
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  At Check-in
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expires
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredEntries.map((entry) => {
+                const active = watchlistService.isActive(entry);
+                return (
+                  <tr key={entry.id} className={active ? '' : 'opacity-50'}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        {entry.photoUrl && (
+                          <img src={entry.photoUrl} alt="" className="w-10 h-10 object-cover rounded-full mr-3" />
+                        )}
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{entry.firstName} {entry.lastName}</div>
+                          <div className="text-sm text-gray-500">
+                            {[entry.visitorIdNumber, entry.phone, ...entry.aliases].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{entry.reason}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        entry.action === 'block' ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'
+                      }`}>
+                        {entry.action === 'block' ? 'Blocked' : 'Supervisor'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {entry.residentIds.length === 0 ? 'All visits' : `${entry.residentIds.length} resident${entry.residentIds.length !== 1 ? 's' : ''}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {entry.expiresAt ? `${active ? '' : 'Expired '}${format(entry.expiresAt, 'PP')}` : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => openModal(entry)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <WatchlistModal
+          entry={editingEntry}
+          onClose={closeModal}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+};
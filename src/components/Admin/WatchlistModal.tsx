@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { X, ShieldOff, Upload } from 'lucide-react';
+import { Resident, WatchlistEntry } from '../../types';
+import { WatchlistEntryInput } from '../../services/watchlistService';
+import { residentService } from '../../services/residentService';
+
+interface WatchlistModalProps {
+  entry?: WatchlistEntry | null;
+  onClose: () => void;
+  onSave: (entry: WatchlistEntryInput) => Promise<void>;
+}
+
+// Photos are stored on the entry itself, which Firestore caps at 1 MB
+const MAX_PHOTO_BYTES = 500 * 1024;
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+export const WatchlistModal: React.FC<WatchlistModalProps> = ({ entry, onClose, onSave }) => {
+  const [formData, setFormData] = useState({
+    firstName: entry?.firstName || '',
+    lastName: entry?.lastName || '',
+    aliases: (entry?.aliases || []).join(', '),
+    phone: entry?.phone || '',
+    visitorIdNumber: entry?.visitorIdNumber || '',
+    photoUrl: entry?.photoUrl || '',
+    reason: entry?.reason || '',
+    action: entry?.action || 'block' as WatchlistEntry['action'],
+    expiresAt: entry?.expiresAt ? format(entry.expiresAt, 'yyyy-MM-dd') : '',
+  });
+  const [residentIds, setResidentIds] = useState<string[]>(entry?.residentIds || []);
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    residentService.getAllResidents().then(setResidents);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await onSave({
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        aliases: splitList(formData.aliases),
+        phone: formData.phone.trim() || undefined,
+        visitorIdNumber: formData.visitorIdNumber.trim() || undefined,
+        photoUrl: formData.photoUrl || undefined,
+        reason: formData.reason.trim(),
+        action: formData.action,
+        residentIds,
+        // Lasts through the whole of the chosen day
+        expiresAt: formData.expiresAt ? new Date(`${formData.expiresAt}T23:59:59`) : undefined,
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save watchlist entry');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (error) setError(null);
+  };
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      setError('Choose a photo smaller than 500 KB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (event) => handleInputChange('photoUrl', event.target?.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const toggleResident = (residentId: string) => {
+    setResidentIds(prev => prev.includes(residentId) ? prev.filter(id => id !== residentId) : [...prev, residentId]);
+  };
+
+  const isFormValid = formData.firstName && formData.lastName && formData.reason.trim();
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[32rem] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <ShieldOff className="w-5 h-5 mr-2" />
+              {entry ? 'Edit Watchlist Entry' : 'Add to Watchlist'}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  First Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.firstName}
+                  onChange={(e) => handleInputChange('firstName', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Last Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.lastName}
+                  onChange={(e) => handleInputChange('lastName', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Also Known As
+              </label>
+              <input
+                type="text"
+                value={formData.aliases}
+                onChange={(e) => handleInputChange('aliases', e.target.value)}
+                className={inputClass}
+                placeholder="Comma separated names"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Phone
+                </label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => handleInputChange('phone', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  ID Number
+                </label>
+                <input
+                  type="text"
+                  value={formData.visitorIdNumber}
+                  onChange={(e) => handleInputChange('visitorIdNumber', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Photo
+              </label>
+              <div className="flex items-center space-x-3">
+                {formData.photoUrl && (
+                  <img src={formData.photoUrl} alt="Watchlist photo" className="w-16 h-16 object-cover rounded" />
+                )}
+                <label className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {formData.photoUrl ? 'Replace' : 'Upload'}
+                  <input type="file" accept="image/*" onChange={handlePhotoUpload} className="hidden" />
+                </label>
+                {formData.photoUrl && (
+                  <button
+                    type="button"
+                    onClick={() => handleInputChange('photoUrl', '')}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason *
+              </label>
+              <textarea
+                value={formData.reason}
+                onChange={(e) => handleInputChange('reason', e.target.value)}
+                rows={2}
+                className={inputClass}
+                placeholder="e.g., Trespass notice 2026-114"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  At Check-in
+                </label>
+                <select
+                  value={formData.action}
+                  onChange={(e) => handleInputChange('action', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="block">Block</option>
+                  <option value="override">Require supervisor</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Expires
+                </label>
+                <input
+                  type="date"
+                  value={formData.expiresAt}
+                  onChange={(e) => handleInputChange('expiresAt', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Applies To
+              </label>
+              <p className="text-xs text-gray-500 mb-2">Leave every resident unticked to apply to all visits</p>
+              <div className="max-h-32 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+                {residents.length === 0 && <p className="text-sm text-gray-500">No residents registered.</p>}
+                {residents.map(resident => (
+                  <label key={resident.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={residentIds.includes(resident.id)}
+                      onChange={() => toggleResident(resident.id)}
+                    />
+                    <span>{residentService.getResidentDisplayName(resident)} ({resident.room})</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isFormValid || isLoading}
+                className={`px-4 py-2 text-sm font-medium text-white rounded-md ${
+                  !isFormValid || isLoading
+                    ? 'bg-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {isLoading ? 'Saving...' : entry ? 'Update Entry' : 'Add Entry'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
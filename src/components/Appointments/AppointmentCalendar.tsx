@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  format, addDays, addWeeks, startOfDay, endOfDay, startOfWeek, endOfWeek, isSameDay, setHours,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, Plus, Pencil, XCircle, CalendarDays, Repeat } from 'lucide-react';
+import { Appointment } from '../../types';
+import { appointmentService } from '../../services/appointmentService';
+import { usePermission } from '../../hooks/usePermission';
+import { AppointmentModal } from './AppointmentModal';
+
+// Hours shown as rows in the day view
+const FIRST_HOUR = 7;
+const LAST_HOUR = 20;
+
+const STATUS_STYLES: Record<Appointment['status'], string> = {
+  scheduled: 'bg-blue-50 border-blue-300 text-blue-900',
+  arrived: 'bg-green-50 border-green-300 text-green-900',
+  cancelled: 'bg-gray-50 border-gray-200 text-gray-400 line-through',
+};
+
+export const AppointmentCalendar: React.FC = () => {
+  const [view, setView] = useState<'day' | 'week'>('day');
+  const [anchor, setAnchor] = useState<Date>(startOfDay(new Date()));
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [editing, setEditing] = useState<Appointment | null>(null);
+  const [creatingAt, setCreatingAt] = useState<Date | null>(null);
+  const canManage = usePermission('manage_appointments');
+
+  const range = useMemo(() => view === 'day'
+    ? { from: startOfDay(anchor), to: endOfDay(anchor) }
+    : { from: startOfWeek(anchor), to: endOfWeek(anchor) },
+  [view, anchor]);
+
+  useEffect(() => {
+    return appointmentService.subscribeToRange(range.from, range.to, setAppointments);
+  }, [range]);
+
+  const step = (direction: 1 | -1) => {
+    setAnchor(prev => view === 'day' ? addDays(prev, direction) : addWeeks(prev, direction));
+  };
+
+  const handleCancel = async (appointment: Appointment) => {
+    const reason = window.prompt(`Cancel ${appointment.firstName} ${appointment.lastName}'s appointment? Enter a reason:`);
+    if (reason === null) return;
+    try {
+      await appointmentService.cancelAppointment(appointment.id, reason.trim() || 'No reason given');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not cancel the appointment. Please try again.');
+    }
+  };
+
+  const handleEditSeries = async (appointment: Appointment) => {
+    const series = appointment.seriesId ? await appointmentService.getSeries(appointment.seriesId) : null;
+    if (!series) {
+      alert('Could not load the series. Please try again.');
+      return;
+    }
+    setEditing(series);
+  };
+
+  const renderAppointment = (appointment: Appointment) => (
+    <div key={appointment.id} className={`border rounded-lg px-3 py-2 text-sm ${STATUS_STYLES[appointment.status]}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold flex items-center gap-1">
+            {appointment.seriesId && <Repeat className="w-3 h-3 flex-shrink-0" aria-label="Recurring" />}
+            {format(appointment.startTime, 'p')} · {appointment.firstName} {appointment.lastName}
+          </p>
+          <p className="text-xs opacity-80">
+            {appointment.residentName || appointment.staffDepartment || appointment.visitorMeetingSelection} · {appointment.visitPurpose}
+          </p>
+        </div>
+        {canManage && appointment.status === 'scheduled' && (
+          <div className="flex gap-1 flex-shrink-0">
+            <button
+              onClick={() => setEditing(appointment)}
+              title={appointment.seriesId ? 'Edit or reschedule this visit' : 'Edit or reschedule'}
+              className="p-1 hover:bg-white rounded"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            {appointment.seriesId && (
+              <button onClick={() => handleEditSeries(appointment)} title="Edit the whole series" className="p-1 hover:bg-white rounded">
+                <Repeat className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => handleCancel(appointment)}
+              title={appointment.seriesId ? 'Cancel this visit' : 'Cancel appointment'}
+              className="p-1 hover:bg-white rounded text-red-600"
+            >
+              <XCircle className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const days = view === 'day' ? [anchor] : Array.from({ length: 7 }, (_, i) => addDays(range.from, i));
+  const hours = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, i) => FIRST_HOUR + i);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-gray-200">
+      <div className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white px-8 py-6 flex flex-col lg:flex-row items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <CalendarDays className="w-8 h-8" />
+          <div>
+            <h2 className="text-3xl font-bold">Appointments</h2>
+            <p className="text-indigo-100 text-lg mt-1">
+              {view === 'day'
+                ? format(anchor, 'EEEE, MMMM d, yyyy')
+                : `${format(range.from, 'MMM d')} - ${format(range.to, 'MMM d, yyyy')}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-white/20 rounded-xl p-1">
+            {(['day', 'week'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-4 py-2 rounded-lg font-bold capitalize ${view === option ? 'bg-white text-indigo-700' : ''}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => step(-1)} className="p-2 bg-white/20 hover:bg-white/30 rounded-xl">
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <button onClick={() => setAnchor(startOfDay(new Date()))} className="px-4 py-2 bg-white/20 hover:bg-white/30 rounded-xl font-bold">
+            Today
+          </button>
+          <button onClick={() => step(1)} className="p-2 bg-white/20 hover:bg-white/30 rounded-xl">
+            <ChevronRight className="w-6 h-6" />
+          </button>
+          {canManage && (
+            <button
+              onClick={() => setCreatingAt(setHours(view === 'day' ? anchor : startOfDay(new Date()), 10))}
+              className="flex items-center gap-2 px-5 py-2 bg-white text-indigo-700 rounded-xl font-bold hover:bg-indigo-50"
+            >
+              <Plus className="w-5 h-5" />
+              New
+            </button>
+          )}
+        </div>
+      </div>
+
+      {view === 'day' ? (
+        <div className="divide-y divide-gray-100">
+          {hours.map(hour => {
+            const inHour = appointments.filter(a => a.startTime.getHours() === hour);
+            return (
+              <div key={hour} className="flex gap-4 px-8 py-3 min-h-[3.5rem]">
+                <button
+                  onClick={() => canManage && setCreatingAt(setHours(anchor, hour))}
+                  disabled={!canManage}
+                  className="w-20 text-left text-gray-500 font-medium enabled:hover:text-indigo-600"
+                  title={canManage ? 'Book an appointment at this time' : undefined}
+                >
+                  {format(setHours(anchor, hour), 'h a')}
+                </button>
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2">
+                  {inHour.map(renderAppointment)}
+                </div>
+              </div>
+            );
+          })}
+          {appointments.some(a => a.startTime.getHours() < FIRST_HOUR || a.startTime.getHours() > LAST_HOUR) && (
+            <div className="px-8 py-3 space-y-2">
+              <p className="text-sm text-gray-500 font-medium">Outside regular hours</p>
+              {appointments
+                .filter(a => a.startTime.getHours() < FIRST_HOUR || a.startTime.getHours() > LAST_HOUR)
+                .map(renderAppointment)}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 divide-y md:divide-y-0 md:divide-x divide-gray-100">
+          {days.map(day => (
+            <div key={day.toISOString()} className="p-3 min-h-[12rem]">
+              <button
+                onClick={() => { setAnchor(day); setView('day'); }}
+                className={`w-full text-left mb-3 font-bold ${isSameDay(day, new Date()) ? 'text-indigo-600' : 'text-gray-700'}`}
+              >
+                {format(day, 'EEE d')}
+              </button>
+              <div className="space-y-2">
+                {appointments.filter(a => isSameDay(a.startTime, day)).map(renderAppointment)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(editing || creatingAt) && (
+        <AppointmentModal
+          appointment={editing}
+          defaultStart={creatingAt || undefined}
+          onClose={() => { setEditing(null); setCreatingAt(null); }}
+          onSaved={() => { setEditing(null); setCreatingAt(null); }}
+        />
+      )}
+    </div>
+  );
+};
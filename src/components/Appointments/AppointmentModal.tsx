@@ -0,0 +1,502 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { X, CalendarClock, Repeat } from 'lucide-react';
+import { Appointment, AppointmentInput, RecurrenceRule, Resident, Visitor } from '../../types';
+import { appointmentService, DEFAULT_APPOINTMENT_MINUTES } from '../../services/appointmentService';
+import { residentService } from '../../services/residentService';
+import { authService } from '../../services/authService';
+import { recurrenceService } from '../../services/recurrenceService';
+
+interface AppointmentModalProps {
+  appointment?: Appointment | null; // A one-off, a series or a single occurrence to edit; a new appointment otherwise
+  defaultStart?: Date;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MEETING_OPTIONS: { value: Visitor['visitorMeetingSelection']; label: string }[] = [
+  { value: 'resident', label: 'Resident' },
+  { value: 'staff', label: 'Staff' },
+  { value: 'sisters', label: 'Sisters' },
+];
+
+export const AppointmentModal: React.FC<AppointmentModalProps> = ({ appointment, defaultStart, onClose, onSaved }) => {
+  const [formData, setFormData] = useState({
+    firstName: appointment?.firstName || '',
+    lastName: appointment?.lastName || '',
+    email: appointment?.email || '',
+    phone: appointment?.phone || '',
+    visitorIdNumber: appointment?.visitorIdNumber || '',
+    visitorMeetingSelection: appointment?.visitorMeetingSelection || 'resident' as Visitor['visitorMeetingSelection'],
+    residentId: appointment?.residentId || '',
+    staffDepartment: appointment?.staffDepartment || '',
+    visitPurpose: appointment?.visitPurpose || '',
+    notes: appointment?.notes || '',
+    startTime: format(appointment?.startTime || defaultStart || new Date(), "yyyy-MM-dd'T'HH:mm"),
+    durationMinutes: appointment?.durationMinutes || DEFAULT_APPOINTMENT_MINUTES,
+    frequency: appointment?.recurrence?.frequency || 'none' as RecurrenceRule['frequency'] | 'none',
+    interval: appointment?.recurrence?.interval || 1,
+    weekdays: appointment?.recurrence?.weekdays || [] as number[],
+    until: appointment?.recurrence?.until ? format(appointment.recurrence.until, 'yyyy-MM-dd') : '',
+    exceptions: appointment?.recurrence?.exceptions || [] as string[],
+  });
+  const [newException, setNewException] = useState('');
+  // A single visit of a series keeps the series' repeat pattern
+  const isOccurrence = !!appointment?.seriesId;
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    residentService.getAllResidents().then(setResidents);
+  }, []);
+
+  const handleInputChange = (field: string, value: string | number | number[] | string[]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (error) setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    const resident = residents.find(r => r.id === formData.residentId);
+    const meetsResident = formData.visitorMeetingSelection === 'resident';
+    const input: AppointmentInput = {
+      firstName: formData.firstName.trim(),
+      lastName: formData.lastName.trim(),
+      email: formData.email.trim() || undefined,
+      phone: formData.phone.trim(),
+      visitorIdNumber: formData.visitorIdNumber.trim() || undefined,
+      visitorMeetingSelection: formData.visitorMeetingSelection,
+      residentId: meetsResident ? resident?.id : undefined,
+      residentName: meetsResident && resident ? residentService.getResidentDisplayName(resident) : undefined,
+      residentRoom: meetsResident ? resident?.room : undefined,
+      staffDepartment: formData.visitorMeetingSelection === 'staff' ? formData.staffDepartment.trim() : undefined,
+      visitPurpose: formData.visitPurpose.trim(),
+      notes: formData.notes.trim() || undefined,
+      startTime: new Date(formData.startTime),
+      durationMinutes: formData.durationMinutes,
+      recurrence: !isOccurrence && formData.frequency !== 'none' ? {
+        frequency: formData.frequency,
+        interval: Math.max(1, formData.interval),
+        weekdays: formData.frequency === 'weekly' ? formData.weekdays : undefined,
+        until: formData.until ? new Date(`${formData.until}T00:00:00`) : undefined,
+        exceptions: formData.exceptions,
+      } : undefined,
+    };
+
+    try {
+      if (appointment) {
+        await appointmentService.updateAppointment(appointment.id, input);
+      } else {
+        await appointmentService.createAppointment(input, authService.getSessionUser()?.id || '');
+      }
+      onSaved();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save appointment');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Weekly starts out on the weekday of the first visit
+  const handleFrequencyChange = (frequency: RecurrenceRule['frequency'] | 'none') => {
+    handleInputChange('frequency', frequency);
+    if (frequency === 'weekly' && formData.weekdays.length === 0 && formData.startTime) {
+      handleInputChange('weekdays', [new Date(formData.startTime).getDay()]);
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    handleInputChange('weekdays', formData.weekdays.includes(day)
+      ? formData.weekdays.filter(d => d !== day)
+      : [...formData.weekdays, day]);
+  };
+
+  const addException = () => {
+    if (!newException || formData.exceptions.includes(newException)) return;
+    handleInputChange('exceptions', [...formData.exceptions, newException].sort());
+    setNewException('');
+  };
+
+  const handleCancelSeries = async () => {
+    if (!appointment) return;
+    const reason = window.prompt('Cancel every remaining visit in this series? Enter a reason:');
+    if (reason === null) return;
+    setIsLoading(true);
+    try {
+      await appointmentService.cancelAppointment(appointment.id, reason.trim() || 'No reason given');
+      onSaved();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the series');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const previewRule: RecurrenceRule | null = formData.frequency !== 'none' && formData.startTime ? {
+    frequency: formData.frequency,
+    interval: Math.max(1, formData.interval),
+    weekdays: formData.weekdays,
+    until: formData.until ? new Date(`${formData.until}T00:00:00`) : undefined,
+  } : null;
+
+  const isFormValid = formData.firstName && formData.lastName && formData.phone && formData.visitPurpose &&
+    formData.startTime && (formData.visitorMeetingSelection !== 'resident' || formData.residentId) &&
+    (formData.frequency !== 'weekly' || formData.weekdays.length > 0);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[28rem] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <CalendarClock className="w-5 h-5 mr-2" />
+              {!appointment ? 'New Appointment' : isOccurrence ? 'Edit This Visit' : appointment.recurrence ? 'Edit Series' : 'Edit Appointment'}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Starts *
+                </label>
+                <input
+                  type="datetime-local"
+                  value={formData.startTime}
+                  onChange={(e) => handleInputChange('startTime', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Length
+                </label>
+                <select
+                  value={formData.durationMinutes}
+                  onChange={(e) => handleInputChange('durationMinutes', parseInt(e.target.value, 10))}
+                  className={inputClass}
+                >
+                  {DURATIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes} minutes</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {isOccurrence ? (
+              <p className="text-sm text-gray-600 flex items-center">
+                <Repeat className="w-4 h-4 mr-2" />
+                Changes apply to the {format(appointment!.startTime, 'PP')} visit only
+              </p>
+            ) : (
+              <div className="border border-gray-200 rounded-md p-3 space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Repeats
+                    </label>
+                    <select
+                      value={formData.frequency}
+                      onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceRule['frequency'] | 'none')}
+                      className={inputClass}
+                    >
+                      <option value="none" disabled={!!appointment?.recurrence}>Does not repeat</option>
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="monthly">Monthly</option>
+                    </select>
+                  </div>
+                  {formData.frequency !== 'none' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Every
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={formData.interval}
+                        onChange={(e) => handleInputChange('interval', parseInt(e.target.value, 10) || 1)}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {formData.frequency === 'weekly' && (
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAYS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={`px-2 py-1 text-xs rounded-md border ${
+                          formData.weekdays.includes(day)
+                            ? 'bg-blue-600 border-blue-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {formData.frequency !== 'none' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Until
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.until}
+                        onChange={(e) => handleInputChange('until', e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Skip these days
+                      </label>
+                      <div className="flex gap-2">
+                        <input
+                          type="date"
+                          value={newException}
+                          onChange={(e) => setNewException(e.target.value)}
+                          className={inputClass}
+                        />
+                        <button
+                          type="button"
+                          onClick={addException}
+                          className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+                        >
+                          Add
+                        </button>
+                      </div>
+                      {formData.exceptions.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {formData.exceptions.map(day => (
+                            <span key={day} className="inline-flex items-center px-2 py-1 text-xs bg-gray-100 rounded-md">
+                              {format(new Date(`${day}T00:00:00`), 'PP')}
+                              <button
+                                type="button"
+                                onClick={() => handleInputChange('exceptions', formData.exceptions.filter(d => d !== day))}
+                                className="ml-1 text-gray-400 hover:text-gray-600"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    {previewRule && (
+                      <p className="text-sm text-gray-600">
+                        {recurrenceService.describe(previewRule, new Date(formData.startTime))}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  First Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.firstName}
+                  onChange={(e) => handleInputChange('firstName', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Last Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.lastName}
+                  onChange={(e) => handleInputChange('lastName', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Phone *
+                </label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => handleInputChange('phone', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => handleInputChange('email', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Visitor ID
+              </label>
+              <input
+                type="text"
+                value={formData.visitorIdNumber}
+                onChange={(e) => handleInputChange('visitorIdNumber', e.target.value)}
+                className={inputClass}
+                placeholder="For returning visitors"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Meeting With *
+              </label>
+              <select
+                value={formData.visitorMeetingSelection}
+                onChange={(e) => handleInputChange('visitorMeetingSelection', e.target.value)}
+                className={inputClass}
+              >
+                {MEETING_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {formData.visitorMeetingSelection === 'resident' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Resident *
+                </label>
+                <select
+                  value={formData.residentId}
+                  onChange={(e) => handleInputChange('residentId', e.target.value)}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Select a resident</option>
+                  {residents.map(resident => (
+                    <option key={resident.id} value={resident.id}>
+                      {residentService.getResidentDisplayName(resident)} ({resident.room})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {formData.visitorMeetingSelection === 'staff' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Department
+                </label>
+                <input
+                  type="text"
+                  value={formData.staffDepartment}
+                  onChange={(e) => handleInputChange('staffDepartment', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Purpose *
+              </label>
+              <input
+                type="text"
+                value={formData.visitPurpose}
+                onChange={(e) => handleInputChange('visitPurpose', e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => handleInputChange('notes', e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex items-center justify-end space-x-3 pt-4">
+              {appointment?.recurrence && (
+                <button
+                  type="button"
+                  onClick={handleCancelSeries}
+                  disabled={isLoading}
+                  className="mr-auto px-4 py-2 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-md"
+                >
+                  Cancel Series
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isFormValid || isLoading}
+                className={`px-4 py-2 text-sm font-medium text-white rounded-md ${
+                  !isFormValid || isLoading
+                    ? 'bg-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {isLoading ? 'Saving...' : appointment ? 'Save Changes' : 'Book Appointment'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
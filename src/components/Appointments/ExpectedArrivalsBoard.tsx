@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { CalendarClock, Clock, UserX, UserCheck, Repeat } from 'lucide-react';
+import { Appointment, ArrivalState } from '../../types';
+import { appointmentService } from '../../services/appointmentService';
+import { usePermission } from '../../hooks/usePermission';
+
+interface ExpectedArrivalsBoardProps {
+  onCheckIn: (appointment: Appointment) => void;
+}
+
+const COLUMNS: { state: ArrivalState; title: string; icon: React.ElementType; accent: string }[] = [
+  { state: 'expected', title: 'Expected', icon: CalendarClock, accent: 'text-blue-600 bg-blue-50 border-blue-200' },
+  { state: 'late', title: 'Running Late', icon: Clock, accent: 'text-amber-600 bg-amber-50 border-amber-200' },
+  { state: 'no-show', title: 'No-shows', icon: UserX, accent: 'text-red-600 bg-red-50 border-red-200' },
+  { state: 'arrived', title: 'Arrived', icon: UserCheck, accent: 'text-green-600 bg-green-50 border-green-200' },
+];
+
+export const ExpectedArrivalsBoard: React.FC<ExpectedArrivalsBoardProps> = ({ onCheckIn }) => {
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [now, setNow] = useState(new Date());
+  const canCheckIn = usePermission('check_in_visitors');
+
+  useEffect(() => {
+    const today = new Date();
+    return appointmentService.subscribeToRange(startOfDay(today), endOfDay(today), setAppointments);
+  }, []);
+
+  // Late and no-show are time based, so re-evaluate every minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const byState = useMemo(() => {
+    const grouped: Partial<Record<ArrivalState, Appointment[]>> = {};
+    appointments.forEach(appointment => {
+      const state = appointmentService.getArrivalState(appointment, now);
+      grouped[state] = [...(grouped[state] || []), appointment];
+    });
+    return grouped;
+  }, [appointments, now]);
+
+  return (
+    <div className="mb-10 bg-white rounded-3xl shadow-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-800">Expected Arrivals</h2>
+          <p className="text-lg text-gray-600 mt-1">Today's appointments · {appointments.filter(a => a.status !== 'cancelled').length} booked</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+        {COLUMNS.map(({ state, title, icon: Icon, accent }) => {
+          const entries = byState[state] || [];
+          return (
+            <div key={state} className={`rounded-2xl border-2 p-4 ${accent}`}>
+              <div className="flex items-center gap-2 mb-4">
+                <Icon className="w-6 h-6" />
+                <h3 className="text-xl font-bold">{title}</h3>
+                <span className="ml-auto text-2xl font-bold">{entries.length}</span>
+              </div>
+              <div className="space-y-2">
+                {entries.length === 0 && <p className="text-sm text-gray-500">None</p>}
+                {entries.map(appointment => (
+                  <div key={appointment.id} className="bg-white rounded-xl p-3 shadow-sm text-gray-800">
+                    <p className="font-semibold flex items-center gap-1">
+                      {appointment.seriesId && <Repeat className="w-3 h-3" aria-label="Recurring" />}
+                      {appointment.firstName} {appointment.lastName}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {format(appointment.startTime, 'p')} · {appointment.residentName || appointment.staffDepartment || appointment.visitorMeetingSelection}
+                    </p>
+                    {state === 'arrived' && appointment.arrivedAt && (
+                      <p className="text-xs text-gray-500">Arrived {format(appointment.arrivedAt, 'p')}</p>
+                    )}
+                    {canCheckIn && state !== 'arrived' && (
+                      <button
+                        onClick={() => onCheckIn(appointment)}
+                        className="mt-2 w-full px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg"
+                      >
+                        Check In
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
-import React, { useState } from 'react';
-import { User, Lock, Eye, EyeOff, AlertCircle, Mail, UserPlus, ArrowLeft } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { User, Eye, EyeOff, AlertCircle, Mail, UserPlus, ArrowLeft, Ticket } from 'lucide-react';
 import { authService } from '../../services/authService';
+import { invitationService, INVITATION_CODE_LENGTH } from '../../services/invitationService';
+import { ROLES } from '../../services/permissionService';
+import { Invitation, UserRole } from '../../types';
 
 interface SignupFormData {
   firstName: string;
@@ -10,7 +14,7 @@ interface SignupFormData {
   password: string;
   confirmPassword: string;
   department: string;
-  role: 'admin' | 'hierarchy-person' | 'front-desk';
+  role: UserRole;
 }
 
 interface SignupProps {
@@ -34,6 +38,33 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const [invitationCode, setInvitationCode] = useState(searchParams.get('invite') || '');
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [invitationError, setInvitationError] = useState<string | null>(null);
+
+  // An invitation fixes the email and role it was issued for
+  useEffect(() => {
+    const code = invitationCode.trim();
+    setInvitation(null);
+    setInvitationError(null);
+    if (code.length !== INVITATION_CODE_LENGTH) return;
+
+    let cancelled = false;
+    invitationService.getInvitation(code).then(found => {
+      if (cancelled) return;
+      if (!found || invitationService.getStatus(found) !== 'pending') {
+        setInvitationError('This invitation is invalid, expired or has been revoked');
+        return;
+      }
+      setInvitation(found);
+      setFormData(prev => ({ ...prev, email: found.email, role: found.role }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [invitationCode]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,21 +86,30 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
       return;
     }
 
+    if (invitationCode.trim() && !invitation) {
+      setError('Enter a valid invitation code or leave the field empty to request approval');
+      setIsLoading(false);
+      return;
+    }
+
     try {
-             const userData = {
-         firstName: formData.firstName,
-         lastName: formData.lastName,
-         email: formData.email,
-         username: formData.username,
-         password: formData.password,
-         department: formData.department,
-         role: formData.role,
-         isActive: true,
-         permissions: getDefaultPermissions(formData.role)
-       };
+      const userData = {
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        email: formData.email,
+        username: formData.username,
+        password: formData.password,
+        department: formData.department,
+        role: formData.role,
+        isActive: false
+      };
 
-      await authService.createUser(userData);
-      setSuccess('Account created successfully! You can now sign in.');
+      await authService.registerStaff(userData, invitation?.id, email => {
+        setSuccess(`We sent a verification link to ${email}. Open it to finish creating your account; this page carries on by itself.`);
+      });
+      setSuccess(invitation
+        ? 'Account created successfully! You can now sign in.'
+        : 'Account created. An administrator must approve it before you can sign in.');
       
       // Clear form
       setFormData({
@@ -82,6 +122,7 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
         department: '',
         role: 'front-desk'
       });
+      setInvitationCode('');
 
       // Redirect to login after 2 seconds
       setTimeout(() => {
@@ -102,19 +143,6 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
     if (error) setError(null);
   };
 
-  const getDefaultPermissions = (role: string): string[] => {
-    switch (role) {
-      case 'admin':
-        return ['manage_users', 'view_reports', 'manage_visitors'];
-      case 'hierarchy-person':
-        return ['view_reports', 'view_visitors'];
-      case 'front-desk':
-        return ['check_in_visitors', 'view_visitors'];
-      default:
-        return ['view_visitors'];
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
@@ -178,6 +206,38 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
           )}
 
           <form className="space-y-6" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="invitationCode" className="block text-sm font-medium text-gray-700">
+                Invitation Code
+              </label>
+              <div className="mt-1 relative">
+                <input
+                  id="invitationCode"
+                  name="invitationCode"
+                  type="text"
+                  autoComplete="off"
+                  value={invitationCode}
+                  onChange={(e) => setInvitationCode(e.target.value.toUpperCase())}
+                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 font-mono"
+                  placeholder="From your invitation email"
+                />
+                <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                  <Ticket className="h-5 w-5 text-gray-400" />
+                </div>
+              </div>
+              {invitationError ? (
+                <p className="mt-2 text-sm text-red-600">{invitationError}</p>
+              ) : invitation ? (
+                <p className="mt-2 text-sm text-green-700">
+                  Invitation for {invitation.email} as {ROLES.find(r => r.value === invitation.role)?.label}
+                </p>
+              ) : (
+                <p className="mt-2 text-sm text-gray-500">
+                  Without an invitation your account must be approved by an administrator.
+                </p>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
               <div>
                 <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">
@@ -229,9 +289,10 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
                   type="email"
                   autoComplete="email"
                   required
+                  readOnly={!!invitation}
                   value={formData.email}
                   onChange={(e) => handleInputChange('email', e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-50"
                   placeholder="Enter your email"
                 />
                 <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
@@ -282,17 +343,19 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
 
             <div>
               <label htmlFor="role" className="block text-sm font-medium text-gray-700">
-                Role
+                {invitation ? 'Role' : 'Requested role'}
               </label>
               <div className="mt-1">
                 <select
                   id="role"
                   name="role"
                   required
+                  disabled={!!invitation}
                   value={formData.role}
                   onChange={(e) => handleInputChange('role', e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
                 >
+                  {invitation?.role === 'super-admin' && <option value="super-admin">Super Admin</option>}
                   <option value="front-desk">Front Desk</option>
                   <option value="hierarchy-person">Hierarchy Person</option>
                   <option value="admin">Admin</option>
@@ -377,7 +440,7 @@ export const Signup: React.FC<SignupProps> = ({ onSignupSuccess, onBackToLogin }
                 {isLoading ? (
                   <div className="flex items-center">
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Creating account...
+                    {invitation && success ? 'Waiting for email verification...' : 'Creating account...'}
                   </div>
                 ) : (
                   <div className="flex items-center">
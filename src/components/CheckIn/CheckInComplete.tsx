@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { CheckCircle, Download, Printer, QrCode, AlertTriangle, Mail, Tag, Users } from 'lucide-react';
+import { CheckCircle, Download, Printer, QrCode, AlertTriangle, Mail, Tag, Users, CloudOff } from 'lucide-react';
 import QRCode from 'react-qr-code';
 import { Visitor, HealthScreening, FamilyMember } from '../../types';
 import { nameTagService } from '../../services/nameTagService';
@@ -10,6 +10,7 @@ interface CheckInCompleteProps {
   visitor: Visitor;
   healthScreening: HealthScreening;
   familyMembers?: FamilyMember[];
+  queuedOffline?: boolean; // Saved on this terminal while offline; badge numbers are provisional until it syncs
   onComplete: () => void;
 }
 
@@ -17,6 +18,7 @@ export const CheckInComplete: React.FC<CheckInCompleteProps> = ({
   visitor,
   healthScreening,
   familyMembers = [],
+  queuedOffline = false,
   onComplete
 }) => {
   const qrCodeRef = useRef<HTMLDivElement>(null);
@@ -138,30 +140,8 @@ export const CheckInComplete: React.FC<CheckInCompleteProps> = ({
     !healthScreening.noFeverOrCovidSymptoms ||
     !healthScreening.notInContactWithIll;
 
-  const generateBadgeData = () => {
-    try {
-      // Create a compact QR code data format
-      const qrData = {
-        t: 'v', // type: visitor
-        id: visitor.visitorIdNumber,
-        n: `${visitor.firstName} ${visitor.lastName}`,
-        b: visitor.badgeNumber,
-        r: visitor.residentName,
-        rm: visitor.residentRoom,
-        ts: Date.now(),
-        a: visitor.accessLevel
-      };
-      return JSON.stringify(qrData);
-    } catch (error) {
-      console.error('Error generating badge data:', error);
-      return JSON.stringify({
-        t: 'v',
-        id: visitor.visitorIdNumber || 'N/A',
-        n: `${visitor.firstName} ${visitor.lastName}`,
-        b: visitor.badgeNumber || 'N/A'
-      });
-    }
-  };
+  // The signed code issued at check-in; empty when it couldn't be issued, so no QR code is shown
+  const generateBadgeData = () => visitor.qrCode || '';
 
   const handlePrintBadge = async () => {
     try {
@@ -392,6 +372,22 @@ export const CheckInComplete: React.FC<CheckInCompleteProps> = ({
         </div>
 
         <div className="p-6">
+          {/* Offline */}
+          {queuedOffline && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+              <div className="flex items-start space-x-3">
+                <CloudOff className="w-5 h-5 text-amber-600 mt-0.5" />
+                <div>
+                  <h3 className="font-medium text-amber-900">Saved Offline</h3>
+                  <p className="text-amber-800 text-sm mt-1">
+                    The connection is down, so this check-in is saved on this terminal and will sync when it returns.
+                    If someone else has been given the same badge number by then, the front desk dashboard shows the replacement.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Health Alert */}
           {hasHealthConcerns && (
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
@@ -594,12 +590,21 @@ export const CheckInComplete: React.FC<CheckInCompleteProps> = ({
             </div>
 
             {/* QR Code */}
-            <div id="qr-code" className="flex justify-center mb-4">
-              
-            </div>
-            <p className="text-sm text-gray-600 mb-4">
-              Scan this QR code for quick identification and re-entry on future visits
-            </p>
+            {visitor.qrCode ? (
+              <>
+                <div id="qr-code" className="flex justify-center mb-4">
+                  <QRCode value={visitor.qrCode} size={160} />
+                </div>
+                <p className="text-sm text-gray-600 mb-4">
+                  Scan this QR code for quick identification and re-entry on future visits
+                  {visitor.qrCodeExpiresAt && ` until ${visitor.qrCodeExpiresAt.toLocaleDateString()}`}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600 mb-4">
+                A QR code could not be issued for this visit. Use your visitor ID number next time.
+              </p>
+            )}
             
             {/* Future Login Instructions */}
             <div className="bg-green-50 border border-green-200 rounded-lg p-4">
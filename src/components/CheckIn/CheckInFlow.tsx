@@ -1,28 +1,37 @@
-import React, { useState } from 'react';
+import React, { useState, useCallback } from 'react';
 import { VisitorForm } from './VisitorForm';
 import { HealthScreeningForm } from './HealthScreeningForm';
 import { FamilyMembersForm } from './FamilyMembersForm';
+import { CheckInPolicyCheck } from './CheckInPolicyCheck';
 import { CheckInComplete } from './CheckInComplete';
-import { Visitor, HealthScreening, FamilyMember } from '../../types';
-import { visitorService } from '../../services/visitorService';
-import { emailService } from '../../services/emailService';
+import { Visitor, HealthScreening, FamilyMember, CheckInPolicyOverride, PreRegistration, Appointment } from '../../types';
+import { outboxService } from '../../services/outboxService';
 
 interface CheckInFlowProps {
   onComplete: () => void;
   returningVisitor?: Visitor | null;
+  preRegistration?: PreRegistration | null; // Details were entered on the portal, so only the policy check and health screening are left
+  appointment?: Appointment | null; // Started from the expected-arrivals board; prefills the visitor form
 }
 
-export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningVisitor }) => {
-  const [currentStep, setCurrentStep] = useState<'visitor-info' | 'family-members' | 'health-screening' | 'complete'>(
-    returningVisitor ? 'health-screening' : 'visitor-info'
+export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningVisitor, preRegistration, appointment }) => {
+  const [currentStep, setCurrentStep] = useState<'visitor-info' | 'policy-check' | 'family-members' | 'health-screening' | 'complete'>(
+    preRegistration || returningVisitor ? 'policy-check' : 'visitor-info'
   );
   const [visitorData, setVisitorData] = useState<Partial<Visitor>>(
-    returningVisitor ? {
+    preRegistration ? {
+      ...preRegistration.visitor,
+      accessLevel: preRegistration.visitor.accessLevel || 'family',
+      appointmentType: 'scheduled',
+      appointmentTime: preRegistration.slotStart.toISOString(),
+      preRegistrationId: preRegistration.id,
+    } : returningVisitor ? {
       firstName: returningVisitor.firstName,
       lastName: returningVisitor.lastName,
       email: returningVisitor.email,
       phone: returningVisitor.phone,
       relationship: returningVisitor.relationship,
+      residentId: returningVisitor.residentId || '',
       residentName: returningVisitor.residentName,
       residentRoom: returningVisitor.residentRoom,
       emergencyContact: returningVisitor.emergencyContact,
@@ -30,20 +39,46 @@ export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningV
       accessLevel: returningVisitor.accessLevel,
       photoUrl: returningVisitor.photoUrl,
       notes: returningVisitor.notes,
-      visitorIdNumber: returningVisitor.visitorIdNumber
+      visitorIdNumber: returningVisitor.visitorIdNumber,
+      visitorMeetingSelection: returningVisitor.visitorMeetingSelection
     } : {}
   );
   const [checkedInVisitor, setCheckedInVisitor] = useState<Visitor | null>(null);
+  const [queuedOffline, setQueuedOffline] = useState(false);
   const [healthScreening, setHealthScreening] = useState<HealthScreening | null>(null);
   const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const appointmentPrefill: Partial<Visitor> | undefined = appointment ? {
+    firstName: appointment.firstName,
+    lastName: appointment.lastName,
+    email: appointment.email,
+    phone: appointment.phone,
+    visitorIdNumber: appointment.visitorIdNumber,
+    visitorMeetingSelection: appointment.visitorMeetingSelection,
+    residentId: appointment.residentId,
+    residentName: appointment.residentName,
+    residentRoom: appointment.residentRoom,
+    staffDepartment: appointment.staffDepartment,
+    visitPurpose: appointment.visitPurpose,
+    appointmentType: 'scheduled',
+    appointmentTime: appointment.startTime.toISOString(),
+  } : undefined;
+
+  // New visitors add their family members first, so the policy check screens the whole party
   const handleVisitorInfo = (data: Partial<Visitor>) => {
     setVisitorData(data);
     setCurrentStep('family-members');
   };
 
+  const handlePolicyApproved = useCallback((override?: CheckInPolicyOverride) => {
+    if (override) {
+      setVisitorData(prev => ({ ...prev, policyOverride: override }));
+    }
+    setCurrentStep('health-screening');
+  }, []);
+
   const handleHealthScreening = async (screening: HealthScreening) => {
     console.log('🚀 handleHealthScreening called with screening:', screening);
     console.log('🚀 Current visitorData:', visitorData);
@@ -56,41 +91,26 @@ export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningV
       const completeVisitorData: Omit<Visitor, 'id' | 'checkInTime' | 'qrCode' | 'badgeNumber' | 'visitorIdNumber'> & { visitorIdNumber?: string } = {
         ...visitorData as Omit<Visitor, 'id' | 'checkInTime' | 'qrCode' | 'badgeNumber' | 'visitorIdNumber' | 'healthScreening'>,
         healthScreening: screening,
+        familyMembers,
+        isFamilyGroup: familyMembers.length > 0,
         status: 'checked-in',
         isApproved: true,
-        visitorIdNumber: returningVisitor?.visitorIdNumber || visitorData.visitorIdNumber || undefined
+        visitorIdNumber: returningVisitor?.visitorIdNumber || visitorData.visitorIdNumber || undefined,
+        ...(appointment ? {
+          appointmentId: appointment.id,
+          appointmentType: 'scheduled',
+          appointmentTime: appointment.startTime.toISOString(),
+        } : {}),
       };
 
       console.log('🚀 Complete visitor data prepared:', completeVisitorData);
-      console.log('🚀 Calling visitorService.checkInVisitor...');
 
-      const checkedInVisitorResult = await visitorService.checkInVisitor(completeVisitorData, !!returningVisitor);
-      
-      console.log('🚀 visitorService.checkInVisitor returned:', checkedInVisitorResult);
+      // Sends the notifications now, or once a queued check-in syncs
+      const { visitor: checkedInVisitorResult, queued } = await outboxService.checkIn(completeVisitorData, !!returningVisitor);
       
       // Store the checked-in visitor with Firebase ID
       setCheckedInVisitor(checkedInVisitorResult);
-      
-      // Send email notifications
-      try {
-        const recipientEmail = emailService.getRecipientEmail(checkedInVisitorResult);
-        
-        // Send check-in notification
-        await emailService.sendCheckInNotification(checkedInVisitorResult, screening, recipientEmail);
-        
-        // Send health alert if needed
-        if (emailService.shouldSendHealthAlert(screening)) {
-          await emailService.sendHealthAlertNotification(checkedInVisitorResult, screening, recipientEmail);
-        }
-        
-        // Send appointment scheduled notification if it's a scheduled appointment
-        if (checkedInVisitorResult.appointmentType === 'scheduled') {
-          await emailService.sendAppointmentScheduledNotification(checkedInVisitorResult, recipientEmail);
-        }
-      } catch (emailError) {
-        console.error('Failed to send email notifications:', emailError);
-        // Don't fail the check-in process if email fails
-      }
+      setQueuedOffline(queued);
       
       console.log('🚀 Moving to complete step');
       setCurrentStep('complete');
@@ -103,15 +123,17 @@ export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningV
     }
   };
 
+  // A changed party is screened again; an override given for the old one no longer applies
   const handleFamilyMembers = (members: FamilyMember[]) => {
     console.log('👨‍👩‍👧‍👦 Family members added:', members);
     setFamilyMembers(members);
-    setCurrentStep('health-screening');
+    setVisitorData(prev => ({ ...prev, familyMembers: members, policyOverride: undefined }));
+    setCurrentStep('policy-check');
   };
 
   const handleSkipFamilyMembers = () => {
     console.log('👨‍👩‍👧‍👦 Skipping family members');
-    setCurrentStep('health-screening');
+    handleFamilyMembers([]);
   };
 
 
@@ -130,7 +152,9 @@ export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningV
     setCurrentStep('visitor-info');
     setVisitorData({});
     setCheckedInVisitor(null);
+    setQueuedOffline(false);
     setHealthScreening(null);
+    setFamilyMembers([]);
     setError(null);
   };
 
@@ -166,14 +190,24 @@ export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningV
 
   switch (currentStep) {
     case 'visitor-info':
-      return <VisitorForm onNext={handleVisitorInfo} />;
+      return <VisitorForm onNext={handleVisitorInfo} initialData={appointmentPrefill} />;
     
+    case 'policy-check':
+      return (
+        <CheckInPolicyCheck
+          visitorData={visitorData}
+          onApproved={handlePolicyApproved}
+          onBack={returningVisitor || preRegistration ? handleBackToVisitorInfo : handleBackToFamilyMembers}
+        />
+      );
+
     case 'family-members':
       return (
         <FamilyMembersForm
           onComplete={handleFamilyMembers}
           onBack={handleBackToVisitorInfo}
           onSkip={handleSkipFamilyMembers}
+          initialMembers={familyMembers}
         />
       );
     
@@ -192,7 +226,8 @@ export const CheckInFlow: React.FC<CheckInFlowProps> = ({ onComplete, returningV
         <CheckInComplete
           visitor={checkedInVisitor || visitorData as Visitor}
           healthScreening={healthScreening!}
-          familyMembers={familyMembers}
+          familyMembers={checkedInVisitor?.familyMembers ?? familyMembers}
+          queuedOffline={queuedOffline}
           onComplete={handleComplete}
         />
       );
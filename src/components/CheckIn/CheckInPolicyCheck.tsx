@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldAlert, AlertTriangle, Ban, Lock } from 'lucide-react';
+import { Visitor, CheckInPolicyResult, CheckInPolicyOverride, CheckInPolicyAction } from '../../types';
+import { checkInPolicyService } from '../../services/checkInPolicyService';
+import { authService } from '../../services/authService';
+
+interface CheckInPolicyCheckProps {
+  visitorData: Partial<Visitor>;
+  onApproved: (override?: CheckInPolicyOverride) => void;
+  onBack: () => void;
+}
+
+const violationStyles: Record<CheckInPolicyAction, string> = {
+  allow: 'bg-green-50 border-green-200 text-green-800',
+  warn: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+  override: 'bg-orange-50 border-orange-200 text-orange-800',
+  block: 'bg-red-50 border-red-200 text-red-800'
+};
+
+export const CheckInPolicyCheck: React.FC<CheckInPolicyCheckProps> = ({
+  visitorData,
+  onApproved,
+  onBack
+}) => {
+  const [result, setResult] = useState<CheckInPolicyResult | null>(null);
+  const [supervisor, setSupervisor] = useState({ username: '', password: '', reason: '' });
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    checkInPolicyService.evaluate(visitorData).then(policyResult => {
+      if (cancelled) return;
+      if (policyResult.action === 'allow') {
+        onApproved();
+      } else {
+        setResult(policyResult);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visitorData, onApproved]);
+
+  const handleOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!result) return;
+
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      const approver = await authService.verifySupervisor({
+        username: supervisor.username,
+        password: supervisor.password
+      });
+
+      onApproved({
+        supervisorId: approver.id,
+        supervisorName: `${approver.firstName} ${approver.lastName}`,
+        reason: supervisor.reason.trim(),
+        rules: Array.from(new Set(result.violations.filter(v => v.action === 'override').map(v => v.rule))),
+        watchlistEntryIds: result.violations.flatMap(v => v.watchlistMatch ? [v.watchlistMatch.entry.id] : []),
+        overriddenAt: new Date()
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Supervisor verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!result) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Checking Visit Policy</h3>
+          <p className="text-gray-600">Screening the watchlist and verifying visiting hours and approved visitors...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOverrideValid = supervisor.username && supervisor.password && supervisor.reason.trim();
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="flex items-center justify-center w-10 h-10 bg-orange-100 rounded-lg">
+            <ShieldAlert className="w-6 h-6 text-orange-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Visit Policy Check</h2>
+            <p className="text-sm text-gray-600">
+              {result.resident
+                ? `Rules for ${result.resident.firstName} ${result.resident.lastName} (Room ${result.resident.room})`
+                : visitorData.visitorMeetingSelection === 'resident'
+                  ? 'Resident rules could not be confirmed'
+                  : 'Watchlist and occupancy screening'}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          {result.violations.map(violation => (
+            <div
+              key={`${violation.rule}-${violation.familyMemberId || 'visitor'}-${violation.watchlistMatch?.entry.id || violation.message}`}
+              className={`flex items-start space-x-3 p-4 border rounded-lg ${violationStyles[violation.action]}`}
+            >
+              {violation.action === 'block' ? (
+                <Ban className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              )}
+              <p className="text-sm font-medium flex-1">{violation.message}</p>
+              {/* Only the registered visitor has a photo on file to compare */}
+              {violation.watchlistMatch && (violation.watchlistMatch.entry.photoUrl || (visitorData.photoUrl && !violation.familyMemberId)) && (
+                <div className="flex space-x-2 flex-shrink-0">
+                  {violation.watchlistMatch.entry.photoUrl && (
+                    <figure className="text-center">
+                      <img src={violation.watchlistMatch.entry.photoUrl} alt="Watchlist photo" className="w-16 h-16 object-cover rounded" />
+                      <figcaption className="text-xs mt-1">Listed</figcaption>
+                    </figure>
+                  )}
+                  {visitorData.photoUrl && !violation.familyMemberId && (
+                    <figure className="text-center">
+                      <img src={visitorData.photoUrl} alt="Visitor photo" className="w-16 h-16 object-cover rounded" />
+                      <figcaption className="text-xs mt-1">Visitor</figcaption>
+                    </figure>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {result.action === 'block' && (
+          <div className="bg-red-100 p-4 rounded-lg mb-6">
+            <p className="text-red-800 font-medium">This visit cannot be checked in.</p>
+          </div>
+        )}
+
+        {result.action === 'override' && (
+          <form onSubmit={handleOverride} className="bg-gray-50 p-4 rounded-lg space-y-4 mb-6">
+            <h3 className="font-medium text-gray-900 flex items-center">
+              <Lock className="w-4 h-4 mr-2" />
+              Supervisor Override
+            </h3>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block font-medium text-gray-700 mb-2">
+                  Supervisor Username *
+                </label>
+                <input
+                  type="text"
+                  value={supervisor.username}
+                  onChange={(e) => setSupervisor(prev => ({ ...prev, username: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoComplete="off"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-2">
+                  Password *
+                </label>
+                <input
+                  type="password"
+                  value={supervisor.password}
+                  onChange={(e) => setSupervisor(prev => ({ ...prev, password: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block font-medium text-gray-700 mb-2">
+                Reason for Override *
+              </label>
+              <textarea
+                value={supervisor.reason}
+                onChange={(e) => setSupervisor(prev => ({ ...prev, reason: e.target.value }))}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g., End-of-life visit approved by charge nurse"
+                required
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={!isOverrideValid || isVerifying}
+                className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+                  isOverrideValid && !isVerifying
+                    ? 'bg-orange-600 hover:bg-orange-700 text-white'
+                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                {isVerifying ? 'Verifying...' : 'Approve Override'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Navigation */}
+        <div className="flex items-center justify-between pt-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onBack}
+            className="px-6 py-2 text-gray-600 hover:text-gray-800 font-medium"
+          >
+            Back
+          </button>
+
+          {result.action === 'warn' && (
+            <button
+              onClick={() => onApproved()}
+              className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+            >
+              <ShieldCheck className="w-5 h-5" />
+              <span>Acknowledge & Continue</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -6,14 +6,16 @@ interface FamilyMembersFormProps {
   onComplete: (familyMembers: FamilyMember[]) => void;
   onBack: () => void;
   onSkip: () => void;
+  initialMembers?: FamilyMember[]; // Kept when the desk comes back from the policy check to change the party
 }
 
 export const FamilyMembersForm: React.FC<FamilyMembersFormProps> = ({
   onComplete,
   onBack,
-  onSkip
+  onSkip,
+  initialMembers = []
 }) => {
-  const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
+  const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>(initialMembers);
   const [showAddForm, setShowAddForm] = useState(false);
   const [currentMember, setCurrentMember] = useState({
     firstName: '',
@@ -43,15 +45,15 @@ export const FamilyMembersForm: React.FC<FamilyMembersFormProps> = ({
     }
 
     const newMember: FamilyMember = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       firstName: currentMember.firstName,
       lastName: currentMember.lastName,
       relationship: currentMember.relationship,
       age: currentMember.age ? parseInt(currentMember.age) : undefined,
       phone: currentMember.phone || undefined,
       email: currentMember.email || undefined,
-      badgeNumber: `FM${Date.now()}`, // Generate badge number
-      visitorId: `FM${Date.now()}`, // Generate visitor ID
+      badgeNumber: '', // Allocated at check-in
+      visitorId: '',
       checkInTime: new Date()
     };
 
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Html5QrcodeScanner } from 'html5-qrcode';
-import { X, Camera, AlertCircle } from 'lucide-react';
+import { X, Camera, AlertCircle, ShieldAlert } from 'lucide-react';
+import { badgeCodeService } from '../../services/badgeCodeService';
 
 interface QRCodeScannerProps {
   onScanSuccess: (decodedText: string) => void;
@@ -11,6 +12,9 @@ export const QRCodeScanner: React.FC<QRCodeScannerProps> = ({ onScanSuccess, onC
   const scannerRef = useRef<Html5QrcodeScanner | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
+  // The camera keeps decoding the same code many times a second; verify each one once
+  const lastScannedRef = useRef<string | null>(null);
 
   useEffect(() => {
     const startScanner = async () => {
@@ -28,9 +32,18 @@ export const QRCodeScanner: React.FC<QRCodeScannerProps> = ({ onScanSuccess, onC
           false
         );
 
-        scannerRef.current.render((decodedText) => {
-          onScanSuccess(decodedText);
-        }, (errorMessage) => {
+        scannerRef.current.render(async (decodedText) => {
+          if (decodedText === lastScannedRef.current) return;
+          lastScannedRef.current = decodedText;
+
+          const verification = await badgeCodeService.verify(decodedText);
+          if (verification.valid) {
+            setRejection(null);
+            onScanSuccess(decodedText);
+          } else {
+            setRejection(verification.reason);
+          }
+        }, () => {
           // Ignore scanning errors, they're normal during scanning
         });
 
@@ -88,6 +101,12 @@ export const QRCodeScanner: React.FC<QRCodeScannerProps> = ({ onScanSuccess, onC
           ) : (
             <div className="text-center">
               <div id="qr-reader" className="mb-4"></div>
+              {rejection && (
+                <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 mb-3 text-left">
+                  <ShieldAlert className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-700">{rejection}</p>
+                </div>
+              )}
               <p className="text-sm text-gray-600">
                 Position the QR code within the scanning area
               </p>
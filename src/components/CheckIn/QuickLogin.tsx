@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { QrCode, User, Search, AlertCircle, CheckCircle, Camera } from 'lucide-react';
-import { Visitor } from '../../types';
+import { QrCode, User, Search, AlertCircle, CheckCircle, Camera, Edit } from 'lucide-react';
+import { Visitor, VisitorProfileUpdate } from '../../types';
 import { visitorService } from '../../services/visitorService';
 import { QRCodeScanner } from './QRCodeScanner';
 
@@ -17,11 +17,15 @@ export const QuickLogin: React.FC<QuickLoginProps> = ({ onVisitorFound, onNewVis
   const [error, setError] = useState<string | null>(null);
   const [foundVisitor, setFoundVisitor] = useState<Visitor | null>(null);
   const [showScanner, setShowScanner] = useState(false);
+  const [editingContact, setEditingContact] = useState(false);
+  const [contactForm, setContactForm] = useState<VisitorProfileUpdate>({});
+  const [savingContact, setSavingContact] = useState(false);
 
   const handleSearch = async () => {
     setLoading(true);
     setError(null);
     setFoundVisitor(null);
+    setEditingContact(false);
 
     try {
       let visitor: Visitor | null = null;
@@ -40,7 +44,13 @@ export const QuickLogin: React.FC<QuickLoginProps> = ({ onVisitorFound, onNewVis
           return;
         }
         console.log('Searching for QR code data:', qrCodeData.trim());
-        visitor = await visitorService.findVisitorByQRCode(qrCodeData.trim());
+        try {
+          visitor = await visitorService.findVisitorByQRCode(qrCodeData.trim());
+        } catch (err) {
+          // Forged, expired and revoked codes are rejected with the reason
+          setError(err instanceof Error ? err.message : 'This QR code could not be verified.');
+          return;
+        }
         console.log('QR search result:', visitor);
       }
 
@@ -65,6 +75,41 @@ export const QuickLogin: React.FC<QuickLoginProps> = ({ onVisitorFound, onNewVis
     }
   };
 
+  const handleEditContact = () => {
+    if (!foundVisitor) return;
+    setContactForm({
+      phone: foundVisitor.phone,
+      email: foundVisitor.email,
+      emergencyContact: foundVisitor.emergencyContact,
+      emergencyPhone: foundVisitor.emergencyPhone
+    });
+    setEditingContact(true);
+  };
+
+  // Saved on the profile, so every past and future visit shows the new details
+  const handleSaveContact = async () => {
+    if (!foundVisitor?.profileId) return;
+    setSavingContact(true);
+    setError(null);
+
+    try {
+      const profile = await visitorService.updateVisitorProfile(foundVisitor.profileId, contactForm);
+      setFoundVisitor({
+        ...foundVisitor,
+        phone: profile.phone,
+        email: profile.email,
+        emergencyContact: profile.emergencyContact,
+        emergencyPhone: profile.emergencyPhone
+      });
+      setEditingContact(false);
+    } catch (err) {
+      console.error('Contact update error:', err);
+      setError('Could not update contact details. Please try again.');
+    } finally {
+      setSavingContact(false);
+    }
+  };
+
   const handleNewVisitor = () => {
     onNewVisitor();
   };
@@ -199,15 +244,70 @@ export const QuickLogin: React.FC<QuickLoginProps> = ({ onVisitorFound, onNewVis
                 <div className="space-y-1 text-sm text-green-800">
                   <p><strong>Name:</strong> {foundVisitor.firstName} {foundVisitor.lastName}</p>
                   <p><strong>ID:</strong> {foundVisitor.visitorIdNumber}</p>
+                  <p><strong>Phone:</strong> {foundVisitor.phone || '—'}</p>
+                  <p><strong>Emergency Contact:</strong> {foundVisitor.emergencyContact || '—'} {foundVisitor.emergencyPhone}</p>
                   <p><strong>Resident:</strong> {foundVisitor.residentName} (Room {foundVisitor.residentRoom})</p>
                   <p><strong>Last Visit:</strong> {foundVisitor.checkInTime.toLocaleDateString()}</p>
                 </div>
-                <button
-                  onClick={handleContinue}
-                  className="mt-3 bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-lg font-medium text-sm"
-                >
-                  Continue to Add family members
-                </button>
+
+                {editingContact && (
+                  <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {([
+                      ['phone', 'Phone', 'tel'],
+                      ['email', 'Email', 'email'],
+                      ['emergencyContact', 'Emergency Contact', 'text'],
+                      ['emergencyPhone', 'Emergency Phone', 'tel']
+                    ] as const).map(([field, label, type]) => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-green-900 mb-1">{label}</label>
+                        <input
+                          type={type}
+                          value={contactForm[field] || ''}
+                          onChange={(e) => setContactForm(prev => ({ ...prev, [field]: e.target.value }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {editingContact ? (
+                    <>
+                      <button
+                        onClick={handleSaveContact}
+                        disabled={savingContact}
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white py-2 px-4 rounded-lg font-medium text-sm"
+                      >
+                        {savingContact ? 'Saving...' : 'Save Contact Details'}
+                      </button>
+                      <button
+                        onClick={() => setEditingContact(false)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-4 rounded-lg font-medium text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={handleContinue}
+                        className="bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-lg font-medium text-sm"
+                      >
+                        Continue to Add family members
+                      </button>
+                      {foundVisitor.profileId && (
+                        <button
+                          onClick={handleEditContact}
+                          className="inline-flex items-center bg-white hover:bg-gray-50 text-green-800 border border-green-300 py-2 px-4 rounded-lg font-medium text-sm"
+                        >
+                          <Edit className="w-4 h-4 mr-1" />
+                          Update Contact Details
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
               </div>
             </div>
           </div>
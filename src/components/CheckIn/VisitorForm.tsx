@@ -1,18 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { User, Phone, Mail, Home, Camera, UserCheck, X, Calendar, Clock } from 'lucide-react';
-import { Visitor } from '../../types';
+import { Visitor, Resident } from '../../types';
+import { residentService } from '../../services/residentService';
 
 interface VisitorFormProps {
   onNext: (visitorData: Partial<Visitor>) => void;
+  initialData?: Partial<Visitor>; // e.g. from a booked appointment
 }
 
-export const VisitorForm: React.FC<VisitorFormProps> = ({ onNext }) => {
-  const [formData, setFormData] = useState({
+// Only fields the form already has are prefilled, so the submitted data keeps its shape
+const withInitialData = <T extends Record<string, unknown>>(defaults: T, initialData?: Partial<Visitor>): T => ({
+  ...defaults,
+  ...Object.fromEntries(
+    Object.entries(initialData || {}).filter(([key, value]) => key in defaults && value !== undefined && value !== null)
+  ),
+});
+
+export const VisitorForm: React.FC<VisitorFormProps> = ({ onNext, initialData }) => {
+  const [formData, setFormData] = useState(() => withInitialData({
     firstName: '',
     lastName: '',
     email: '',
     phone: '',
     relationship: '',
+    residentId: '',
     residentName: '',
     residentRoom: '',
     emergencyContact: '',
@@ -30,10 +41,11 @@ export const VisitorForm: React.FC<VisitorFormProps> = ({ onNext }) => {
     visitPurposeOther: '',
     appointmentType: 'walk-in' as Visitor['appointmentType'],
     appointmentTime: ''
-  });
+  }, initialData));
 
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [residents, setResidents] = useState<Resident[]>([]);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -167,6 +179,20 @@ export const VisitorForm: React.FC<VisitorFormProps> = ({ onNext }) => {
     }
   };
 
+  useEffect(() => {
+    residentService.getAllResidents().then(setResidents);
+  }, []);
+
+  const handleResidentSelect = (residentId: string) => {
+    const resident = residents.find(r => r.id === residentId);
+    setFormData(prev => ({
+      ...prev,
+      residentId: resident?.id || '',
+      residentName: resident ? residentService.getResidentDisplayName(resident) : '',
+      residentRoom: resident?.room || ''
+    }));
+  };
+
   // Cleanup camera on component unmount
   useEffect(() => {
     return () => {
@@ -182,7 +208,8 @@ export const VisitorForm: React.FC<VisitorFormProps> = ({ onNext }) => {
   const isFormValid = formData.firstName && formData.lastName && formData.phone && 
     formData.visitorIdNumber && formData.visitorMeetingSelection && formData.visitPurpose &&
     formData.emergencyContact && formData.emergencyPhone &&
-    (formData.visitorMeetingSelection !== 'resident' || (formData.residentName && formData.residentRoom));
+    (formData.visitorMeetingSelection !== 'resident' ||
+      (residents.length > 0 ? formData.residentId : (formData.residentName && formData.residentRoom)));
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -520,33 +547,67 @@ export const VisitorForm: React.FC<VisitorFormProps> = ({ onNext }) => {
                 <Home className="w-4 h-4 mr-2" />
                 Resident Information
               </h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label className="block font-medium text-gray-700 mb-2">
-                    Resident Name *
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.residentName}
-                    onChange={(e) => setFormData(prev => ({ ...prev, residentName: e.target.value }))}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    required
-                  />
+              {residents.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block font-medium text-gray-700 mb-2">
+                      Resident *
+                    </label>
+                    <select
+                      value={formData.residentId}
+                      onChange={(e) => handleResidentSelect(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      required
+                    >
+                      <option value="">Select resident</option>
+                      {residents.map(resident => (
+                        <option key={resident.id} value={resident.id}>
+                          {residentService.getResidentDisplayName(resident)} ({resident.room})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-gray-700 mb-2">
+                      Room Number
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.residentRoom}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg bg-gray-100 text-gray-700"
+                      readOnly
+                    />
+                  </div>
                 </div>
-                <div>
-                  <label className="block font-medium text-gray-700 mb-2">
-                    Room Number *
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.residentRoom}
-                    onChange={(e) => setFormData(prev => ({ ...prev, residentRoom: e.target.value }))}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="e.g., A-101"
-                    required
-                  />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block font-medium text-gray-700 mb-2">
+                      Resident Name *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.residentName}
+                      onChange={(e) => setFormData(prev => ({ ...prev, residentName: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block font-medium text-gray-700 mb-2">
+                      Room Number *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.residentRoom}
+                      onChange={(e) => setFormData(prev => ({ ...prev, residentRoom: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="e.g., A-101"
+                      required
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
 
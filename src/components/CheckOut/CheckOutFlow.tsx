@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Search, User, Calendar, Clock, CheckCircle, AlertCircle } from 'lucide-react';
 import { visitorService } from '../../services/visitorService';
+import { outboxService } from '../../services/outboxService';
 import { Visitor } from '../../types';
 import { CheckOutComplete } from './CheckOutComplete';
 
@@ -31,25 +32,28 @@ export const CheckOutFlow: React.FC<CheckOutFlowProps> = ({ onComplete }) => {
       // Search for active visitors by ID or badge number
       const activeVisitors = await visitorService.getActiveVisitors();
       
-      // First, try to find the main visitor
-      let visitor = activeVisitors.find(v => 
-        v.visitorIdNumber === visitorId.trim() || 
-        v.badgeNumber === visitorId.trim()
+      // First, try to find the main visitor, unless they already left ahead of their family
+      let visitor = activeVisitors.find(v =>
+        !v.primaryCheckOutTime && (
+          v.visitorIdNumber === visitorId.trim() ||
+          v.badgeNumber === visitorId.trim()
+        )
       );
 
       // If not found, check if it's a family member ID
       if (!visitor) {
         for (const v of activeVisitors) {
           if (v.familyMembers) {
-            const familyMember = v.familyMembers.find(fm => 
-              fm.visitorId === visitorId.trim() || 
-              fm.badgeNumber === visitorId.trim()
+            const familyMember = v.familyMembers.find(fm =>
+              !fm.checkOutTime && (
+                fm.visitorId === visitorId.trim() ||
+                fm.badgeNumber === visitorId.trim()
+              )
             );
             if (familyMember) {
-              // Create a visitor object for the family member
+              // Create a visitor object for the family member; the id stays the visit's
               visitor = {
                 ...v,
-                id: familyMember.id,
                 firstName: familyMember.firstName,
                 lastName: familyMember.lastName,
                 visitorIdNumber: familyMember.visitorId,
@@ -84,15 +88,11 @@ export const CheckOutFlow: React.FC<CheckOutFlowProps> = ({ onComplete }) => {
 
     try {
       if (foundVisitor.isFamilyMember && foundVisitor.familyMemberData) {
-        // Check out family member
-        await visitorService.checkOutVisitor(
-          foundVisitor.familyMemberData.visitorId, 
-          true, 
-          foundVisitor.id
-        );
+        // Check out family member; the visit closes once the last of the party has left
+        await outboxService.checkOutFamilyMember(foundVisitor.id, foundVisitor.familyMemberData.id);
       } else {
         // Check out main visitor
-        await visitorService.checkOutVisitor(foundVisitor.id);
+        await outboxService.checkOutVisitor(foundVisitor.id);
       }
       
       const now = new Date();
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Users, Clock, AlertTriangle, TrendingUp, Search, Filter, UserPlus } from 'lucide-react';
 import { VisitorCard } from './VisitorCard';
-import { Visitor } from '../../types';
+import { Visitor, VisitDurationSettings } from '../../types';
 import { visitorService } from '../../services/visitorService';
+import { outboxService } from '../../services/outboxService';
+import { visitDurationService } from '../../services/visitDurationService';
 
 interface DashboardProps {
   emergencyMode: boolean;
@@ -31,9 +33,19 @@ export const Dashboard: React.FC<DashboardProps> = ({
     return () => unsubscribe();
   }, []);
 
+  const [durations, setDurations] = useState<VisitDurationSettings | null>(null);
+  const [now, setNow] = useState(new Date());
+  useEffect(() => visitDurationService.subscribe(setDurations), []);
+
+  // Overstays are time based, so re-evaluate every minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   const handleCheckOut = async (visitorId: string) => {
     try {
-      await visitorService.checkOutVisitor(visitorId);
+      await outboxService.checkOutParty(visitorId);
     } catch (error) {
       console.error('Error checking out visitor:', error);
     }
@@ -227,6 +239,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
               visitor={visitor}
               onCheckOut={handleCheckOut}
               emergencyMode={emergencyMode}
+              overstayMinutes={durations && visitDurationService.getOverstayMinutes(visitor, durations, now)}
             />
           ))}
         </div>
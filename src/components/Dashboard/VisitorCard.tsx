@@ -1,18 +1,21 @@
 import React from 'react';
-import { Clock, MapPin, Phone, AlertCircle, CheckCircle, LogOut, Shield } from 'lucide-react';
+import { Clock, MapPin, Phone, AlertCircle, CheckCircle, LogOut, Shield, Hourglass } from 'lucide-react';
 import { Visitor } from '../../types';
 import { formatDistanceToNow } from 'date-fns';
+import { visitDurationService } from '../../services/visitDurationService';
 
 interface VisitorCardProps {
   visitor: Visitor;
   onCheckOut: (visitorId: string) => void;
   emergencyMode: boolean;
+  overstayMinutes?: number | null; // Minutes past the access level's maximum visit length
 }
 
 export const VisitorCard: React.FC<VisitorCardProps> = ({
   visitor,
   onCheckOut,
-  emergencyMode
+  emergencyMode,
+  overstayMinutes
 }) => {
   const getAccessLevelColor = (level: Visitor['accessLevel']) => {
     const colors = {
@@ -42,7 +45,7 @@ export const VisitorCard: React.FC<VisitorCardProps> = ({
 
   return (
     <div className={`bg-white rounded-lg shadow-md border-l-4 transition-all hover:shadow-lg ${
-      emergencyMode ? 'border-l-red-500' : 'border-l-blue-500'
+      emergencyMode ? 'border-l-red-500' : overstayMinutes ? 'border-l-amber-500' : 'border-l-blue-500'
     }`}>
       <div className="p-6">
         {/* Header */}
@@ -118,6 +121,12 @@ export const VisitorCard: React.FC<VisitorCardProps> = ({
           <div className="flex items-center space-x-2 text-gray-600">
             <Clock className="w-4 h-4" />
             <span className="text-sm">Checked in {timeInFacility}</span>
+            {overstayMinutes && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                <Hourglass className="w-3 h-3" />
+                {visitDurationService.formatOverstay(overstayMinutes)}
+              </span>
+            )}
           </div>
           <div className="text-sm text-gray-500">
             {visitor.checkInTime.toLocaleTimeString('en-US', {
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle, XCircle, Printer, Search, Users } from 'lucide-react';
+import { EmergencySession, RollCallEntry, RollCallStatus, User } from '../../types';
+import { emergencyService, EMERGENCY_TYPES } from '../../services/emergencyService';
+import { authService } from '../../services/authService';
+import { usePermission } from '../../hooks/usePermission';
+
+interface EmergencyRollCallProps {
+  session: EmergencySession | null;
+  currentUser: User;
+  onClose: () => void;
+}
+
+type RollCallFilter = 'all' | RollCallStatus;
+
+const statusStyles: Record<RollCallStatus, string> = {
+  unaccounted: 'border-gray-200 bg-white',
+  accounted: 'border-green-300 bg-green-50',
+  missing: 'border-red-300 bg-red-50'
+};
+
+export const EmergencyRollCall: React.FC<EmergencyRollCallProps> = ({ session, currentUser, onClose }) => {
+  const [filter, setFilter] = useState<RollCallFilter>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+  const [endedSession, setEndedSession] = useState<EmergencySession | null>(null);
+  const [isEnding, setIsEnding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canManageEmergency = usePermission('emergency_evacuation');
+
+  useEffect(() => {
+    // Only user managers can list staff; everyone else sees IDs except for themselves
+    authService.getAllUsers()
+      .then(users => setStaffNames(Object.fromEntries(users.map(u => [u.id, `${u.firstName} ${u.lastName}`]))))
+      .catch(() => setStaffNames({ [currentUser.id]: `${currentUser.firstName} ${currentUser.lastName}` }));
+  }, [currentUser]);
+
+  const handleMark = async (entry: RollCallEntry, status: RollCallStatus) => {
+    if (!session) return;
+    setError(null);
+
+    try {
+      await emergencyService.markRollCall(session.id, entry, entry.status === status ? 'unaccounted' : status, currentUser.id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to update roll call');
+    }
+  };
+
+  const handleEnd = async () => {
+    if (!session) return;
+    const { unaccounted, missing } = emergencyService.getCounts(session);
+    const warning = unaccounted + missing > 0
+      ? `${unaccounted} people are not checked and ${missing} are missing. They will stay checked in. End the emergency anyway?`
+      : 'End the emergency and close all evacuated visits?';
+    if (!confirm(warning)) return;
+
+    setIsEnding(true);
+    setError(null);
+
+    try {
+      const ended = await emergencyService.endSession(session.id, currentUser);
+      setEndedSession(ended);
+      emergencyService.printIncidentReport(ended, staffNames);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to end emergency');
+    } finally {
+      setIsEnding(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">No Active Emergency</h2>
+          <p className="text-gray-600 mb-6">
+            {endedSession ? 'The emergency has ended. Print the incident report for your records.' : 'Emergency mode is not active.'}
+          </p>
+          <div className="flex justify-center space-x-3">
+            {endedSession && (
+              <button
+                onClick={() => emergencyService.printIncidentReport(endedSession, staffNames)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Print Incident Report
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const counts = emergencyService.getCounts(session);
+  const term = searchTerm.trim().toLowerCase();
+  const entries = Object.values(session.rollCall)
+    .filter(entry => filter === 'all' || entry.status === filter)
+    .filter(entry => !term || entry.name.toLowerCase().includes(term) || entry.badgeNumber.toLowerCase().includes(term))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const filters: { value: RollCallFilter; label: string; count: number }[] = [
+    { value: 'all', label: 'Everyone', count: counts.total },
+    { value: 'unaccounted', label: 'Not Checked', count: counts.unaccounted },
+    { value: 'accounted', label: 'Accounted For', count: counts.accounted },
+    { value: 'missing', label: 'Missing', count: counts.missing }
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="bg-red-600 text-white rounded-lg shadow-lg p-6 mb-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <AlertTriangle className="w-10 h-10 animate-pulse" />
+            <div>
+              <h2 className="text-2xl font-bold">
+                {EMERGENCY_TYPES.find(t => t.value === session.type)?.label} Emergency — Roll Call
+              </h2>
+              <p className="text-red-100">
+                Started {format(session.startTime, 'HH:mm')} · {session.description}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => emergencyService.printIncidentReport(session, staffNames)}
+              className="inline-flex items-center px-4 py-2 bg-red-700 rounded-md font-medium hover:bg-red-800"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </button>
+            {canManageEmergency && (
+              <button
+                onClick={handleEnd}
+                disabled={isEnding}
+                className="bg-white text-red-600 px-6 py-2 rounded-md font-bold hover:bg-gray-100 disabled:opacity-50"
+              >
+                {isEnding ? 'Ending...' : 'End Emergency'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {filters.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                filter === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label} ({option.count})
+            </button>
+          ))}
+        </div>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Name or badge"
+            className="pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-10 text-center text-gray-500">
+          <Users className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+          {counts.total === 0 ? 'Nobody was checked in when the emergency started.' : 'Nobody matches this filter.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {entries.map(entry => (
+            <div key={entry.key} className={`border-2 rounded-lg p-4 ${statusStyles[entry.status]}`}>
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <div className="font-semibold text-gray-900">{entry.name}</div>
+                  <div className="text-sm text-gray-600">
+                    {entry.familyMemberId ? 'Family member · ' : ''}Badge {entry.badgeNumber || '—'}
+                  </div>
+                  {entry.residentName && (
+                    <div className="text-sm text-gray-500">
+                      Visiting {entry.residentName}{entry.roomNumber ? ` · Room ${entry.roomNumber}` : ''}
+                    </div>
+                  )}
+                </div>
+                {entry.markedAt && (
+                  <div className="text-xs text-gray-500 text-right">
+                    {format(entry.markedAt, 'HH:mm:ss')}<br />
+                    {staffNames[entry.markedBy || ''] || ''}
+                  </div>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleMark(entry, 'accounted')}
+                  disabled={!canManageEmergency}
+                  className={`flex-1 inline-flex items-center justify-center px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${
+                    entry.status === 'accounted' ? 'bg-green-600 text-white' : 'bg-green-50 text-green-700 border border-green-300 hover:bg-green-100'
+                  }`}
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Accounted
+                </button>
+                <button
+                  onClick={() => handleMark(entry, 'missing')}
+                  disabled={!canManageEmergency}
+                  className={`flex-1 inline-flex items-center justify-center px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${
+                    entry.status === 'missing' ? 'bg-red-600 text-white' : 'bg-red-50 text-red-700 border border-red-300 hover:bg-red-100'
+                  }`}
+                >
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Missing
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
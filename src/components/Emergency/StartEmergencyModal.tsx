@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { EmergencyType } from '../../types';
+import { EMERGENCY_TYPES } from '../../services/emergencyService';
+
+interface StartEmergencyModalProps {
+  onClose: () => void;
+  onStart: (type: EmergencyType, description: string) => Promise<void>;
+}
+
+export const StartEmergencyModal: React.FC<StartEmergencyModalProps> = ({ onClose, onStart }) => {
+  const [type, setType] = useState<EmergencyType>('fire');
+  const [description, setDescription] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await onStart(type, description);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to start emergency mode');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-red-700 flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              Start Emergency Mode
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Emergency Type
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as EmergencyType)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+              >
+                {EMERGENCY_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description *
+              </label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+                placeholder="e.g., Fire alarm triggered in east wing"
+              />
+            </div>
+
+            <p className="text-sm text-gray-600">
+              Every signed-in terminal switches to emergency mode and a roll call of everyone on site is started.
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!description.trim() || isLoading}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Starting...' : 'Start Emergency'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
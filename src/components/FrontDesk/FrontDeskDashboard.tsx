@@ -1,16 +1,27 @@
 // src/components/FrontDesk/FrontDeskDashboard.tsx
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
   Users, Clock, LogOut, Search, AlertTriangle, UserPlus, Download,
-  Calendar, CheckSquare, Square, Trash2, Cloud
+  Calendar, CheckSquare, Square, Trash2, Cloud, QrCode, ScanLine, CalendarDays, Hourglass
 } from 'lucide-react';
 import DatePicker from 'react-datepicker';
 import { format, startOfDay, endOfDay, isWithinInterval } from 'date-fns';
 import "react-datepicker/dist/react-datepicker.css";
 import { googleDriveService } from '../../services/googleDriveService';
-import { Visitor } from '../../types';
+import { Appointment, OccupancyStatus, PreRegistration, VisitDurationSettings, Visitor } from '../../types';
 import { visitorService } from '../../services/visitorService';
+import { outboxService } from '../../services/outboxService';
+import { badgeCodeService } from '../../services/badgeCodeService';
+import { preRegistrationService } from '../../services/preRegistrationService';
+import { QRCodeScanner } from '../CheckIn/QRCodeScanner';
+import { CheckInFlow } from '../CheckIn/CheckInFlow';
+import { AppointmentCalendar } from '../Appointments/AppointmentCalendar';
+import { ExpectedArrivalsBoard } from '../Appointments/ExpectedArrivalsBoard';
+import { OccupancyGauge } from './OccupancyGauge';
+import { occupancyService } from '../../services/occupancyService';
+import { visitDurationService } from '../../services/visitDurationService';
+import { usePermission } from '../../hooks/usePermission';
 
 const formatDateTime = (date: Date | null) => {
   if (!date) return '';
@@ -24,17 +35,37 @@ const formatDateTime = (date: Date | null) => {
   });
 };
 
+// The registered visitor's own status; the visit's status only says how the last of the party left
+const primaryStatus = (v: Visitor): string => {
+  if (!v.primaryCheckOutTime) return v.status || '';
+  const closedWithVisit = v.primaryCheckOutTime.getTime() === v.checkOutTime?.getTime();
+  return closedWithVisit ? v.status : 'checked-out';
+};
+
 const exportToExcel = (visitors: Visitor[], filename: string = 'Visitors_Report') => {
   const headers = ['Full Name', 'Phone Number', 'Visiting Resident', 'Room', 'Check-in Time', 'Check-out Time', 'Status', 'Visitor ID'];
-  const rows = visitors.map(v => [
-    v.fullName || '',
-    v.phoneNumber || '',
-    v.residentName || '',
-    v.roomNumber || '',
-    v.checkInTime ? formatDateTime(v.checkInTime) : '',
-    v.checkOutTime ? formatDateTime(v.checkOutTime) : '',
-    v.status || '',
-    v.visitorIdNumber || '',
+  // Family members get their own rows so each person's times and status can be reported on
+  const rows = visitors.flatMap(v => [
+    [
+      `${v.firstName} ${v.lastName}`.trim(),
+      v.phone || '',
+      v.residentName || '',
+      v.residentRoom || '',
+      v.checkInTime ? formatDateTime(v.checkInTime) : '',
+      formatDateTime(v.primaryCheckOutTime || v.checkOutTime || null),
+      primaryStatus(v),
+      v.visitorIdNumber || '',
+    ],
+    ...(v.familyMembers || []).map(member => [
+      `${member.firstName} ${member.lastName} (with ${v.firstName} ${v.lastName})`,
+      member.phone || '',
+      v.residentName || '',
+      v.residentRoom || '',
+      member.checkInTime ? formatDateTime(member.checkInTime) : '',
+      formatDateTime(member.checkOutTime || null),
+      member.status || '',
+      member.visitorId || '',
+    ]),
   ]);
 
   const csvContent = [
@@ -74,6 +105,40 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
   // Selection state
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectAll, setSelectAll] = useState(false);
+  const canCheckOut = usePermission('check_out_visitors');
+  const canExport = usePermission('export_reports');
+  const canBackup = usePermission('manage_backups');
+  const canManageVisitors = usePermission('manage_visitors');
+  const canCheckIn = usePermission('check_in_visitors');
+
+  // Pre-registered visitor being checked in after their pass was scanned
+  const [showPassScanner, setShowPassScanner] = useState(false);
+  const [arrival, setArrival] = useState<PreRegistration | null>(null);
+
+  // Appointment picked from the expected-arrivals board
+  const [appointmentArrival, setAppointmentArrival] = useState<Appointment | null>(null);
+  const [showCalendar, setShowCalendar] = useState(false);
+
+  const [occupancy, setOccupancy] = useState<OccupancyStatus | null>(null);
+  useEffect(() => occupancyService.subscribe(setOccupancy), []);
+
+  // Overstays are time based, so re-evaluate every minute
+  const [durations, setDurations] = useState<VisitDurationSettings | null>(null);
+  const [now, setNow] = useState(new Date());
+  useEffect(() => visitDurationService.subscribe(setDurations), []);
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const getOverstay = useCallback(
+    (visitor: Visitor) => (durations ? visitDurationService.getOverstayMinutes(visitor, durations, now) : null),
+    [durations, now]
+  );
+  const overstayingVisitors = useMemo(
+    () => activeVisitors.filter(visitor => getOverstay(visitor) !== null),
+    [activeVisitors, getOverstay]
+  );
 
   useEffect(() => {
     const unsubscribeActive = visitorService.subscribeToActiveVisitors((visitors) => {
@@ -113,10 +178,10 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
     const search = searchTerm.toLowerCase();
     return filteredByDate
       .filter(visitor =>
-        visitor.fullName?.toLowerCase().includes(search) ||
-        visitor.phoneNumber?.includes(search) ||
+        `${visitor.firstName} ${visitor.lastName}`.toLowerCase().includes(search) ||
+        visitor.phone?.includes(search) ||
         visitor.residentName?.toLowerCase().includes(search) ||
-        visitor.roomNumber?.toLowerCase().includes(search) ||
+        visitor.residentRoom?.toLowerCase().includes(search) ||
         visitor.visitorIdNumber?.toLowerCase().includes(search)
       )
       .sort((a, b) => (b.checkInTime?.getTime() || 0) - (a.checkInTime?.getTime() || 0));
@@ -153,10 +218,17 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
     setSelectedIds(newSet);
   };
 
-  const handleSingleCheckOut = async (visitorId: string) => {
-    if (!window.confirm('Check out this visitor?')) return;
+  const handleSingleCheckOut = async (visitor: Visitor) => {
+    const visitorId = visitor.id;
+    const stillInside = (visitor.familyMembers || []).filter(member => !member.checkOutTime).length;
+    const prompt = stillInside > 0
+      ? `Check out this visitor and the ${stillInside} family member(s) still with them?`
+      : 'Check out this visitor?';
+    if (!window.confirm(prompt)) return;
     try {
-      await visitorService.checkOutVisitor(visitorId);
+      if (await outboxService.checkOutParty(visitorId)) {
+        alert('The connection is down. The check-out is saved and will sync when it returns.');
+      }
       setSelectedIds(prev => {
         const next = new Set(prev);
         next.delete(visitorId);
@@ -167,16 +239,51 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
     }
   };
 
+  const handleFamilyMemberCheckOut = async (visitorId: string, familyMemberId: string) => {
+    if (!window.confirm('Check out this family member?')) return;
+    try {
+      if (await outboxService.checkOutFamilyMember(visitorId, familyMemberId)) {
+        alert('The connection is down. The check-out is saved and will sync when it returns.');
+      }
+    } catch {
+      alert('Checkout failed. Please try again.');
+    }
+  };
+
+  // For lost or stolen badges: the code stops working at every scanner, the visitor ID number still works
+  const handleRevokeBadgeCode = async (visitor: Visitor) => {
+    if (!visitor.qrCodeId) return;
+    const reason = window.prompt('Why is this QR code being revoked? (e.g. badge lost)');
+    if (reason === null) return;
+    try {
+      await badgeCodeService.revoke(visitor.qrCodeId, reason.trim());
+      alert('QR code revoked. It will be rejected at every scanner.');
+    } catch {
+      alert('Could not revoke the QR code. Please try again.');
+    }
+  };
+
+  const handlePassScanned = useCallback(async (code: string) => {
+    setShowPassScanner(false);
+    try {
+      setArrival(await preRegistrationService.findByPass(code));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'This pass could not be checked. Please try again.');
+    }
+  }, []);
+
   const handleBulkCheckOut = async () => {
     if (selectedIds.size === 0) return;
     if (!window.confirm(`Check out ${selectedIds.size} visitor(s)?`)) return;
 
     try {
-      await Promise.all(
-        Array.from(selectedIds).map(id => visitorService.checkOutVisitor(id))
-      );
+      const queued = (await Promise.all(
+        Array.from(selectedIds).map(id => outboxService.checkOutParty(id))
+      )).filter(Boolean).length;
       setSelectedIds(new Set());
-      alert(`${selectedIds.size} visitors checked out successfully!`);
+      alert(queued > 0
+        ? `${selectedIds.size} visitors checked out. The connection is down, so ${queued} will sync when it returns.`
+        : `${selectedIds.size} visitors checked out successfully!`);
     } catch (err) {
       alert('Some checkouts failed. Please try again.');
     }
@@ -201,8 +308,44 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
     );
   }
 
+  if (arrival) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-2xl mx-auto mb-4 flex items-center justify-between px-4">
+          <p className="text-lg text-gray-700">
+            Pre-registered for <span className="font-semibold">{format(arrival.slotStart, 'PPp')}</span>
+          </p>
+          <button onClick={() => setArrival(null)} className="text-gray-600 hover:text-gray-900 font-medium">
+            Cancel
+          </button>
+        </div>
+        <CheckInFlow preRegistration={arrival} onComplete={() => setArrival(null)} />
+      </div>
+    );
+  }
+
+  if (appointmentArrival) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-2xl mx-auto mb-4 flex items-center justify-between px-4">
+          <p className="text-lg text-gray-700">
+            Appointment at <span className="font-semibold">{format(appointmentArrival.startTime, 'PPp')}</span>
+          </p>
+          <button onClick={() => setAppointmentArrival(null)} className="text-gray-600 hover:text-gray-900 font-medium">
+            Cancel
+          </button>
+        </div>
+        <CheckInFlow appointment={appointmentArrival} onComplete={() => setAppointmentArrival(null)} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
+      {showPassScanner && (
+        <QRCodeScanner onScanSuccess={handlePassScanned} onClose={() => setShowPassScanner(false)} />
+      )}
+
       {/* Emergency Banner */}
       {emergencyMode && (
         <div className="bg-red-600 text-white px-6 py-4 shadow-lg">
@@ -216,13 +359,32 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
             </div>
             {onEmergencyToggle && (
               <button onClick={onEmergencyToggle} className="bg-white text-red-600 px-8 py-3 rounded-xl font-bold text-lg hover:bg-gray-100 transition">
-                Deactivate Emergency
+                Open Roll Call
               </button>
             )}
           </div>
         </div>
       )}
 
+      {/* Overstay Alert */}
+      {overstayingVisitors.length > 0 && (
+        <div className="bg-amber-500 text-white px-6 py-4 shadow-lg">
+          <div className="max-w-7xl mx-auto flex items-start gap-4">
+            <Hourglass className="w-10 h-10 flex-shrink-0" />
+            <div>
+              <h2 className="text-2xl font-bold">
+                {overstayingVisitors.length} visitor{overstayingVisitors.length !== 1 ? 's have' : ' has'} stayed longer than expected
+              </h2>
+              <p className="text-lg">
+                {overstayingVisitors
+                  .map(visitor => `${visitor.firstName} ${visitor.lastName} (${visitDurationService.formatOverstay(getOverstay(visitor)!)})`)
+                  .join(' · ')}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="px-4 py-8 lg:px-8 xl:px-12 2xl:px-20">
         {/* Header */}
         <div className="mb-10 bg-white rounded-3xl shadow-xl p-8">
@@ -280,6 +442,16 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
           </div>
         </div>
 
+        <OccupancyGauge status={occupancy} />
+
+        <ExpectedArrivalsBoard onCheckIn={setAppointmentArrival} />
+
+        {showCalendar && (
+          <div className="mb-10">
+            <AppointmentCalendar />
+          </div>
+        )}
+
         {/* Action Bar */}
         {selectedIds.size > 0 && (
           <div className="mb-6 bg-red-50 border-2 border-red-300 rounded-2xl p-6 flex items-center justify-between">
@@ -325,27 +497,47 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
 
           <div className="flex gap-4">
             <button
-              onClick={async () => {
-                try {
-                  await googleDriveService.ensureAuthorized();
-                  await googleDriveService.createBackup();
-                  alert('Backup successful! File saved to Google Drive.');
-                } catch (err: any) {
-                  alert('Backup failed: ' + (err.message || 'Unknown error'));
-                }
-              }}
-              className="flex items-center gap-4 px-10 py-5 rounded-2xl font-bold text-xl shadow-xl bg-blue-600 hover:bg-blue-700 text-white transition-all hover:scale-105"
+              onClick={() => setShowCalendar(prev => !prev)}
+              className="flex items-center gap-4 px-10 py-5 rounded-2xl font-bold text-xl shadow-xl bg-indigo-600 hover:bg-indigo-700 text-white transition-all hover:scale-105"
             >
-              <Cloud className="w-8 h-8" />
-              Backup to Drive
-            </button>
-            <button
-              onClick={() => exportToExcel(displayedVisitors, `Visitors_${dateRangeText.replace(/ /g, '_')}`)}
-              className="flex items-center gap-4 px-10 py-5 rounded-2xl font-bold text-xl shadow-xl bg-green-600 hover:bg-green-700 text-white transition-all hover:scale-105"
-            >
-              <Download className="w-8 h-8" />
-              Export ({displayedVisitors.length})
+              <CalendarDays className="w-8 h-8" />
+              {showCalendar ? 'Hide Appointments' : 'Appointments'}
             </button>
+            {canCheckIn && (
+              <button
+                onClick={() => setShowPassScanner(true)}
+                className="flex items-center gap-4 px-10 py-5 rounded-2xl font-bold text-xl shadow-xl bg-purple-600 hover:bg-purple-700 text-white transition-all hover:scale-105"
+              >
+                <ScanLine className="w-8 h-8" />
+                Scan Pass
+              </button>
+            )}
+            {canBackup && (
+              <button
+                onClick={async () => {
+                  try {
+                    await googleDriveService.ensureAuthorized();
+                    await googleDriveService.createBackup();
+                    alert('Backup successful! File saved to Google Drive.');
+                  } catch (err: any) {
+                    alert('Backup failed: ' + (err.message || 'Unknown error'));
+                  }
+                }}
+                className="flex items-center gap-4 px-10 py-5 rounded-2xl font-bold text-xl shadow-xl bg-blue-600 hover:bg-blue-700 text-white transition-all hover:scale-105"
+              >
+                <Cloud className="w-8 h-8" />
+                Backup to Drive
+              </button>
+            )}
+            {canExport && (
+              <button
+                onClick={() => exportToExcel(displayedVisitors, `Visitors_${dateRangeText.replace(/ /g, '_')}`)}
+                className="flex items-center gap-4 px-10 py-5 rounded-2xl font-bold text-xl shadow-xl bg-green-600 hover:bg-green-700 text-white transition-all hover:scale-105"
+              >
+                <Download className="w-8 h-8" />
+                Export ({displayedVisitors.length})
+              </button>
+            )}
           </div>
         </div>
 
@@ -359,7 +551,7 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
                 {checkInVisitorsInView.length > 0 && ` • ${checkInVisitorsInView.length} checked in`}
               </p>
             </div>
-            {checkInVisitorsInView.length > 0 && (
+            {canCheckOut && checkInVisitorsInView.length > 0 && (
               <button
                 onClick={toggleSelectAll}
                 className="flex items-center gap-3 bg-white/20 hover:bg-white/30 px-6 py-3 rounded-xl backdrop-blur transition"
@@ -398,11 +590,12 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
                   {displayedVisitors.map((visitor) => {
                     const isCheckedIn = visitor.status === 'checked-in';
                     const isSelected = selectedIds.has(visitor.id);
+                    const overstay = getOverstay(visitor);
 
                     return (
                       <tr key={visitor.id} className={`hover:bg-blue-50 transition-colors ${isSelected ? 'bg-blue-100' : ''}`}>
                         <td className="px-6 py-6">
-                          {isCheckedIn && (
+                          {canCheckOut && isCheckedIn && (
                             <button
                               onClick={() => toggleVisitor(visitor.id)}
                               className="flex items-center justify-center"
@@ -418,19 +611,45 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
                         <td className="px-6 py-6">
                           <div className="flex items-center gap-5">
                             <div className="w-14 h-14 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold text-2xl shadow-lg">
-                              {visitor.fullName?.charAt(0).toUpperCase()}
+                              {visitor.firstName?.charAt(0).toUpperCase()}
                             </div>
                             <div>
-                              <div className="font-bold text-gray-900 text-xl">{visitor.fullName}</div>
+                              <div className="font-bold text-gray-900 text-xl">{visitor.firstName} {visitor.lastName}</div>
                               <div className="text-sm text-gray-500">ID: {visitor.visitorIdNumber}</div>
+                              {isCheckedIn && (visitor.badgeReissues || []).map(reissue => (
+                                <div key={reissue.issued} className="text-sm font-medium text-amber-700">
+                                  Swap badge {reissue.issued} for {reissue.assigned}
+                                </div>
+                              ))}
+                              {visitor.primaryCheckOutTime && isCheckedIn && (
+                                <div className="text-sm text-gray-500">Left at {format(visitor.primaryCheckOutTime, 'h:mm a')}</div>
+                              )}
+                              {(visitor.familyMembers || []).map(member => (
+                                <div key={member.id} className="flex items-center gap-2 mt-1 text-sm">
+                                  <span className={member.checkOutTime ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                                    {member.firstName} {member.lastName}
+                                  </span>
+                                  <span className="text-gray-400">{member.badgeNumber}</span>
+                                  {member.checkOutTime ? (
+                                    <span className="text-gray-400">out {format(member.checkOutTime, 'h:mm a')}</span>
+                                  ) : canCheckOut && isCheckedIn && (
+                                    <button
+                                      onClick={() => handleFamilyMemberCheckOut(visitor.id, member.id)}
+                                      className="text-red-600 hover:text-red-800 font-medium"
+                                    >
+                                      Check out
+                                    </button>
+                                  )}
+                                </div>
+                              ))}
                             </div>
                           </div>
                         </td>
-                        <td className="px-6 py-6 text-gray-700 font-medium text-lg">{visitor.phoneNumber}</td>
+                        <td className="px-6 py-6 text-gray-700 font-medium text-lg">{visitor.phone}</td>
                         <td className="px-6 py-6 text-gray-700 text-lg">{visitor.residentName || '—'}</td>
                         <td className="px-6 py-6">
                           <span className="inline-block bg-blue-100 text-blue-800 font-bold text-lg px-6 py-3 rounded-xl">
-                            {visitor.roomNumber || '—'}
+                            {visitor.residentRoom || '—'}
                           </span>
                         </td>
                         <td className="px-6 py-6 text-gray-600 text-lg">
@@ -442,20 +661,37 @@ export const FrontDeskDashboard: React.FC<FrontDeskDashboardProps> = ({
                         <td className="px-6 py-6">
                           <span className={`inline-block px-5 py-2 rounded-full font-bold text-lg ${isCheckedIn
                             ? 'bg-green-100 text-green-800'
-                            : 'bg-gray-100 text-gray-700'
+                            : visitor.status === 'auto-checked-out'
+                              ? 'bg-amber-100 text-amber-800'
+                              : 'bg-gray-100 text-gray-700'
                             }`}>
-                            {isCheckedIn ? 'Checked In' : 'Checked Out'}
+                            {isCheckedIn ? 'Checked In' : visitor.status === 'auto-checked-out' ? 'Auto Checked Out' : 'Checked Out'}
                           </span>
+                          {overstay && (
+                            <div className="mt-2 inline-flex items-center gap-1 text-sm font-semibold text-amber-700">
+                              <Hourglass className="w-4 h-4" />
+                              {visitDurationService.formatOverstay(overstay)}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-6 text-center">
-                          {isCheckedIn && (
+                          {canCheckOut && isCheckedIn && (
                             <button
-                              onClick={() => handleSingleCheckOut(visitor.id)}
+                              onClick={() => handleSingleCheckOut(visitor)}
                               className="bg-red-600 hover:bg-red-700 text-white font-bold text-lg px-8 py-4 rounded-xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all"
                             >
                               Check Out
                             </button>
                           )}
+                          {canManageVisitors && visitor.qrCodeId && (
+                            <button
+                              onClick={() => handleRevokeBadgeCode(visitor)}
+                              className="mt-3 flex items-center justify-center space-x-1 mx-auto text-sm text-gray-500 hover:text-red-600"
+                            >
+                              <QrCode className="w-4 h-4" />
+                              <span>Revoke QR</span>
+                            </button>
+                          )}
                         </td>
                       </tr>
                     );
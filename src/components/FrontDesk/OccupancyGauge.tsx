@@ -0,0 +1,67 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { OccupancyLevel, OccupancyStatus } from '../../types';
+import { occupancyService } from '../../services/occupancyService';
+
+interface OccupancyGaugeProps {
+  status: OccupancyStatus | null;
+}
+
+const BAR_COLORS = {
+  unlimited: 'bg-blue-500',
+  ok: 'bg-green-500',
+  near: 'bg-amber-500',
+  full: 'bg-red-600',
+};
+
+const LevelBar: React.FC<{ level: OccupancyLevel; large?: boolean }> = ({ level, large }) => {
+  const state = occupancyService.getLevelState(level);
+  const percent = level.limit ? Math.min(100, (level.current / level.limit.max) * 100) : 0;
+
+  return (
+    <div>
+      <div className={`flex items-baseline justify-between ${large ? 'text-xl' : 'text-sm'} font-semibold text-gray-800`}>
+        <span>{level.label}</span>
+        <span className={state === 'full' ? 'text-red-600' : undefined}>
+          {level.current}{level.limit ? ` / ${level.limit.max}` : ''}
+        </span>
+      </div>
+      <div className={`mt-1 w-full bg-gray-200 rounded-full overflow-hidden ${large ? 'h-4' : 'h-2'}`}>
+        <div className={`h-full ${BAR_COLORS[state]}`} style={{ width: level.limit ? `${percent}%` : '0%' }} />
+      </div>
+    </div>
+  );
+};
+
+export const OccupancyGauge: React.FC<OccupancyGaugeProps> = ({ status }) => {
+  if (!status) return null;
+
+  // Rooms only appear once someone is visiting them
+  const busyRooms = status.rooms.filter(room => room.current > 0);
+
+  return (
+    <div className="mb-10 bg-white rounded-3xl shadow-xl p-8">
+      <div className="flex items-center gap-3 mb-6">
+        <Building2 className="w-8 h-8 text-blue-600" />
+        <h2 className="text-3xl font-bold text-gray-800">Occupancy</h2>
+      </div>
+
+      <LevelBar level={status.facility} large />
+
+      {status.buildings.length > 0 && (
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+          {status.buildings.map(building => <LevelBar key={building.label} level={building} />)}
+        </div>
+      )}
+
+      {busyRooms.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-lg font-bold text-gray-700 mb-3">Rooms with visitors</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-4">
+            {busyRooms.map(room => <LevelBar key={room.label} level={room} />)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
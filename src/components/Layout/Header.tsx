@@ -1,8 +1,11 @@
 // src/components/Layout/Header.tsx
 
 import React, { useState, useEffect } from 'react';
-import { Shield, Users, AlertTriangle, Settings, Clock, LogOut, User, Home } from 'lucide-react';
-import { User as UserType } from '../../types';
+import { Shield, Users, AlertTriangle, Settings, Clock, LogOut, User, Home, CloudOff, RefreshCw } from 'lucide-react';
+import { OccupancyLevel, OutboxStatus, User as UserType } from '../../types';
+import { occupancyService } from '../../services/occupancyService';
+import { outboxService } from '../../services/outboxService';
+import { usePermission } from '../../hooks/usePermission';
 
 interface HeaderProps {
   currentView: string;
@@ -10,6 +13,8 @@ interface HeaderProps {
   emergencyMode: boolean;
   onEmergencyToggle: () => void;
   activeVisitorCount: number;
+  occupancy?: OccupancyLevel; // Facility occupancy, shown against its limit when one is set
+  outbox?: OutboxStatus | null; // Actions saved on this terminal while offline, shown until they sync
   currentUser?: UserType | null;
   onLogout?: () => void;
 }
@@ -20,10 +25,13 @@ export const Header: React.FC<HeaderProps> = ({
   emergencyMode,
   onEmergencyToggle,
   activeVisitorCount,
+  occupancy,
+  outbox,
   currentUser,
   onLogout
 }) => {
   const [currentTime, setCurrentTime] = useState('');
+  const canToggleEmergency = usePermission('emergency_evacuation');
 
   useEffect(() => {
     const updateTime = () => {
@@ -69,6 +77,7 @@ export const Header: React.FC<HeaderProps> = ({
   };
 
   const navItems = getNavItems();
+  const occupancyState = occupancy ? occupancyService.getLevelState(occupancy) : 'unlimited';
 
   return (
     <header className="bg-white shadow-lg border-b-4 border-blue-600">
@@ -137,13 +146,47 @@ export const Header: React.FC<HeaderProps> = ({
               </div>
             )}
 
+            {/* Pending Sync */}
+            {outbox && outbox.pending > 0 && (
+              <button
+                onClick={() => outboxService.sync()}
+                disabled={outbox.syncing}
+                title={outbox.failed > 0
+                  ? `${outbox.failed} could not be saved: ${outbox.lastError}. Click to try again.`
+                  : 'Saved on this terminal while offline. Click to sync now.'}
+                className={`flex items-center gap-3 px-5 py-3 rounded-xl shadow-md font-bold border-2 transition-all hover:scale-105 disabled:hover:scale-100 ${
+                  outbox.failed > 0
+                    ? 'bg-red-50 text-red-700 border-red-300'
+                    : 'bg-amber-50 text-amber-700 border-amber-300'
+                }`}
+              >
+                {outbox.syncing ? <RefreshCw className="w-6 h-6 animate-spin" /> : <CloudOff className="w-6 h-6" />}
+                <div className="text-left">
+                  <div className="text-xl">{outbox.pending}</div>
+                  <div className="text-xs uppercase tracking-wider">{outbox.syncing ? 'Syncing' : 'Pending Sync'}</div>
+                </div>
+              </button>
+            )}
+
             {/* Active Visitors */}
-            <div className="flex items-center gap-3 bg-gradient-to-r from-green-500 to-emerald-600 text-white px-6 py-3 rounded-xl shadow-xl font-bold text-xl">
+            <div className={`flex items-center gap-3 bg-gradient-to-r text-white px-6 py-3 rounded-xl shadow-xl font-bold text-xl ${
+              occupancyState === 'full'
+                ? 'from-red-500 to-red-700'
+                : occupancyState === 'near'
+                  ? 'from-amber-500 to-orange-600'
+                  : 'from-green-500 to-emerald-600'
+            }`}>
               <Users className="w-8 h-8" />
               <div>
                 <div className="text-3xl">{activeVisitorCount}</div>
                 <div className="text-sm opacity-90">Active</div>
               </div>
+              {occupancy?.limit && (
+                <div className="pl-3 border-l border-white/40">
+                  <div className="text-3xl">{occupancy.current}<span className="text-lg opacity-90"> / {occupancy.limit.max}</span></div>
+                  <div className="text-sm opacity-90">On Site</div>
+                </div>
+              )}
             </div>
 
             {/* Current Time */}
@@ -155,7 +198,9 @@ export const Header: React.FC<HeaderProps> = ({
             {/* Emergency Button */}
             <button
               onClick={onEmergencyToggle}
-              className={`flex items-center gap-3 px-6 py-4 rounded-xl font-bold text-lg shadow-2xl transition-all transform hover:scale-110 ${
+              disabled={!emergencyMode && !canToggleEmergency}
+              title={emergencyMode ? 'Open the roll call' : canToggleEmergency ? undefined : 'You do not have permission to start emergency mode'}
+              className={`flex items-center gap-3 px-6 py-4 rounded-xl font-bold text-lg shadow-2xl transition-all transform hover:scale-110 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 ${
                 emergencyMode
                   ? 'bg-red-600 text-white animate-pulse ring-4 ring-red-300'
                   : 'bg-red-50 text-red-700 hover:bg-red-100 border-2 border-red-300'
@@ -0,0 +1,47 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import QRCode from 'react-qr-code';
+import { QrCode, AlertCircle } from 'lucide-react';
+
+interface PassCardProps {
+  pass: string;
+  slotStart?: Date;
+}
+
+export const PassCard: React.FC<PassCardProps> = ({ pass, slotStart }) => (
+  <div className="bg-white rounded-lg border-2 border-blue-200 p-6 text-center">
+    <div className="flex items-center justify-center space-x-2 mb-4">
+      <QrCode className="w-5 h-5 text-blue-600" />
+      <h3 className="font-semibold text-gray-900">Visitor Pass</h3>
+    </div>
+    <div className="flex justify-center mb-4">
+      <QRCode value={pass} size={200} />
+    </div>
+    {slotStart && (
+      <p className="text-lg font-medium text-gray-900 mb-1">{slotStart.toLocaleString()}</p>
+    )}
+    <p className="text-sm text-gray-600">Show this code at the front desk when you arrive</p>
+  </div>
+);
+
+// Opened from the link in the pass email
+export const PreRegistrationPass: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const pass = searchParams.get('code');
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4 py-12">
+      <div className="max-w-md w-full">
+        {pass ? (
+          <PassCard pass={pass} />
+        ) : (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-900 font-medium mb-2">Pass not found</p>
+            <p className="text-sm text-gray-600">Open the link from your confirmation email again.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
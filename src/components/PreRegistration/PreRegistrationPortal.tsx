@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, Mail, ArrowLeft, AlertCircle, CheckCircle } from 'lucide-react';
+import { VisitorForm } from '../CheckIn/VisitorForm';
+import { PassCard } from './PreRegistrationPass';
+import { PreRegisteredVisitor, Visitor } from '../../types';
+import { preRegistrationService, SlotAvailability } from '../../services/preRegistrationService';
+
+interface PreRegistrationPortalProps {
+  onBack: () => void;
+}
+
+export const PreRegistrationPortal: React.FC<PreRegistrationPortalProps> = ({ onBack }) => {
+  const [step, setStep] = useState<'details' | 'slot' | 'done'>('details');
+  const [visitor, setVisitor] = useState<Partial<Visitor>>({});
+  const [email, setEmail] = useState('');
+  const [days] = useState(() => preRegistrationService.bookableDays());
+  const [selectedDay, setSelectedDay] = useState<Date | null>(days[0] || null);
+  const [slots, setSlots] = useState<SlotAvailability[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<Date | null>(null);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ pass: string; slotStart: Date; emailed: boolean } | null>(null);
+
+  useEffect(() => {
+    if (step !== 'slot' || !selectedDay) return;
+
+    let cancelled = false;
+    setLoadingSlots(true);
+    setSelectedSlot(null);
+    preRegistrationService.getAvailability(selectedDay)
+      .then(found => { if (!cancelled) setSlots(found); })
+      .catch(() => { if (!cancelled) setError('Could not load arrival times. Please try again.'); })
+      .finally(() => { if (!cancelled) setLoadingSlots(false); });
+
+    return () => { cancelled = true; };
+  }, [step, selectedDay]);
+
+  const handleDetails = (data: Partial<Visitor>) => {
+    setVisitor(data);
+    setEmail(data.email || '');
+    setError(null);
+    setStep('slot');
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedSlot) return;
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const registered = await preRegistrationService.register(
+        { ...visitor, email: email.trim() } as PreRegisteredVisitor,
+        selectedSlot
+      );
+      setResult(registered);
+      setStep('done');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Pre-registration failed. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (step === 'details') {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-2xl mx-auto mb-6 px-4">
+          <button onClick={onBack} className="flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back
+          </button>
+          <h1 className="text-2xl font-semibold text-gray-900">Pre-register Your Visit</h1>
+          <p className="text-gray-600">Enter your details now, pick an arrival time and skip the queue at the front desk.</p>
+        </div>
+        <VisitorForm onNext={handleDetails} />
+      </div>
+    );
+  }
+
+  if (step === 'done' && result) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4 py-12">
+        <div className="max-w-md w-full space-y-6">
+          <div className="text-center">
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+            <h1 className="text-2xl font-semibold text-gray-900">You're Pre-registered</h1>
+            <p className="text-gray-600 mt-1">
+              {result.emailed
+                ? `We've emailed your pass to ${email}.`
+                : 'We could not email your pass. Take a screenshot of the code below.'}
+            </p>
+          </div>
+          <PassCard pass={result.pass} slotStart={result.slotStart} />
+          <button
+            onClick={onBack}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4">
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex items-center space-x-3 mb-6">
+            <div className="flex items-center justify-center w-10 h-10 bg-blue-100 rounded-lg">
+              <CalendarClock className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Arrival Time</h2>
+              <p className="text-sm text-gray-600">Pick when you'll arrive, {visitor.firstName}</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 flex items-center space-x-2 bg-red-50 border border-red-200 rounded-lg p-3">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-2 overflow-x-auto pb-2 mb-4">
+            {days.map(day => (
+              <button
+                key={day.toISOString()}
+                onClick={() => setSelectedDay(day)}
+                className={`flex-shrink-0 px-4 py-2 rounded-lg border text-sm ${
+                  selectedDay?.getTime() === day.getTime()
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                }`}
+              >
+                <div className="font-medium">{format(day, 'EEE')}</div>
+                <div>{format(day, 'MMM d')}</div>
+              </button>
+            ))}
+          </div>
+
+          {loadingSlots ? (
+            <div className="py-8 text-center">
+              <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
+            </div>
+          ) : slots.length === 0 ? (
+            <p className="py-8 text-center text-gray-500">No arrival times left on this day.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mb-6">
+              {slots.map(slot => (
+                <button
+                  key={slot.start.toISOString()}
+                  onClick={() => setSelectedSlot(slot.start)}
+                  disabled={slot.remaining === 0}
+                  className={`px-3 py-2 rounded-lg border text-sm ${
+                    selectedSlot?.getTime() === slot.start.getTime()
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                  } disabled:bg-gray-100 disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed`}
+                >
+                  <div className="font-medium">{format(slot.start, 'p')}</div>
+                  <div className="text-xs">{slot.remaining === 0 ? 'Full' : `${slot.remaining} left`}</div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email for your pass *</label>
+            <div className="relative">
+              <Mail className="w-4 h-4 text-gray-400 absolute left-3 top-3" />
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="you@example.com"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => setStep('details')}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={!selectedSlot || !email.trim() || submitting}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Booking...' : 'Get My Pass'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
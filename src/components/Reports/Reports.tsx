@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Download, Calendar, Users, TrendingUp, AlertTriangle, Printer } from 'lucide-react';
-import { collection, query, where, getDocs, orderBy, Timestamp } from 'firebase/firestore';
-import { db } from '../../firebase/config';
-import { Visitor } from '../../types';
+import { FileText, Download, Calendar, Users, TrendingUp, AlertTriangle, Printer, LogOut } from 'lucide-react';
+import { FamilyMember, Visitor } from '../../types';
 import { format, startOfDay, endOfDay, subDays } from 'date-fns';
 import { printService, PrintData } from '../../services/printService';
+import { visitorService } from '../../services/visitorService';
+import { usePermission } from '../../hooks/usePermission';
 
 export const Reports: React.FC = () => {
+  const canExport = usePermission('export_reports');
   const [dateRange, setDateRange] = useState({
     start: format(subDays(new Date(), 7), 'yyyy-MM-dd'),
     end: format(new Date(), 'yyyy-MM-dd')
@@ -15,10 +16,13 @@ export const Reports: React.FC = () => {
     totalVisits: number;
     uniqueVisitors: number;
     avgVisitDuration: number;
+    checkedOut: number;
+    autoCheckedOut: number;
     healthAlerts: number;
     visitorsByAccessLevel: Record<string, number>;
     visitorsByDay: Record<string, number>;
     recentVisitors: Visitor[];
+    familyMembers: { member: FamilyMember; visitor: Visitor }[];
   } | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -28,30 +32,16 @@ export const Reports: React.FC = () => {
       const startDate = startOfDay(new Date(dateRange.start));
       const endDate = endOfDay(new Date(dateRange.end));
 
-      const q = query(
-        collection(db, 'visitors'),
-        where('checkInTime', '>=', Timestamp.fromDate(startDate)),
-        where('checkInTime', '<=', Timestamp.fromDate(endDate)),
-        orderBy('checkInTime', 'desc')
-      );
-
-      const querySnapshot = await getDocs(q);
-      const visitors = querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        checkInTime: doc.data().checkInTime.toDate(),
-        checkOutTime: doc.data().checkOutTime?.toDate(),
-        healthScreening: {
-          ...doc.data().healthScreening,
-          screeningDate: doc.data().healthScreening.screeningDate.toDate()
-        }
-      })) as Visitor[];
+      // Visits come back with their profile's current name and contact details
+      const visitors = await visitorService.getVisitorsByDateRange(startDate, endDate);
 
       // Calculate statistics
       const totalVisits = visitors.length;
-      const uniqueVisitors = new Set(visitors.map(v => `${v.firstName} ${v.lastName}`)).size;
+      const uniqueVisitors = new Set(visitors.map(v => v.profileId || `${v.firstName} ${v.lastName}`)).size;
       
-      const completedVisits = visitors.filter(v => v.checkOutTime);
+      // Auto check-outs close at the end of the day, not when the visitor left, so their length means nothing
+      const completedVisits = visitors.filter(v => v.checkOutTime && v.status !== 'auto-checked-out');
+      const autoCheckedOut = visitors.filter(v => v.status === 'auto-checked-out').length;
       const avgVisitDuration = completedVisits.length > 0
         ? completedVisits.reduce((sum, v) => {
             const duration = v.checkOutTime!.getTime() - v.checkInTime.getTime();
@@ -60,9 +50,9 @@ export const Reports: React.FC = () => {
         : 0;
 
       const healthAlerts = visitors.filter(v =>
-        v.healthScreening.hasSymptoms ||
-        (v.healthScreening.temperature && v.healthScreening.temperature > 100.4) ||
-        v.healthScreening.testResult === 'positive'
+        v.healthScreening?.hasSymptoms ||
+        (v.healthScreening?.temperature && v.healthScreening?.temperature > 100.4) ||
+        v.healthScreening?.testResult === 'positive'
       ).length;
 
       const visitorsByAccessLevel = visitors.reduce((acc, v) => {
@@ -80,10 +70,13 @@ export const Reports: React.FC = () => {
         totalVisits,
         uniqueVisitors,
         avgVisitDuration,
+        checkedOut: completedVisits.length,
+        autoCheckedOut,
         healthAlerts,
         visitorsByAccessLevel,
         visitorsByDay,
-        recentVisitors: visitors.slice(0, 10)
+        recentVisitors: visitors.slice(0, 10),
+        familyMembers: visitors.flatMap(visitor => (visitor.familyMembers || []).map(member => ({ member, visitor })))
       });
     } catch (error) {
       console.error('Error generating report:', error);
@@ -108,20 +101,36 @@ export const Reports: React.FC = () => {
       [`Total Visits,${reportData.totalVisits}`],
       [`Unique Visitors,${reportData.uniqueVisitors}`],
       [`Average Visit Duration (minutes),${reportData.avgVisitDuration.toFixed(1)}`],
+      [`Checked Out,${reportData.checkedOut}`],
+      [`Auto Checked Out,${reportData.autoCheckedOut}`],
       [`Health Alerts,${reportData.healthAlerts}`],
+      [`Family Members,${reportData.familyMembers.length}`],
       [''],
       ['Recent Visitors'],
-      ['Name', 'Resident', 'Room', 'Check In', 'Check Out', 'Access Level', 'Health Status'],
+      ['Name', 'Resident', 'Room', 'Check In', 'Check Out', 'Status', 'Access Level', 'Health Status'],
       ...reportData.recentVisitors.map(v => [
         `${v.firstName} ${v.lastName}`,
         v.residentName,
         v.residentRoom,
         format(v.checkInTime, 'yyyy-MM-dd HH:mm'),
         v.checkOutTime ? format(v.checkOutTime, 'yyyy-MM-dd HH:mm') : 'Still visiting',
+        v.status,
         v.accessLevel,
-        v.healthScreening.hasSymptoms || 
-        (v.healthScreening.temperature && v.healthScreening.temperature > 100.4) ||
-        v.healthScreening.testResult === 'positive' ? 'Alert' : 'Normal'
+        v.healthScreening?.hasSymptoms || 
+        (v.healthScreening?.temperature && v.healthScreening?.temperature > 100.4) ||
+        v.healthScreening?.testResult === 'positive' ? 'Alert' : 'Normal'
+      ]),
+      [''],
+      ['Family Members'],
+      ['Name', 'Relationship', 'With', 'Badge', 'Check In', 'Check Out', 'Status'],
+      ...reportData.familyMembers.map(({ member, visitor }) => [
+        `${member.firstName} ${member.lastName}`,
+        member.relationship,
+        `${visitor.firstName} ${visitor.lastName}`,
+        member.badgeNumber,
+        member.checkInTime ? format(member.checkInTime, 'yyyy-MM-dd HH:mm') : '',
+        member.checkOutTime ? format(member.checkOutTime, 'yyyy-MM-dd HH:mm') : 'Still visiting',
+        member.status || ''
       ])
     ].map(row => row.join(',')).join('\n');
 
@@ -154,6 +163,14 @@ export const Reports: React.FC = () => {
               <div class="info-label">Average Visit Duration</div>
               <div class="info-value">${reportData.avgVisitDuration.toFixed(1)} minutes</div>
             </div>
+            <div class="info-item">
+              <div class="info-label">Checked Out</div>
+              <div class="info-value">${reportData.checkedOut}</div>
+            </div>
+            <div class="info-item">
+              <div class="info-label">Auto Checked Out</div>
+              <div class="info-value">${reportData.autoCheckedOut}</div>
+            </div>
             <div class="info-item">
               <div class="info-label">Health Alerts</div>
               <div class="info-value">${reportData.healthAlerts}</div>
@@ -183,9 +200,9 @@ export const Reports: React.FC = () => {
                   ${v.residentName} (Room ${v.residentRoom})<br>
                   Check-in: ${format(v.checkInTime, 'MMM dd, HH:mm')}<br>
                   Status: ${v.status}<br>
-                  Health: ${v.healthScreening.hasSymptoms || 
-                    (v.healthScreening.temperature && v.healthScreening.temperature > 100.4) ||
-                    v.healthScreening.testResult === 'positive' ? 'Alert' : 'Normal'}
+                  Health: ${v.healthScreening?.hasSymptoms || 
+                    (v.healthScreening?.temperature && v.healthScreening?.temperature > 100.4) ||
+                    v.healthScreening?.testResult === 'positive' ? 'Alert' : 'Normal'}
                 </div>
               </div>
             `).join('')}
@@ -258,7 +275,7 @@ export const Reports: React.FC = () => {
       ) : reportData ? (
         <div className="space-y-6">
           {/* Summary Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
             <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
               <div className="flex items-center">
                 <div className="flex-shrink-0">
@@ -297,6 +314,21 @@ export const Reports: React.FC = () => {
               </div>
             </div>
 
+            <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <LogOut className="w-8 h-8 text-gray-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Checked Out</p>
+                  <p className="text-2xl font-semibold text-gray-900">{reportData.checkedOut}</p>
+                  {reportData.autoCheckedOut > 0 && (
+                    <p className="text-xs font-medium text-amber-700">+{reportData.autoCheckedOut} auto checked out</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
             <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
               <div className="flex items-center">
                 <div className="flex-shrink-0">
@@ -372,13 +404,15 @@ export const Reports: React.FC = () => {
                   <Printer className="w-4 h-4" />
                   <span>Print Report</span>
                 </button>
-                <button
-                  onClick={downloadReport}
-                  className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
-                >
-                  <Download className="w-4 h-4" />
-                  <span>Download CSV</span>
-                </button>
+                {canExport && (
+                  <button
+                    onClick={downloadReport}
+                    className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Download CSV</span>
+                  </button>
+                )}
               </div>
             </div>
             
@@ -429,15 +463,17 @@ export const Reports: React.FC = () => {
                             ? 'bg-green-100 text-green-800'
                             : visitor.status === 'checked-out'
                             ? 'bg-gray-100 text-gray-800'
+                            : visitor.status === 'auto-checked-out'
+                            ? 'bg-amber-100 text-amber-800'
                             : 'bg-red-100 text-red-800'
                         }`}>
-                          {visitor.status.replace('-', ' ')}
+                          {visitor.status.replace(/-/g, ' ')}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        {visitor.healthScreening.hasSymptoms ||
-                        (visitor.healthScreening.temperature && visitor.healthScreening.temperature > 100.4) ||
-                        visitor.healthScreening.testResult === 'positive' ? (
+                        {visitor.healthScreening?.hasSymptoms ||
+                        (visitor.healthScreening?.temperature && visitor.healthScreening.temperature > 100.4) ||
+                        visitor.healthScreening?.testResult === 'positive' ? (
                           <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
                             Alert
                           </span>
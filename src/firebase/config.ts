@@ -1,7 +1,8 @@
 // Firebase configuration and initialization
 import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from "firebase/firestore";
+import { getFunctions } from "firebase/functions";
 import { getStorage } from "firebase/storage";
 
 const firebaseConfig = {
@@ -18,7 +19,17 @@ const app = initializeApp(firebaseConfig);
 
 // Initialize Firebase services
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+// Cached on disk so the watchlist, residents and settings can still be read at check-in while the lobby is offline
+export const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
 export const storage = getStorage(app);
+export const functions = getFunctions(app);
+
+// Secondary app used to create or verify staff accounts without
+// replacing the session of the person at the keyboard
+const provisioningApp = initializeApp(firebaseConfig, "provisioning");
+export const provisioningAuth = getAuth(provisioningApp);
+export const provisioningDb = getFirestore(provisioningApp);
 
 export default app;
\ No newline at end of file
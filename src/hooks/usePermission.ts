@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { Permission } from '../types';
+import { authService } from '../services/authService';
+import { permissionService } from '../services/permissionService';
+
+// Re-renders when the signed-in user changes so gated UI stays current
+export const usePermission = (permission: Permission): boolean => {
+  const user = useSyncExternalStore(authService.subscribeToSession, authService.getSessionUser);
+  return permissionService.hasPermission(user, permission);
+};
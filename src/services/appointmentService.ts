@@ -0,0 +1,406 @@
+// src/services/appointmentService.ts
+
+import {
+  collection,
+  addDoc,
+  setDoc,
+  updateDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  Timestamp,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+  Query,
+} from 'firebase/firestore';
+import { addMinutes, endOfDay, startOfDay } from 'date-fns';
+import { db } from '../firebase/config';
+import { Appointment, AppointmentInput, ArrivalState, RecurrenceRule, Visitor } from '../types';
+import { auditService } from './auditService';
+import { emailService } from './emailService';
+import { recurrenceService } from './recurrenceService';
+
+// Minutes after the start time before an appointment counts as late, then as a no-show
+export const LATE_AFTER_MINUTES = 15;
+export const NO_SHOW_AFTER_MINUTES = 60;
+
+export const DEFAULT_APPOINTMENT_MINUTES = 60;
+
+// Compared on digits only so "(555) 123-4567" matches "5551234567"
+const digitsOnly = (value?: string): string => (value || '').replace(/\D/g, '');
+
+class AppointmentService {
+  private appointmentsCollection = collection(db, 'appointments');
+
+  private mapDocToAppointment(snapshot: DocumentSnapshot<DocumentData> | QueryDocumentSnapshot<DocumentData>): Appointment {
+    const data = snapshot.data() || {};
+    return {
+      id: snapshot.id,
+      firstName: data.firstName || '',
+      lastName: data.lastName || '',
+      email: data.email || undefined,
+      phone: data.phone || '',
+      visitorIdNumber: data.visitorIdNumber || undefined,
+      visitorMeetingSelection: data.visitorMeetingSelection || 'resident',
+      residentId: data.residentId || undefined,
+      residentName: data.residentName || undefined,
+      residentRoom: data.residentRoom || undefined,
+      staffDepartment: data.staffDepartment || undefined,
+      visitPurpose: data.visitPurpose || '',
+      notes: data.notes || undefined,
+      startTime: data.startTime?.toDate(),
+      durationMinutes: data.durationMinutes || DEFAULT_APPOINTMENT_MINUTES,
+      status: data.status || 'scheduled',
+      visitId: data.visitId || undefined,
+      arrivedAt: data.arrivedAt?.toDate() || undefined,
+      cancellationReason: data.cancellationReason || undefined,
+      createdAt: data.createdAt?.toDate(),
+      createdBy: data.createdBy || '',
+      updatedAt: data.updatedAt?.toDate() || undefined,
+      recurrence: data.recurrence ? {
+        frequency: data.recurrence.frequency,
+        interval: data.recurrence.interval || 1,
+        weekdays: data.recurrence.weekdays || undefined,
+        until: data.recurrence.until?.toDate() || undefined,
+        exceptions: data.recurrence.exceptions || undefined,
+      } : undefined,
+      seriesId: data.seriesId || undefined,
+      occurrenceDate: data.occurrenceDate || undefined,
+    };
+  }
+
+  // Firestore rejects undefined values, so fields the form left empty are dropped;
+  // isSeries lets the series be queried apart from one-off appointments
+  private toDoc(input: Partial<AppointmentInput> & Partial<Pick<Appointment, 'seriesId' | 'occurrenceDate'>>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries({
+        ...input,
+        startTime: input.startTime ? Timestamp.fromDate(input.startTime) : undefined,
+        recurrence: input.recurrence ? this.recurrenceToDoc(input.recurrence) : undefined,
+        isSeries: input.recurrence ? true : undefined,
+      }).filter(([, value]) => value !== undefined && value !== '')
+    );
+  }
+
+  private recurrenceToDoc(rule: RecurrenceRule): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries({
+        ...rule,
+        until: rule.until ? Timestamp.fromDate(rule.until) : undefined,
+        weekdays: rule.frequency === 'weekly' && rule.weekdays?.length ? rule.weekdays : undefined,
+        exceptions: rule.exceptions?.length ? rule.exceptions : undefined,
+      }).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Reading
+  // ──────────────────────────────────────────────────────────────
+  // One-off appointments plus the occurrences of every recurring series that falls in the range
+  subscribeToRange(from: Date, to: Date, callback: (appointments: Appointment[]) => void) {
+    let dated: Appointment[] | null = null;
+    let series: Appointment[] | null = null;
+    let stored: Appointment[] | null = null;
+    const emit = () => {
+      if (dated && series && stored) callback(this.combine(dated, series, stored, from, to));
+    };
+    const onError = (error: Error) => {
+      console.error('Appointment subscription error:', error);
+      callback([]);
+    };
+
+    const unsubscribers = [
+      onSnapshot(this.datedQuery(from, to), (snapshot) => {
+        dated = snapshot.docs.map(d => this.mapDocToAppointment(d));
+        emit();
+      }, onError),
+      onSnapshot(this.seriesQuery(), (snapshot) => {
+        series = snapshot.docs.map(d => this.mapDocToAppointment(d));
+        emit();
+      }, onError),
+      onSnapshot(this.storedOccurrencesQuery(from, to), (snapshot) => {
+        stored = snapshot.docs.map(d => this.mapDocToAppointment(d));
+        emit();
+      }, onError),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  async getAppointmentsInRange(from: Date, to: Date): Promise<Appointment[]> {
+    try {
+      const [dated, series, stored] = await Promise.all(
+        [this.datedQuery(from, to), this.seriesQuery(), this.storedOccurrencesQuery(from, to)]
+          .map(async q => (await getDocs(q)).docs.map(d => this.mapDocToAppointment(d)))
+      );
+      return this.combine(dated, series, stored, from, to);
+    } catch (error) {
+      console.error('getAppointmentsInRange error:', error);
+      return [];
+    }
+  }
+
+  // The series itself, for "edit the whole series"
+  async getSeries(seriesId: string): Promise<Appointment | null> {
+    try {
+      const snapshot = await getDoc(doc(this.appointmentsCollection, seriesId));
+      return snapshot.exists() ? this.mapDocToAppointment(snapshot) : null;
+    } catch (error) {
+      console.error('getSeries error:', error);
+      return null;
+    }
+  }
+
+  getArrivalState(appointment: Appointment, now: Date = new Date()): ArrivalState {
+    if (appointment.status !== 'scheduled') return appointment.status;
+    if (now > addMinutes(appointment.startTime, NO_SHOW_AFTER_MINUTES)) return 'no-show';
+    if (now > addMinutes(appointment.startTime, LATE_AFTER_MINUTES)) return 'late';
+    return 'expected';
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Create, reschedule, cancel
+  // ──────────────────────────────────────────────────────────────
+  async createAppointment(input: AppointmentInput, createdBy: string): Promise<Appointment> {
+    try {
+      const now = Timestamp.fromDate(new Date());
+      const docRef = await addDoc(this.appointmentsCollection, {
+        ...this.toDoc(input),
+        status: 'scheduled',
+        createdAt: now,
+        createdBy,
+      });
+      const appointment: Appointment = { ...input, id: docRef.id, status: 'scheduled', createdAt: now.toDate(), createdBy };
+
+      await auditService.record({
+        action: 'appointment_created',
+        after: { startTime: input.startTime, durationMinutes: input.durationMinutes, status: 'scheduled' },
+        details: {
+          appointmentId: docRef.id,
+          visitorName: `${input.firstName} ${input.lastName}`.trim(),
+          repeats: input.recurrence ? recurrenceService.describe(input.recurrence, input.startTime) : undefined,
+        },
+      });
+      await this.notify(appointment, 'scheduled');
+
+      return appointment;
+    } catch (error) {
+      console.error('Create appointment error:', error);
+      throw error;
+    }
+  }
+
+  // Moving the start time is recorded as a reschedule and the visitor is told.
+  // Pass a series' own ID to change every visit, or an occurrence's ID to change just that one
+  async updateAppointment(appointmentId: string, changes: Partial<AppointmentInput>): Promise<Appointment> {
+    try {
+      const found = await this.getAppointment(appointmentId);
+      if (!found) throw new Error('Appointment not found');
+      const { appointment: current, stored } = found;
+      if (current.status !== 'scheduled') throw new Error(`This appointment is ${current.status} and can no longer be changed`);
+      if (current.seriesId && changes.recurrence) throw new Error('Change the repeat pattern on the whole series');
+
+      await this.write(current, stored, {
+        ...this.toDoc(changes),
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      const updated: Appointment = { ...current, ...changes, updatedAt: new Date() };
+      const rescheduled = !!changes.startTime && changes.startTime.getTime() !== current.startTime.getTime();
+
+      await auditService.record({
+        action: rescheduled ? 'appointment_rescheduled' : 'appointment_updated',
+        ...auditService.diff({ ...current }, { ...changes }),
+        details: { appointmentId, seriesId: current.seriesId, visitorName: `${updated.firstName} ${updated.lastName}`.trim() },
+      });
+      if (rescheduled) await this.notify(updated, 'rescheduled');
+
+      return updated;
+    } catch (error) {
+      console.error('Update appointment error:', error);
+      throw error;
+    }
+  }
+
+  // Cancelling an occurrence calls off that one visit; cancelling the series ends all of them
+  async cancelAppointment(appointmentId: string, reason: string): Promise<void> {
+    try {
+      const found = await this.getAppointment(appointmentId);
+      if (!found) throw new Error('Appointment not found');
+      const { appointment: current, stored } = found;
+      if (current.status !== 'scheduled') throw new Error(`This appointment is already ${current.status}`);
+
+      await this.write(current, stored, {
+        status: 'cancelled',
+        cancellationReason: reason,
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      await auditService.record({
+        action: 'appointment_cancelled',
+        before: { status: 'scheduled' },
+        after: { status: 'cancelled' },
+        details: { appointmentId, seriesId: current.seriesId, reason, visitorName: `${current.firstName} ${current.lastName}`.trim() },
+      });
+      await this.notify({ ...current, status: 'cancelled', cancellationReason: reason }, 'cancelled');
+    } catch (error) {
+      console.error('Cancel appointment error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Arrival
+  // ──────────────────────────────────────────────────────────────
+  // Today's scheduled appointment for this visitor, preferring their visitor ID, then phone, then name;
+  // with several matches the one closest to now wins
+  async findForArrival(
+    visitor: Pick<Visitor, 'firstName' | 'lastName'> & Partial<Pick<Visitor, 'phone' | 'visitorIdNumber'>>,
+    at: Date = new Date()
+  ): Promise<Appointment | null> {
+    const today = (await this.getAppointmentsInRange(startOfDay(at), endOfDay(at)))
+      .filter(appointment => appointment.status === 'scheduled');
+
+    const name = `${visitor.firstName} ${visitor.lastName}`.trim().toLowerCase();
+    const phone = digitsOnly(visitor.phone);
+    const matchers: ((appointment: Appointment) => boolean)[] = [
+      appointment => !!visitor.visitorIdNumber && appointment.visitorIdNumber === visitor.visitorIdNumber,
+      appointment => phone.length >= 7 && digitsOnly(appointment.phone) === phone,
+      appointment => !!name && `${appointment.firstName} ${appointment.lastName}`.trim().toLowerCase() === name,
+    ];
+
+    for (const matches of matchers) {
+      const found = today.filter(matches)
+        .sort((a, b) => Math.abs(a.startTime.getTime() - at.getTime()) - Math.abs(b.startTime.getTime() - at.getTime()));
+      if (found.length > 0) return found[0];
+    }
+    return null;
+  }
+
+  async markArrived(appointmentId: string, visitId: string): Promise<void> {
+    try {
+      const found = await this.getAppointment(appointmentId);
+      if (!found) throw new Error('Appointment not found');
+
+      await this.write(found.appointment, found.stored, {
+        status: 'arrived',
+        visitId,
+        arrivedAt: Timestamp.fromDate(new Date()),
+      });
+    } catch (error) {
+      console.error('Mark appointment arrived error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Utilities
+  // ──────────────────────────────────────────────────────────────
+  // Occurrences of a series only get a document of their own, "<seriesId>_<yyyy-MM-dd>",
+  // once one of them is changed, cancelled or checked in
+  private async getAppointment(appointmentId: string): Promise<{ appointment: Appointment; stored: boolean } | null> {
+    const snapshot = await getDoc(doc(this.appointmentsCollection, appointmentId));
+    if (snapshot.exists()) return { appointment: this.mapDocToAppointment(snapshot), stored: true };
+
+    const separator = appointmentId.lastIndexOf('_');
+    if (separator === -1) return null;
+    const series = await this.getSeries(appointmentId.slice(0, separator));
+    if (!series?.recurrence || series.status !== 'scheduled') return null;
+
+    const key = appointmentId.slice(separator + 1);
+    const start = recurrenceService.occurrenceOn(series.recurrence, series.startTime, key);
+    return start ? { appointment: this.toOccurrence(series, key, start), stored: false } : null;
+  }
+
+  private async write(appointment: Appointment, stored: boolean, fields: DocumentData): Promise<void> {
+    const ref = doc(this.appointmentsCollection, appointment.id);
+    if (stored) {
+      await updateDoc(ref, fields);
+      return;
+    }
+    await setDoc(ref, {
+      ...this.toDoc({ ...this.inputOf(appointment), seriesId: appointment.seriesId, occurrenceDate: appointment.occurrenceDate }),
+      status: 'scheduled',
+      createdAt: Timestamp.fromDate(appointment.createdAt),
+      createdBy: appointment.createdBy,
+      ...fields,
+    });
+  }
+
+  private toOccurrence(series: Appointment, key: string, start: Date): Appointment {
+    return { ...series, id: `${series.id}_${key}`, startTime: start, recurrence: undefined, seriesId: series.id, occurrenceDate: key };
+  }
+
+  private inputOf(appointment: Appointment): AppointmentInput {
+    return {
+      firstName: appointment.firstName,
+      lastName: appointment.lastName,
+      email: appointment.email,
+      phone: appointment.phone,
+      visitorIdNumber: appointment.visitorIdNumber,
+      visitorMeetingSelection: appointment.visitorMeetingSelection,
+      residentId: appointment.residentId,
+      residentName: appointment.residentName,
+      residentRoom: appointment.residentRoom,
+      staffDepartment: appointment.staffDepartment,
+      visitPurpose: appointment.visitPurpose,
+      notes: appointment.notes,
+      startTime: appointment.startTime,
+      durationMinutes: appointment.durationMinutes,
+    };
+  }
+
+  private datedQuery(from: Date, to: Date): Query<DocumentData> {
+    return query(
+      this.appointmentsCollection,
+      where('startTime', '>=', Timestamp.fromDate(from)),
+      where('startTime', '<=', Timestamp.fromDate(to)),
+      orderBy('startTime')
+    );
+  }
+
+  private seriesQuery(): Query<DocumentData> {
+    return query(this.appointmentsCollection, where('isSeries', '==', true));
+  }
+
+  // Stored occurrences whose series day is in the range, even when they were moved out of it
+  private storedOccurrencesQuery(from: Date, to: Date): Query<DocumentData> {
+    return query(
+      this.appointmentsCollection,
+      where('occurrenceDate', '>=', recurrenceService.occurrenceKey(from)),
+      where('occurrenceDate', '<=', recurrenceService.occurrenceKey(to))
+    );
+  }
+
+  private combine(dated: Appointment[], series: Appointment[], stored: Appointment[], from: Date, to: Date): Appointment[] {
+    const storedIds = new Set([...dated, ...stored].map(appointment => appointment.id));
+    const occurrences = series
+      .filter(s => s.status === 'scheduled' && s.recurrence)
+      .flatMap(s => recurrenceService.occurrencesBetween(s.recurrence!, s.startTime, from, to)
+        .map(start => this.toOccurrence(s, recurrenceService.occurrenceKey(start), start)))
+      .filter(occurrence => !storedIds.has(occurrence.id));
+
+    return [...dated.filter(appointment => !appointment.recurrence), ...occurrences]
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  // The visitor (when they gave an email) and whoever they are meeting
+  private async notify(appointment: Appointment, change: 'scheduled' | 'rescheduled' | 'cancelled'): Promise<void> {
+    const recipients = [appointment.email, emailService.getRecipientEmail(appointment)].filter(Boolean) as string[];
+    try {
+      for (const recipient of recipients) {
+        if (change === 'cancelled') {
+          await emailService.sendAppointmentCancelledNotification(appointment, recipient);
+        } else {
+          await emailService.sendAppointmentScheduledNotification(appointment, recipient, change === 'rescheduled');
+        }
+      }
+    } catch (error) {
+      console.warn('Appointment notification failed:', error);
+    }
+  }
+}
+
+export const appointmentService = new AppointmentService();
@@ -0,0 +1,151 @@
+// src/services/auditService.ts
+
+import { doc, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { AuditChainVerification, AuditLog } from '../types';
+
+// The acting user and IP address are taken from the verified request by the recordAudit function
+export interface AuditEntryInput {
+  action: string;
+  visitorId?: string;
+  targetUserId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  details?: Record<string, unknown>;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// JSON with sorted keys; keep in sync with canonicalize in functions/src/auditTrail.ts
+const canonicalize = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+class AuditService {
+  // ──────────────────────────────────────────────────────────────
+  // Recording
+  // ──────────────────────────────────────────────────────────────
+  // A failed audit write never blocks the action it describes
+  async record(entries: AuditEntryInput | AuditEntryInput[]): Promise<void> {
+    const list = Array.isArray(entries) ? entries : [entries];
+    if (list.length === 0) return;
+
+    try {
+      const recordAudit = httpsCallable<{ entries: AuditEntryInput[] }, { recorded: number }>(functions, 'recordAudit');
+      await recordAudit({ entries: list.map(entry => this.toPlain(entry) as AuditEntryInput) });
+    } catch (error) {
+      console.warn('Audit log failed', error);
+    }
+  }
+
+  // Only the fields that actually differ, for before/after pairs on updates
+  diff(before: Record<string, unknown>, after: Record<string, unknown>): { before: Record<string, unknown>; after: Record<string, unknown> } {
+    const changed = Object.keys(after).filter(key => canonicalize(this.toPlain(before[key])) !== canonicalize(this.toPlain(after[key])));
+    return {
+      before: Object.fromEntries(changed.map(key => [key, before[key] ?? null])),
+      after: Object.fromEntries(changed.map(key => [key, after[key] ?? null])),
+    };
+  }
+
+  // Callable payloads can't carry Dates or Timestamps, so send them as ISO strings
+  private toPlain(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString();
+    if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+      return (value as { toDate: () => Date }).toDate().toISOString();
+    }
+    if (Array.isArray(value)) return value.map(v => this.toPlain(v));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, v]) => v !== undefined)
+          .map(([k, v]) => [k, this.toPlain(v)])
+      );
+    }
+    return value;
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Verification
+  // ──────────────────────────────────────────────────────────────
+  async verifyChain(logs: AuditLog[]): Promise<AuditChainVerification> {
+    const chained = logs
+      .filter(log => typeof log.sequence === 'number' && log.hash)
+      .sort((a, b) => a.sequence! - b.sequence!);
+    const unchained = logs.length - chained.length;
+
+    // Entries blanked by a visitor's erasure, or stripped of names by the retention policy, keep their
+    // original hash, so only their place in the chain can be checked; each must be listed by the later
+    // subject_erased or retention_redacted entry that changed it
+    const erasedBy = new Map<number, number>();
+    chained
+      .filter(log => log.action === 'subject_erased' || log.action === 'retention_redacted')
+      .forEach(log => (log.details?.redactedSequences || []).forEach((sequence: number) => erasedBy.set(sequence, log.sequence!)));
+
+    let expectedSequence = 1;
+    let previousHash = GENESIS_HASH;
+
+    for (const log of chained) {
+      if (log.sequence !== expectedSequence) {
+        return { valid: false, checked: chained.length, unchained, brokenAtSequence: expectedSequence, reason: `Entry ${expectedSequence} is missing` };
+      }
+      if (log.previousHash !== previousHash) {
+        return { valid: false, checked: chained.length, unchained, brokenAtSequence: log.sequence, reason: `Entry ${log.sequence} does not link to the previous entry` };
+      }
+
+      if (log.redactedAt) {
+        if ((erasedBy.get(log.sequence) ?? 0) <= log.sequence) {
+          return { valid: false, checked: chained.length, unchained, brokenAtSequence: log.sequence, reason: `Entry ${log.sequence} was blanked without an erasure or retention record` };
+        }
+        previousHash = log.hash!;
+        expectedSequence += 1;
+        continue;
+      }
+
+      const hash = await sha256Hex(canonicalize({
+        sequence: log.sequence,
+        timestamp: log.timestamp.toISOString(),
+        action: log.action,
+        userId: log.userId,
+        visitorId: log.visitorId || null,
+        targetUserId: log.targetUserId || null,
+        before: log.before || null,
+        after: log.after || null,
+        details: log.details || {},
+        ipAddress: log.ipAddress,
+        previousHash: log.previousHash,
+      }));
+      if (hash !== log.hash) {
+        return { valid: false, checked: chained.length, unchained, brokenAtSequence: log.sequence, reason: `Entry ${log.sequence} has been modified` };
+      }
+
+      previousHash = log.hash;
+      expectedSequence += 1;
+    }
+
+    // The head records the newest entry, so trimming the end of the trail is caught too
+    try {
+      const head = await getDoc(doc(db, 'audit_meta', 'head'));
+      if (head.exists() && (head.data().sequence !== expectedSequence - 1 || head.data().hash !== previousHash)) {
+        return { valid: false, checked: chained.length, unchained, brokenAtSequence: expectedSequence, reason: 'Entries after the last one shown have been removed' };
+      }
+    } catch (error) {
+      console.error('Audit head check failed:', error);
+    }
+
+    return { valid: true, checked: chained.length, unchained };
+  }
+}
+
+export const auditService = new AuditService();
@@ -1,6 +1,5 @@
 import { 
   collection, 
-  addDoc, 
   updateDoc, 
   doc, 
   getDocs, 
@@ -8,75 +7,155 @@ import {
   where, 
   getDoc,
   Timestamp,
-  deleteDoc
+  deleteDoc,
+  writeBatch,
+  DocumentData
 } from 'firebase/firestore';
-import { db } from '../firebase/config';
-import { User, UserRole, LoginCredentials, AuthState } from '../types';
+import {
+  Auth,
+  User as FirebaseUser,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  onAuthStateChanged,
+  signOut,
+  sendEmailVerification,
+  updatePassword,
+  deleteUser as deleteAuthUser
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { httpsCallable } from 'firebase/functions';
+import { db, auth, functions, provisioningAuth, provisioningDb } from '../firebase/config';
+import { User, UserRole, LoginCredentials, AuthState, Permission, Invitation } from '../types';
+import { permissionService } from './permissionService';
+import { invitationService } from './invitationService';
+import { auditService } from './auditService';
+
+type NewStaffAccount = Omit<User, 'id' | 'createdAt' | 'permissions'> & { password: string };
+
+// How often an invited signup checks whether the verification link was followed, and for how long
+const VERIFICATION_POLL_MS = 3000;
+const VERIFICATION_TIMEOUT_MS = 30 * 60 * 1000;
 
 class AuthService {
   private usersCollection = collection(db, 'users');
+  private sessionUser: User | null = null;
+  private sessionListeners = new Set<() => void>();
+
+  // In-memory copy of the verified session for hooks such as usePermission
+  getSessionUser = (): User | null => this.sessionUser;
+
+  subscribeToSession = (listener: () => void): (() => void) => {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  };
+
+  private setSessionUser(user: User | null) {
+    this.sessionUser = user;
+    this.sessionListeners.forEach(listener => listener());
+  }
 
-  // Initialize default users if they don't exist
-  async initializeDefaultUsers(): Promise<void> {
-    try {
-      const querySnapshot = await getDocs(this.usersCollection);
-      if (querySnapshot.empty) {
-        console.log('No users found in database. Please create users through the signup page.');
+  // Staff sign in with a username; Firebase Auth needs the email behind it
+  private async resolveEmail(usernameOrEmail: string): Promise<string | null> {
+    if (usernameOrEmail.includes('@')) return usernameOrEmail;
+
+    const indexDoc = await getDoc(doc(db, 'usernames', usernameOrEmail.trim().toLowerCase()));
+    return indexDoc.exists() ? indexDoc.data().email : null;
+  }
+
+  // Signs in on the given Auth instance, moving legacy accounts onto Firebase Auth first
+  private async signIn(targetAuth: Auth, credentials: LoginCredentials): Promise<FirebaseUser> {
+    const email = await this.resolveEmail(credentials.username);
+
+    if (email) {
+      try {
+        const result = await signInWithEmailAndPassword(targetAuth, email, credentials.password);
+        return result.user;
+      } catch (error) {
+        if (!(error instanceof FirebaseError) || error.code !== 'auth/invalid-credential') {
+          throw this.toAuthError(error);
+        }
       }
+    }
+
+    try {
+      const migrate = httpsCallable<LoginCredentials, { email: string }>(functions, 'migrateLegacyAccount');
+      const { data } = await migrate(credentials);
+      const result = await signInWithEmailAndPassword(targetAuth, data.email, credentials.password);
+      return result.user;
     } catch (error) {
-      console.error('Error checking users collection:', error);
+      throw this.toAuthError(error);
+    }
+  }
+
+  // Builds the app user from verified token claims; the profile doc only supplies display fields
+  private async loadSessionUser(firebaseUser: FirebaseUser, forceRefresh: boolean = false): Promise<User | null> {
+    const token = await firebaseUser.getIdTokenResult(forceRefresh);
+    const role = token.claims.role as UserRole | undefined;
+    if (!role) return null;
+
+    if (token.claims.active !== true) {
+      throw new Error('Account is deactivated');
+    }
+
+    const profileDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
+    const profile = profileDoc.data() || {};
+
+    return {
+      id: firebaseUser.uid,
+      username: profile.username || '',
+      email: firebaseUser.email || profile.email || '',
+      firstName: profile.firstName || '',
+      lastName: profile.lastName || '',
+      role,
+      department: profile.department,
+      isActive: true,
+      createdAt: profile.createdAt?.toDate() || new Date(firebaseUser.metadata.creationTime || Date.now()),
+      permissions: (token.claims.permissions as Permission[] | undefined) || [],
+      permissionOverrides: profile.permissionOverrides,
+      lastLogin: profile.lastLogin?.toDate()
+    };
+  }
+
+  private toAuthError(error: unknown): Error {
+    const code = error instanceof FirebaseError ? error.code : '';
+    switch (code) {
+      case 'auth/invalid-credential':
+      case 'functions/unauthenticated':
+      case 'functions/not-found':
+        return new Error('Invalid username or password');
+      case 'auth/user-disabled':
+      case 'functions/permission-denied':
+        return new Error('Account is deactivated or awaiting administrator approval');
+      case 'auth/too-many-requests':
+        return new Error('Too many failed attempts. Please try again later.');
+      case 'auth/email-already-in-use':
+        return new Error('Email already exists');
+      case 'auth/weak-password':
+        return new Error('Password must be at least 8 characters long');
+      default:
+        return error instanceof Error ? error : new Error('Authentication failed');
     }
   }
 
   async login(credentials: LoginCredentials): Promise<User> {
     try {
       console.log('Attempting login for username:', credentials.username);
-      
-      // Query Firebase for the user
-      const q = query(
-        this.usersCollection,
-        where('username', '==', credentials.username)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      
-      if (querySnapshot.empty) {
-        throw new Error('Invalid username or password');
-      }
 
-      const userDoc = querySnapshot.docs[0];
-      const userData = userDoc.data();
-      
-      // Check password (in production, use proper password hashing)
-      if (userData.password !== credentials.password) {
-        throw new Error('Invalid username or password');
-      }
+      const firebaseUser = await this.signIn(auth, credentials);
+      const user = await this.loadSessionUser(firebaseUser, true);
 
-      if (!userData.isActive) {
-        throw new Error('Account is deactivated');
+      if (!user) {
+        await signOut(auth);
+        throw new Error('Your account is still being set up. Please try again in a moment.');
       }
 
-      // Create user object
-      const user: User = {
-        id: userDoc.id,
-        username: userData.username,
-        email: userData.email,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        role: userData.role,
-        department: userData.department,
-        isActive: userData.isActive,
-        createdAt: userData.createdAt.toDate(),
-        permissions: userData.permissions || [],
-        lastLogin: userData.lastLogin?.toDate()
-      };
-
       // Update last login time
-      await this.updateLastLogin(userDoc.id);
+      await this.updateLastLogin(user.id);
+      this.setSessionUser(user);
+      await auditService.record({ action: 'user_login', targetUserId: user.id, details: { username: user.username } });
 
-      // Store user in localStorage for session management
-      localStorage.setItem('currentUser', JSON.stringify(user));
-      
       console.log('Login successful for user:', user.username);
       return user;
     } catch (error) {
@@ -85,9 +164,27 @@ class AuthService {
     }
   }
 
+  // Confirms a supervisor's credentials for a check-in policy override
+  async verifySupervisor(credentials: LoginCredentials): Promise<User> {
+    try {
+      const firebaseUser = await this.signIn(provisioningAuth, credentials);
+      const user = await this.loadSessionUser(firebaseUser, true);
+      if (!user || !this.canOverrideCheckInPolicy(user)) {
+        throw new Error('This account is not allowed to approve overrides');
+      }
+      return user;
+    } finally {
+      await signOut(provisioningAuth);
+    }
+  }
+
   async logout(): Promise<void> {
     try {
-      localStorage.removeItem('currentUser');
+      if (this.sessionUser) {
+        await auditService.record({ action: 'user_logout', targetUserId: this.sessionUser.id });
+      }
+      await signOut(auth);
+      this.setSessionUser(null);
       console.log('User logged out successfully');
     } catch (error) {
       console.error('Logout error:', error);
@@ -97,59 +194,143 @@ class AuthService {
 
   async getCurrentUser(): Promise<User | null> {
     try {
-      const userStr = localStorage.getItem('currentUser');
-      if (!userStr) return null;
-      
-      return JSON.parse(userStr);
+      await auth.authStateReady();
+      if (!auth.currentUser) return null;
+
+      return await this.loadSessionUser(auth.currentUser);
     } catch (error) {
       console.error('Get current user error:', error);
       return null;
     }
   }
 
-  async createUser(userData: Omit<User, 'id' | 'createdAt'> & { password: string }): Promise<User> {
+  // Emits the verified session user whenever Firebase Auth state changes
+  onAuthStateChanged(callback: (user: User | null) => void): () => void {
+    return onAuthStateChanged(auth, async (firebaseUser) => {
+      let user: User | null = null;
+      if (firebaseUser) {
+        try {
+          user = await this.loadSessionUser(firebaseUser);
+        } catch (error) {
+          console.error('Session restore error:', error);
+        }
+      }
+      this.setSessionUser(user);
+      callback(user);
+    });
+  }
+
+  async createUser(userData: NewStaffAccount): Promise<User> {
+    return this.provisionAccount({ ...userData, isActive: true }, null, false);
+  }
+
+  // Public signup: an invitation fixes the role and activates the account once the invitee has verified
+  // their email address (`onVerificationSent` is called while that is awaited), otherwise the account
+  // holds the permissionless 'pending' role until an admin approves it
+  async registerStaff(
+    userData: NewStaffAccount,
+    invitationCode?: string,
+    onVerificationSent?: (email: string) => void
+  ): Promise<User> {
+    let invitation: Invitation | null = null;
+
+    if (invitationCode) {
+      invitation = await invitationService.getInvitation(invitationCode);
+      if (!invitation || invitationService.getStatus(invitation) !== 'pending') {
+        throw new Error('This invitation is invalid, expired or has been revoked');
+      }
+      if (invitation.email !== userData.email.trim().toLowerCase()) {
+        throw new Error('This invitation was issued for a different email address');
+      }
+    }
+
+    return this.provisionAccount(
+      invitation
+        ? { ...userData, role: invitation.role, isActive: true, invitationId: invitation.id }
+        : { ...userData, role: 'pending', requestedRole: userData.role, isActive: false, pendingApproval: true },
+      invitation,
+      true,
+      onVerificationSent
+    );
+  }
+
+  private async provisionAccount(
+    userData: NewStaffAccount,
+    invitation: Invitation | null,
+    selfRegistered: boolean,
+    onVerificationSent?: (email: string) => void
+  ): Promise<User> {
     try {
       console.log('Creating new user:', userData.username);
       
       // Check if username already exists
-      const existingUserQuery = query(
-        this.usersCollection,
-        where('username', '==', userData.username)
-      );
-      const existingUserSnapshot = await getDocs(existingUserQuery);
-      
-      if (!existingUserSnapshot.empty) {
+      const existingUsername = await getDoc(doc(db, 'usernames', userData.username.trim().toLowerCase()));
+      if (existingUsername.exists()) {
         throw new Error('Username already exists');
       }
 
-      // Check if email already exists
-      const existingEmailQuery = query(
-        this.usersCollection,
-        where('email', '==', userData.email)
-      );
-      const existingEmailSnapshot = await getDocs(existingEmailQuery);
-      
-      if (!existingEmailSnapshot.empty) {
-        throw new Error('Email already exists');
-      }
-
+      const { password, ...profile } = userData;
       const newUser = {
-        ...userData,
+        ...profile,
         createdAt: new Date(),
-        isActive: true,
         lastLogin: null
       };
 
-      // Save to Firebase
-      const docRef = await addDoc(this.usersCollection, {
-        ...newUser,
-        createdAt: Timestamp.fromDate(newUser.createdAt),
-        lastLogin: null
-      });
+      // Create the Auth account on the provisioning app so the current session is untouched
+      let created = true;
+      const firebaseUser = await createUserWithEmailAndPassword(provisioningAuth, userData.email, password)
+        .then(credential => credential.user)
+        .catch(async error => {
+          const resumed = invitation && error?.code === 'auth/email-already-in-use'
+            ? await this.resumeInvitedSignup(userData.email, password)
+            : null;
+          if (!resumed) throw this.toAuthError(error);
+          created = false;
+          return resumed;
+        });
+
+      try {
+        if (invitation) await this.awaitEmailVerification(firebaseUser, onVerificationSent);
+
+        // Role claims are applied from this profile by the syncUserClaims function
+        const batch = writeBatch(provisioningDb);
+        batch.set(doc(provisioningDb, 'users', firebaseUser.uid), {
+          ...newUser,
+          createdAt: Timestamp.fromDate(newUser.createdAt),
+          lastLogin: null
+        });
+
+        // Accepting in the same write lets the security rules check the profile against the invitation
+        if (invitation) {
+          batch.update(doc(provisioningDb, 'invitations', invitation.id), {
+            status: 'accepted',
+            acceptedBy: firebaseUser.uid,
+            acceptedAt: Timestamp.fromDate(newUser.createdAt)
+          });
+        }
+
+        await batch.commit();
+
+        // Self-registration has no staff session to record it from; syncUserClaims records it instead
+        if (!selfRegistered) {
+          await auditService.record({
+            action: 'user_created',
+            targetUserId: firebaseUser.uid,
+            after: profile
+          });
+        }
+      } catch (error) {
+        // Don't leave an orphaned Auth account behind a rejected profile
+        if (created) await deleteAuthUser(firebaseUser).catch(() => undefined);
+        throw error;
+      } finally {
+        await signOut(provisioningAuth);
+      }
 
       const createdUser: User = {
         ...newUser,
-        id: docRef.id,
+        permissions: [],
+        id: firebaseUser.uid,
         createdAt: newUser.createdAt,
         lastLogin: undefined
       };
@@ -162,6 +343,60 @@ class AuthService {
     }
   }
 
+  // An invitee who left the signup page before verifying has an Auth account but no profile yet;
+  // signing up again with the same password picks up where they left off
+  private async resumeInvitedSignup(email: string, password: string): Promise<FirebaseUser | null> {
+    const credential = await signInWithEmailAndPassword(provisioningAuth, email, password).catch(() => null);
+    if (!credential) return null;
+
+    const profile = await getDoc(doc(provisioningDb, 'users', credential.user.uid)).catch(() => null);
+    if (profile && !profile.exists()) return credential.user;
+
+    await signOut(provisioningAuth);
+    return null;
+  }
+
+  // The rules accept an invitation only from a verified address, read from the ID token, so the token
+  // is refreshed once the link has been followed
+  private async awaitEmailVerification(firebaseUser: FirebaseUser, onVerificationSent?: (email: string) => void): Promise<void> {
+    if (!firebaseUser.emailVerified) {
+      await sendEmailVerification(firebaseUser);
+      onVerificationSent?.(firebaseUser.email || '');
+    }
+
+    const deadline = Date.now() + VERIFICATION_TIMEOUT_MS;
+    while (!firebaseUser.emailVerified) {
+      if (Date.now() > deadline) {
+        throw new Error('The verification link was not followed in time. Please sign up again.');
+      }
+      await new Promise(resolve => setTimeout(resolve, VERIFICATION_POLL_MS));
+      await firebaseUser.reload();
+    }
+    await firebaseUser.getIdToken(true);
+  }
+
+  async approveUser(userId: string, role: UserRole, approvedBy: string): Promise<void> {
+    try {
+      const after = {
+        role,
+        isActive: true,
+        pendingApproval: false,
+        approvedBy,
+        approvedAt: Timestamp.fromDate(new Date())
+      };
+      await updateDoc(doc(db, 'users', userId), after);
+      await auditService.record({
+        action: 'user_approved',
+        targetUserId: userId,
+        before: { role: 'pending', isActive: false, pendingApproval: true },
+        after
+      });
+    } catch (error) {
+      console.error('Approve user error:', error);
+      throw error;
+    }
+  }
+
   async getAllUsers(): Promise<User[]> {
     try {
       console.log('Fetching all users from Firebase...');
@@ -169,9 +404,10 @@ class AuthService {
       
       const users = querySnapshot.docs.map(doc => ({
         id: doc.id,
-        ...doc.data(),
+        ...this.withoutSecrets(doc.data()),
         createdAt: doc.data().createdAt.toDate(),
-        lastLogin: doc.data().lastLogin?.toDate()
+        lastLogin: doc.data().lastLogin?.toDate(),
+        approvedAt: doc.data().approvedAt?.toDate()
       })) as User[];
 
       console.log(`Found ${users.length} users`);
@@ -203,6 +439,11 @@ class AuthService {
       }
 
       await updateDoc(userRef, firebaseUpdates);
+      await auditService.record({
+        action: 'user_updated',
+        targetUserId: userId,
+        ...auditService.diff(this.withoutSecrets(userDoc.data()), firebaseUpdates)
+      });
       console.log('User updated successfully');
     } catch (error) {
       console.error('Update user error:', error);
@@ -215,7 +456,13 @@ class AuthService {
       console.log('Deleting user:', userId);
       
       const userRef = doc(db, 'users', userId);
+      const userDoc = await getDoc(userRef);
       await deleteDoc(userRef);
+      await auditService.record({
+        action: 'user_deleted',
+        targetUserId: userId,
+        before: userDoc.exists() ? this.withoutSecrets(userDoc.data()) : undefined
+      });
       
       console.log('User deleted successfully');
     } catch (error) {
@@ -239,10 +486,14 @@ class AuthService {
     try {
       console.log('Changing password for user:', userId);
       
-      const userRef = doc(db, 'users', userId);
-      await updateDoc(userRef, {
-        password: newPassword // In production, hash this password
-      });
+      // Resets of other accounts are recorded by the setStaffPassword function itself
+      if (auth.currentUser?.uid === userId) {
+        await updatePassword(auth.currentUser, newPassword);
+        await auditService.record({ action: 'user_password_changed', targetUserId: userId });
+      } else {
+        const setStaffPassword = httpsCallable(functions, 'setStaffPassword');
+        await setStaffPassword({ uid: userId, password: newPassword });
+      }
       
       console.log('Password changed successfully');
     } catch (error) {
@@ -269,7 +520,7 @@ class AuthService {
       
       return {
         id: userDoc.id,
-        ...userData,
+        ...this.withoutSecrets(userData),
         createdAt: userData.createdAt.toDate(),
         lastLogin: userData.lastLogin?.toDate()
       } as User;
@@ -279,29 +530,31 @@ class AuthService {
     }
   }
 
-  hasPermission(user: User, permission: string): boolean {
-    if (user.role === 'super-admin') return true;
-    return user.permissions.includes(permission);
+  // Legacy profiles may still hold a password until their first Firebase Auth login
+  private withoutSecrets(data: DocumentData): DocumentData {
+    return Object.fromEntries(
+      Object.entries(data).filter(([key]) => key !== 'password' && key !== 'passwordHash')
+    );
+  }
+
+  hasPermission(user: User, permission: Permission): boolean {
+    return permissionService.hasPermission(user, permission);
   }
 
   canManageUsers(user: User): boolean {
-    return this.hasPermission(user, 'manage_users') || user.role === 'super-admin';
+    return this.hasPermission(user, 'manage_users');
   }
 
   canViewReports(user: User): boolean {
-    return this.hasPermission(user, 'view_reports') || user.role === 'super-admin';
+    return this.hasPermission(user, 'view_reports');
   }
 
   canCheckInVisitors(user: User): boolean {
-    return this.hasPermission(user, 'check_in_visitors') || user.role === 'front-desk';
+    return this.hasPermission(user, 'check_in_visitors');
   }
 
-  // Initialize the service when imported
-  constructor() {
-    // Initialize default users when the service is first created
-    this.initializeDefaultUsers().catch(error => {
-      console.error('Failed to initialize default users:', error);
-    });
+  canOverrideCheckInPolicy(user: User): boolean {
+    return this.hasPermission(user, 'override_check_in_policy');
   }
 }
 
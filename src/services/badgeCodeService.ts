@@ -0,0 +1,121 @@
+// src/services/badgeCodeService.ts
+
+import { doc, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { BadgeCodePayload, BadgeCodeVerification } from '../types';
+
+// Keep in sync with functions/src/badgeCodes.ts
+const CODE_PREFIX = 'FV1';
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(text.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const isPayload = (value: unknown): value is BadgeCodePayload => {
+  const p = value as BadgeCodePayload;
+  return !!p && (p.t === 'v' || p.t === 'p') && typeof p.id === 'string' && typeof p.jti === 'string' &&
+    typeof p.iat === 'number' && typeof p.exp === 'number';
+};
+
+class BadgeCodeService {
+  private publicKey: Promise<CryptoKey> | null = null;
+
+  // SPKI PEM of the facility's P-256 public key; only the signing function holds the private half
+  private getPublicKey(): Promise<CryptoKey> {
+    if (!this.publicKey) {
+      const pem = import.meta.env.VITE_BADGE_PUBLIC_KEY as string | undefined;
+      if (!pem) return Promise.reject(new Error('Badge verification key is not configured'));
+
+      const der = fromBase64Url(pem.replace(/-----(BEGIN|END) PUBLIC KEY-----|\s/g, ''));
+      this.publicKey = crypto.subtle.importKey('spki', der, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    }
+    return this.publicKey;
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Issuing and revoking (Cloud Functions)
+  // ──────────────────────────────────────────────────────────────
+  async issue(visitId: string): Promise<{ qrCode: string; codeId: string; expiresAt: Date }> {
+    try {
+      const issueBadgeCode = httpsCallable<{ visitId: string }, { qrCode: string; codeId: string; expiresAt: number }>(
+        functions, 'issueBadgeCode'
+      );
+      const { data } = await issueBadgeCode({ visitId });
+      return { ...data, expiresAt: new Date(data.expiresAt) };
+    } catch (error) {
+      console.error('Issue badge code error:', error);
+      throw error;
+    }
+  }
+
+  async revoke(codeId: string, reason: string): Promise<void> {
+    try {
+      const revokeBadgeCode = httpsCallable(functions, 'revokeBadgeCode');
+      await revokeBadgeCode({ codeId, reason });
+    } catch (error) {
+      console.error('Revoke badge code error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Verification
+  // ──────────────────────────────────────────────────────────────
+  async verify(code: string): Promise<BadgeCodeVerification> {
+    const parts = code.trim().split('.');
+    if (parts.length !== 3 || parts[0] !== CODE_PREFIX) {
+      return {
+        valid: false,
+        reason: code.trim().startsWith('{')
+          ? 'This QR code is from an older, unsigned badge. Please use your visitor ID number.'
+          : 'This is not a visitor badge QR code.',
+      };
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[1])));
+    } catch {
+      return { valid: false, reason: 'This QR code is damaged or has been altered.' };
+    }
+
+    try {
+      const signed = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        await this.getPublicKey(),
+        fromBase64Url(parts[2]),
+        new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+      );
+      if (!signed || !isPayload(payload)) {
+        return { valid: false, reason: 'This QR code was not issued by this facility or has been altered.' };
+      }
+    } catch (error) {
+      console.error('Badge code verification error:', error);
+      return { valid: false, reason: 'This QR code could not be verified. Please use your visitor ID number.' };
+    }
+
+    const now = Date.now() / 1000;
+    if (payload.exp < now) {
+      return { valid: false, reason: `This QR code expired on ${new Date(payload.exp * 1000).toLocaleDateString()}.` };
+    }
+    if (payload.iat > now + 300) {
+      return { valid: false, reason: 'This QR code has an issue date in the future.' };
+    }
+
+    try {
+      const revoked = await getDoc(doc(db, 'revoked_badge_codes', payload.jti));
+      if (revoked.exists()) {
+        return { valid: false, reason: 'This QR code has been revoked. Please see the front desk.' };
+      }
+    } catch (error) {
+      console.error('Badge revocation check error:', error);
+      return { valid: false, reason: 'Could not check whether this QR code was revoked. Please try again.' };
+    }
+
+    return { valid: true, payload };
+  }
+}
+
+export const badgeCodeService = new BadgeCodeService();
@@ -0,0 +1,200 @@
+// src/services/badgeNumberService.ts
+
+import {
+  doc,
+  getDoc,
+  getDocFromCache,
+  DocumentData,
+  setDoc,
+  runTransaction,
+  Timestamp,
+  Transaction,
+} from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from '../firebase/config';
+import { BadgeNumberingSettings, NumberingScheme, Visitor } from '../types';
+import { auditService } from './auditService';
+
+export const DEFAULT_BADGE_NUMBERING: BadgeNumberingSettings = {
+  visitorId: { prefix: 'VID-', digits: 6 },
+  badges: {
+    family: { prefix: 'F-', digits: 4, resetDaily: false },
+    friend: { prefix: 'G-', digits: 4, resetDaily: false },
+    professional: { prefix: 'P-', digits: 4, resetDaily: false },
+    volunteer: { prefix: 'V-', digits: 4, resetDaily: false },
+    contractor: { prefix: 'C-', digits: 4, resetDaily: false },
+  },
+};
+
+// Numbers still held by someone on site are skipped; this many in a row means the scheme is exhausted
+const MAX_SKIPPED_NUMBERS = 50;
+
+// Offline badges carry a tag of letters unique to the terminal, so they never match a number issued online
+const TERMINAL_TAG_KEY = 'offline_badge_terminal_tag';
+const OFFLINE_SEQUENCE_KEY = 'offline_badge_sequence';
+const TAG_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export const formatNumber = (scheme: Omit<NumberingScheme, 'resetDaily'>, value: number): string =>
+  `${scheme.prefix}${String(value).padStart(scheme.digits, '0')}`;
+
+class BadgeNumberService {
+  private settingsRef = doc(db, 'settings', 'badgeNumbering');
+
+  // ──────────────────────────────────────────────────────────────
+  // Settings
+  // ──────────────────────────────────────────────────────────────
+  async getSettings(): Promise<BadgeNumberingSettings> {
+    try {
+      const snapshot = await getDoc(this.settingsRef);
+      return this.withDefaults(snapshot.data());
+    } catch (error) {
+      console.error('getSettings error:', error);
+      return DEFAULT_BADGE_NUMBERING;
+    }
+  }
+
+  async saveSettings(settings: BadgeNumberingSettings, updatedBy: string): Promise<void> {
+    const schemes = [settings.visitorId, ...Object.values(settings.badges)];
+    if (schemes.some(scheme => scheme.prefix.includes('/'))) {
+      throw new Error('Prefixes cannot contain "/"');
+    }
+    if (schemes.some(scheme => !Number.isInteger(scheme.digits) || scheme.digits < 1 || scheme.digits > 10)) {
+      throw new Error('Numbers must have between 1 and 10 digits');
+    }
+
+    try {
+      const before = await this.getSettings();
+      await setDoc(this.settingsRef, {
+        visitorId: settings.visitorId,
+        badges: settings.badges,
+        updatedAt: Timestamp.fromDate(new Date()),
+        updatedBy,
+      });
+      await auditService.record({
+        action: 'badge_numbering_updated',
+        ...auditService.diff(
+          { visitorId: before.visitorId, ...before.badges },
+          { visitorId: settings.visitorId, ...settings.badges }
+        ),
+      });
+    } catch (error) {
+      console.error('Save badge numbering error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Allocation
+  // ──────────────────────────────────────────────────────────────
+  async allocateVisitorIdNumber(): Promise<string> {
+    const counterRef = doc(db, 'counters', 'visitorId');
+
+    return runTransaction(db, async (transaction) => {
+      const settings = this.withDefaults((await transaction.get(this.settingsRef)).data());
+      const value = ((await transaction.get(counterRef)).data()?.value || 0) + 1;
+
+      transaction.set(counterRef, { value, updatedAt: Timestamp.now() });
+      return formatNumber(settings.visitorId, value);
+    });
+  }
+
+  // Runs inside the check-in transaction, so the numbers are only taken if the visit is written.
+  // Each number is reserved in active_badges until its holder leaves, so no two people on site share one.
+  async reserveBadgeNumbers(
+    transaction: Transaction,
+    accessLevel: Visitor['accessLevel'],
+    count: number,
+    visitId: string
+  ): Promise<string[]> {
+    const settings = this.withDefaults((await transaction.get(this.settingsRef)).data());
+    const scheme = settings.badges[accessLevel] || DEFAULT_BADGE_NUMBERING.badges.family;
+    const counterRef = doc(db, 'counters', `badge_${accessLevel}`);
+    const counter = (await transaction.get(counterRef)).data();
+
+    const period = format(new Date(), 'yyyy-MM-dd');
+    let value = scheme.resetDaily && counter?.period !== period ? 0 : (counter?.value || 0);
+    const numbers: string[] = [];
+
+    while (numbers.length < count) {
+      let skipped = 0;
+      let candidate = formatNumber(scheme, ++value);
+      while ((await transaction.get(doc(db, 'active_badges', candidate))).exists()) {
+        if (++skipped > MAX_SKIPPED_NUMBERS) {
+          throw new Error(`No free badge numbers starting with "${scheme.prefix}". Ask an administrator to change the numbering.`);
+        }
+        candidate = formatNumber(scheme, ++value);
+      }
+      numbers.push(candidate);
+    }
+
+    const reservedAt = Timestamp.now();
+    transaction.set(counterRef, { value, period, updatedAt: reservedAt });
+    numbers.forEach(number => transaction.set(doc(db, 'active_badges', number), { visitId, reservedAt }));
+    return numbers;
+  }
+
+  // For check-ins taken while the terminal is offline, e.g. F-KQX-0007; the scheme comes from the local cache
+  async issueOfflineBadgeNumbers(accessLevel: Visitor['accessLevel'], count: number): Promise<string[]> {
+    let settings = DEFAULT_BADGE_NUMBERING;
+    try {
+      settings = this.withDefaults((await getDocFromCache(this.settingsRef)).data());
+    } catch {
+      // Never cached on this terminal; the default prefixes are close enough for a provisional badge
+    }
+    const scheme = settings.badges[accessLevel] || DEFAULT_BADGE_NUMBERING.badges.family;
+
+    let tag = localStorage.getItem(TERMINAL_TAG_KEY);
+    if (!tag) {
+      tag = Array.from({ length: 3 }, () => TAG_LETTERS[Math.floor(Math.random() * TAG_LETTERS.length)]).join('');
+      localStorage.setItem(TERMINAL_TAG_KEY, tag);
+    }
+
+    const first = parseInt(localStorage.getItem(OFFLINE_SEQUENCE_KEY) || '0', 10) + 1;
+    localStorage.setItem(OFFLINE_SEQUENCE_KEY, String(first + count - 1));
+    return Array.from({ length: count }, (_, i) => formatNumber({ prefix: `${scheme.prefix}${tag}-`, digits: scheme.digits }, first + i));
+  }
+
+  // Runs inside the check-in transaction when an offline check-in syncs. Numbers nobody holds are
+  // reserved as they are; any taken since are replaced with fresh ones, in the same order
+  async reconcileBadgeNumbers(
+    transaction: Transaction,
+    accessLevel: Visitor['accessLevel'],
+    offlineNumbers: string[],
+    visitId: string
+  ): Promise<string[]> {
+    const taken = await Promise.all(
+      offlineNumbers.map(async number => (await transaction.get(doc(db, 'active_badges', number))).exists())
+    );
+    const takenCount = taken.filter(Boolean).length;
+    const replacements = takenCount > 0
+      ? await this.reserveBadgeNumbers(transaction, accessLevel, takenCount, visitId)
+      : [];
+
+    const reservedAt = Timestamp.now();
+    return offlineNumbers.map((number, index) => {
+      if (taken[index]) return replacements.shift()!;
+      transaction.set(doc(db, 'active_badges', number), { visitId, reservedAt });
+      return number;
+    });
+  }
+
+  // Called from the departure transaction; badges issued before reservations existed have nothing to release
+  releaseBadgeNumbers(transaction: Transaction, badgeNumbers: string[]): void {
+    badgeNumbers
+      .filter(number => number && !number.includes('/'))
+      .forEach(number => transaction.delete(doc(db, 'active_badges', number)));
+  }
+
+  private withDefaults(data: DocumentData | undefined): BadgeNumberingSettings {
+    return {
+      visitorId: { ...DEFAULT_BADGE_NUMBERING.visitorId, ...data?.visitorId },
+      badges: Object.fromEntries(
+        Object.entries(DEFAULT_BADGE_NUMBERING.badges).map(([level, scheme]) => [level, { ...scheme, ...data?.badges?.[level] }])
+      ) as BadgeNumberingSettings['badges'],
+      updatedAt: data?.updatedAt?.toDate(),
+      updatedBy: data?.updatedBy,
+    };
+  }
+}
+
+export const badgeNumberService = new BadgeNumberService();
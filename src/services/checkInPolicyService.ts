@@ -0,0 +1,200 @@
+// src/services/checkInPolicyService.ts
+
+import {
+  Visitor,
+  FamilyMember,
+  Resident,
+  CheckInPolicyAction,
+  CheckInPolicyRule,
+  CheckInPolicyResult,
+  CheckInPolicyViolation,
+  WatchlistMatch,
+} from '../types';
+import { residentService } from './residentService';
+import { watchlistService } from './watchlistService';
+import { occupancyService } from './occupancyService';
+
+// What the front desk must do when a rule is broken
+const RULE_ACTIONS: Record<CheckInPolicyRule, CheckInPolicyAction> = {
+  'resident-not-found': 'block',
+  'outside-visiting-hours': 'override',
+  'not-approved-visitor': 'override',
+  'special-instructions': 'warn',
+  'watchlist-match': 'block',
+  'occupancy-limit': 'warn', // Each limit sets its own action
+};
+
+const MATCHED_ON_LABELS: Record<WatchlistMatch['matchedOn'][number], string> = {
+  'id-number': 'ID number',
+  'phone': 'phone number',
+  'name': 'name',
+};
+
+const ACTION_SEVERITY: CheckInPolicyAction[] = ['allow', 'warn', 'override', 'block'];
+
+export class CheckInPolicyService {
+  // ──────────────────────────────────────────────────────────────
+  // Evaluate a pending visit against the chosen resident's rules
+  // ──────────────────────────────────────────────────────────────
+  // Every visit is screened against the watchlist and the occupancy limits, whoever it is for. The
+  // family members with the visitor are screened and checked against the approved list the same way
+  async evaluate(visitorData: Partial<Visitor>, at: Date = new Date()): Promise<CheckInPolicyResult> {
+    const familyMembers = visitorData.familyMembers || [];
+    const violations = [
+      ...await this.screenWatchlist(visitorData, familyMembers, at),
+      ...await this.checkOccupancy(visitorData),
+    ];
+
+    if (visitorData.visitorMeetingSelection !== 'resident' || !visitorData.residentId) {
+      return this.buildResult(null, violations);
+    }
+
+    const resident = await residentService.getResident(visitorData.residentId);
+    if (!resident) {
+      return this.buildResult(null, [
+        ...violations,
+        this.violation('resident-not-found', 'The selected resident is no longer in the registry.'),
+      ]);
+    }
+
+    const residentName = residentService.getResidentDisplayName(resident);
+
+    if (!this.isWithinVisitingHours(resident, at)) {
+      violations.push(this.violation(
+        'outside-visiting-hours',
+        `${residentName} receives visitors between ${resident.visitingHours.start} and ${resident.visitingHours.end}.`
+      ));
+    }
+
+    if (!this.isApprovedVisitor(resident, visitorData)) {
+      violations.push(this.violation(
+        'not-approved-visitor',
+        `${visitorData.firstName} ${visitorData.lastName} is not on the approved visitor list for ${residentName}.`
+      ));
+    }
+    familyMembers.filter(member => !this.isApprovedVisitor(resident, member)).forEach(member => {
+      violations.push({
+        ...this.violation(
+          'not-approved-visitor',
+          `${member.firstName} ${member.lastName} (family member) is not on the approved visitor list for ${residentName}.`
+        ),
+        familyMemberId: member.id,
+      });
+    });
+
+    if (resident.specialInstructions) {
+      violations.push(this.violation('special-instructions', resident.specialInstructions));
+    }
+
+    return this.buildResult(resident, violations);
+  }
+
+  isWithinVisitingHours(resident: Resident, at: Date): boolean {
+    const { start, end } = resident.visitingHours;
+    if (!start || !end) return true;
+
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const startMinutes = this.toMinutes(start);
+    const endMinutes = this.toMinutes(end);
+
+    // Windows such as 20:00–08:00 run past midnight
+    if (startMinutes <= endMinutes) {
+      return minutes >= startMinutes && minutes <= endMinutes;
+    }
+    return minutes >= startMinutes || minutes <= endMinutes;
+  }
+
+  isApprovedVisitor(resident: Resident, visitorData: Pick<Partial<Visitor>, 'firstName' | 'lastName' | 'visitorIdNumber'>): boolean {
+    // An empty list means the family has not restricted visits
+    if (resident.approvedVisitors.length === 0) return true;
+
+    const fullName = this.normalize(`${visitorData.firstName || ''} ${visitorData.lastName || ''}`);
+    const idNumber = this.normalize(visitorData.visitorIdNumber || '');
+
+    return resident.approvedVisitors.some(entry => {
+      const normalized = this.normalize(entry);
+      return normalized === fullName || (!!idNumber && normalized === idNumber);
+    });
+  }
+
+  // A listed person on a block entry is only blocked outright on an ID number, phone or exact name match;
+  // a merely similar name needs a supervisor to compare the photo instead.
+  // When the watchlist cannot be read the visit needs a supervisor too
+  private async screenWatchlist(visitorData: Partial<Visitor>, familyMembers: FamilyMember[], at: Date): Promise<CheckInPolicyViolation[]> {
+    const residentId = visitorData.visitorMeetingSelection === 'resident' ? visitorData.residentId : undefined;
+    const screenPerson = async (
+      person: { firstName?: string; lastName?: string; phone?: string; visitorIdNumber?: string },
+      familyMember?: FamilyMember
+    ) => {
+      const matches = await watchlistService.screen({
+        firstName: person.firstName || '',
+        lastName: person.lastName || '',
+        phone: person.phone,
+        visitorIdNumber: person.visitorIdNumber,
+        residentId,
+      }, at);
+      return matches.map(match => this.watchlistViolation(match, familyMember));
+    };
+
+    try {
+      const screened = await Promise.all([
+        screenPerson(visitorData),
+        ...familyMembers.map(member => screenPerson(member, member)),
+      ]);
+      return screened.flat();
+    } catch (error) {
+      console.error('Watchlist screening error:', error);
+      return [{ rule: 'watchlist-match', action: 'override', message: 'The watchlist could not be checked. A supervisor must approve this visit.' }];
+    }
+  }
+
+  private watchlistViolation(match: WatchlistMatch, familyMember?: FamilyMember): CheckInPolicyViolation {
+    const certain = match.matchedOn.includes('id-number') || match.matchedOn.includes('phone') || match.nameSimilarity === 1;
+    const listedName = `${match.entry.firstName} ${match.entry.lastName}`.trim();
+    const matchedOn = match.matchedOn.map(field => MATCHED_ON_LABELS[field]).join(' and ');
+    const who = familyMember ? `family member ${familyMember.firstName} ${familyMember.lastName} ` : '';
+    return {
+      rule: 'watchlist-match',
+      action: match.entry.action === 'block' && certain ? 'block' : 'override',
+      message: `Watchlist: ${who}matches ${listedName} on ${matchedOn}. ${match.entry.reason}`,
+      watchlistMatch: match,
+      ...(familyMember ? { familyMemberId: familyMember.id } : {}),
+    };
+  }
+
+  // The whole party counts towards the limits
+  private async checkOccupancy(visitorData: Partial<Visitor>): Promise<CheckInPolicyViolation[]> {
+    try {
+      return await occupancyService.check(visitorData, 1 + (visitorData.familyMembers?.length || 0));
+    } catch (error) {
+      console.error('Occupancy check error:', error);
+      return [{ rule: 'occupancy-limit', action: 'warn', message: 'Occupancy could not be checked. Make sure there is room before sending the visitor through.' }];
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Utilities
+  // ──────────────────────────────────────────────────────────────
+  private buildResult(resident: Resident | null, violations: CheckInPolicyViolation[]): CheckInPolicyResult {
+    const action = violations.reduce<CheckInPolicyAction>(
+      (worst, v) => (ACTION_SEVERITY.indexOf(v.action) > ACTION_SEVERITY.indexOf(worst) ? v.action : worst),
+      'allow'
+    );
+    return { action, violations, resident };
+  }
+
+  private violation(rule: CheckInPolicyRule, message: string): CheckInPolicyViolation {
+    return { rule, action: RULE_ACTIONS[rule], message };
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  private normalize(value: string): string {
+    return value.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
+
+export const checkInPolicyService = new CheckInPolicyService();
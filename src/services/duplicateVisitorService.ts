@@ -0,0 +1,235 @@
+// src/services/duplicateVisitorService.ts
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  query,
+  where,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { DuplicateProfileGroup, VisitorProfile, VisitorProfileUpdate } from '../types';
+import { auditService } from './auditService';
+import { nameMatchService } from './nameMatchService';
+
+// Stricter than watchlist screening: a false merge is harder to undo than a second look at the desk
+export const DUPLICATE_NAME_THRESHOLD = 0.85;
+
+// Firestore allows 500 writes per batch; leaves room for the two profile writes
+const BATCH_SIZE = 400;
+
+type MatchReason = DuplicateProfileGroup['matchedOn'][number];
+
+export interface ProfileMergeResult {
+  survivor: VisitorProfile;
+  visitsMoved: number;
+}
+
+export class DuplicateVisitorService {
+  private profilesCollection = collection(db, 'visitorProfiles');
+  private visitsCollection = collection(db, 'visits');
+
+  private mapDocToProfile(snapshot: QueryDocumentSnapshot<DocumentData> | DocumentSnapshot<DocumentData>): VisitorProfile {
+    const data = snapshot.data() || {};
+    return {
+      id: snapshot.id,
+      schemaVersion: data.schemaVersion || undefined,
+      visitorIdNumber: data.visitorIdNumber || '',
+      firstName: data.firstName || '',
+      lastName: data.lastName || '',
+      email: data.email || '',
+      phone: data.phone || '',
+      photoUrl: data.photoUrl || undefined,
+      emergencyContact: data.emergencyContact || '',
+      emergencyPhone: data.emergencyPhone || '',
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      lastVisitAt: data.lastVisitAt?.toDate(),
+      mergedInto: data.mergedInto || undefined,
+      mergedAt: data.mergedAt?.toDate(),
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Detection
+  // ──────────────────────────────────────────────────────────────
+  // Profiles sharing a name (in either order), phone or email, or with near-identical
+  // names, are grouped transitively. Merged-away profiles are left out.
+  async findDuplicateGroups(): Promise<DuplicateProfileGroup[]> {
+    try {
+      const snapshot = await getDocs(this.profilesCollection);
+      const profiles = snapshot.docs.map(d => this.mapDocToProfile(d)).filter(profile => !profile.mergedInto);
+
+      const parent = profiles.map((_, i) => i);
+      const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+      const links: { a: number; b: number; reason: MatchReason }[] = [];
+      const link = (a: number, b: number, reason: MatchReason) => {
+        parent[find(a)] = find(b);
+        links.push({ a, b, reason });
+      };
+
+      const linkByKey = (reason: MatchReason, keyOf: (profile: VisitorProfile) => string) => {
+        const firstWithKey = new Map<string, number>();
+        profiles.forEach((profile, i) => {
+          const key = keyOf(profile);
+          if (!key) return;
+          const first = firstWithKey.get(key);
+          if (first === undefined) firstWithKey.set(key, i);
+          else link(first, i, reason);
+        });
+      };
+
+      linkByKey('name', profile => this.nameKey(profile).split(' ').sort().join(' '));
+      linkByKey('phone', profile => {
+        const phone = nameMatchService.normalizePhone(profile.phone);
+        return phone.length >= 7 ? phone : '';
+      });
+      linkByKey('email', profile => nameMatchService.normalizeEmail(profile.email));
+
+      // Only names that sound alike and share an initial are compared, which keeps this well short of every pair
+      const blocks = new Map<string, number[]>();
+      profiles.forEach((profile, i) => {
+        const key = `${nameMatchService.soundex(profile.lastName)}:${nameMatchService.normalizeName(profile.firstName)[0] || ''}`;
+        blocks.set(key, [...(blocks.get(key) || []), i]);
+      });
+      blocks.forEach(members => {
+        members.forEach((a, index) => {
+          members.slice(index + 1).forEach(b => {
+            if (find(a) === find(b)) return;
+            const similarity = nameMatchService.similarity(this.nameKey(profiles[a]), this.nameKey(profiles[b]));
+            if (similarity >= DUPLICATE_NAME_THRESHOLD) link(a, b, 'similar-name');
+          });
+        });
+      });
+
+      const groups = new Map<number, { members: Set<number>; matchedOn: Set<MatchReason> }>();
+      links.forEach(({ a, b, reason }) => {
+        const root = find(a);
+        const group = groups.get(root) || { members: new Set<number>(), matchedOn: new Set<MatchReason>() };
+        group.members.add(a).add(b);
+        group.matchedOn.add(reason);
+        groups.set(root, group);
+      });
+
+      return Array.from(groups.values())
+        .map(group => ({
+          profiles: Array.from(group.members)
+            .map(i => profiles[i])
+            .sort((a, b) => (b.lastVisitAt?.getTime() || 0) - (a.lastVisitAt?.getTime() || 0)),
+          matchedOn: Array.from(group.matchedOn),
+        }))
+        .sort((a, b) => b.profiles.length - a.profiles.length);
+    } catch (error) {
+      console.error('findDuplicateGroups error:', error);
+      throw error;
+    }
+  }
+
+  async countVisits(profileId: string): Promise<number> {
+    try {
+      const snapshot = await getCountFromServer(query(this.visitsCollection, where('profileId', '==', profileId)));
+      return snapshot.data().count;
+    } catch (error) {
+      console.error('countVisits error:', error);
+      return 0;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Merge
+  // ──────────────────────────────────────────────────────────────
+  // Moves every visit of the duplicate onto the survivor and applies the chosen details.
+  // The duplicate profile is kept, marked `mergedInto`, so its ID number and any badge
+  // printed with it still lead to the survivor. Safe to retry after a partial failure.
+  async mergeProfiles(survivorId: string, duplicateId: string, fields: VisitorProfileUpdate): Promise<ProfileMergeResult> {
+    try {
+      if (survivorId === duplicateId) throw new Error('Choose two different profiles to merge');
+
+      const [survivorSnap, duplicateSnap] = await Promise.all([
+        getDoc(doc(this.profilesCollection, survivorId)),
+        getDoc(doc(this.profilesCollection, duplicateId)),
+      ]);
+      if (!survivorSnap.exists() || !duplicateSnap.exists()) throw new Error('Visitor profile not found');
+
+      const survivor = this.mapDocToProfile(survivorSnap);
+      const duplicate = this.mapDocToProfile(duplicateSnap);
+      if (survivor.mergedInto) throw new Error(`${survivor.visitorIdNumber} has already been merged into another profile`);
+      if (duplicate.mergedInto && duplicate.mergedInto !== survivorId) {
+        throw new Error(`${duplicate.visitorIdNumber} has already been merged into another profile`);
+      }
+
+      const visits = await getDocs(query(this.visitsCollection, where('profileId', '==', duplicateId)));
+      for (let i = 0; i < visits.docs.length; i += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        visits.docs.slice(i, i + BATCH_SIZE).forEach(visit => {
+          batch.update(visit.ref, {
+            profileId: survivorId,
+            visitorIdNumber: survivor.visitorIdNumber,
+            mergedFromVisitorIdNumber: visit.data().mergedFromVisitorIdNumber || duplicate.visitorIdNumber,
+          });
+        });
+        await batch.commit();
+      }
+
+      const changes: Record<string, unknown> = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      );
+      const { before, after } = auditService.diff(survivor as unknown as Record<string, unknown>, changes);
+      const lastVisitAt = [survivor.lastVisitAt, duplicate.lastVisitAt]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+      const now = new Date();
+
+      const batch = writeBatch(db);
+      batch.update(survivorSnap.ref, {
+        ...after,
+        ...(lastVisitAt ? { lastVisitAt: Timestamp.fromDate(lastVisitAt) } : {}),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      batch.update(duplicateSnap.ref, {
+        mergedInto: survivorId,
+        mergedAt: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      await batch.commit();
+
+      await auditService.record({
+        action: 'visitor_profiles_merged',
+        before,
+        after,
+        details: {
+          profileId: survivorId,
+          visitorIdNumber: survivor.visitorIdNumber,
+          mergedProfileId: duplicateId,
+          mergedVisitorIdNumber: duplicate.visitorIdNumber,
+          mergedName: `${duplicate.firstName} ${duplicate.lastName}`.trim(),
+          visitsMoved: visits.size,
+        },
+      });
+
+      return {
+        survivor: { ...survivor, ...after, lastVisitAt, updatedAt: now } as VisitorProfile,
+        visitsMoved: visits.size,
+      };
+    } catch (error) {
+      console.error('Merge visitor profiles error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Utilities
+  // ──────────────────────────────────────────────────────────────
+  private nameKey(profile: VisitorProfile): string {
+    return nameMatchService.normalizeName(`${profile.firstName} ${profile.lastName}`);
+  }
+}
+
+export const duplicateVisitorService = new DuplicateVisitorService();
@@ -1,11 +1,17 @@
-import { Visitor, HealthScreening } from '../types';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import QRCode from 'react-qr-code';
+import { addDoc, collection, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { Visitor, HealthScreening, PreRegistration, Appointment } from '../types';
+import { recurrenceService } from './recurrenceService';
 
 export interface EmailNotification {
   to: string;
   subject: string;
   body: string;
   visitorId: string;
-  type: 'appointment-scheduled' | 'check-in-completed' | 'health-alert';
+  type: 'appointment-scheduled' | 'appointment-cancelled' | 'check-in-completed' | 'health-alert' | 'pre-registration-pass';
 }
 
 export interface EmailTemplate {
@@ -15,28 +21,58 @@ export interface EmailTemplate {
 
 class EmailService {
   private emailTemplates = {
-    appointmentScheduled: (visitor: Visitor): EmailTemplate => ({
-      subject: `Appointment Scheduled - ${visitor.firstName} ${visitor.lastName}`,
+    appointmentScheduled: (appointment: Appointment, rescheduled: boolean): EmailTemplate => ({
+      subject: `Appointment ${rescheduled ? 'Rescheduled' : 'Scheduled'} - ${appointment.firstName} ${appointment.lastName}`,
       body: `
-        <h2>Appointment Scheduled</h2>
-        <p><strong>Visitor:</strong> ${visitor.firstName} ${visitor.lastName}</p>
-        <p><strong>Meeting with:</strong> ${visitor.visitorMeetingSelection}</p>
-        <p><strong>Purpose:</strong> ${visitor.visitPurpose}${visitor.visitPurposeOther ? ` - ${visitor.visitPurposeOther}` : ''}</p>
-        <p><strong>Scheduled for:</strong> ${visitor.appointmentTime ? new Date(visitor.appointmentTime).toLocaleString() : 'Not specified'}</p>
-        <p><strong>Contact:</strong> ${visitor.phone}${visitor.email ? ` | ${visitor.email}` : ''}</p>
-        ${visitor.visitorMeetingSelection === 'resident' ? `
-        <p><strong>Resident:</strong> ${visitor.residentName}</p>
-        <p><strong>Room:</strong> ${visitor.residentRoom}</p>
-        <p><strong>Category:</strong> ${visitor.visitorCategory}${visitor.visitorCategoryOther ? ` - ${visitor.visitorCategoryOther}` : ''}</p>
+        <h2>Appointment ${rescheduled ? 'Rescheduled' : 'Scheduled'}</h2>
+        <p><strong>Visitor:</strong> ${appointment.firstName} ${appointment.lastName}</p>
+        <p><strong>Meeting with:</strong> ${appointment.visitorMeetingSelection}</p>
+        <p><strong>Purpose:</strong> ${appointment.visitPurpose}</p>
+        <p><strong>Scheduled for:</strong> ${appointment.startTime.toLocaleString()} (${appointment.durationMinutes} minutes)</p>
+        ${appointment.recurrence ? `<p><strong>Repeats:</strong> ${recurrenceService.describe(appointment.recurrence, appointment.startTime)}</p>` : ''}
+        <p><strong>Contact:</strong> ${appointment.phone}${appointment.email ? ` | ${appointment.email}` : ''}</p>
+        ${appointment.visitorMeetingSelection === 'resident' ? `
+        <p><strong>Resident:</strong> ${appointment.residentName || ''}</p>
+        <p><strong>Room:</strong> ${appointment.residentRoom || ''}</p>
         ` : ''}
-        ${visitor.visitorMeetingSelection === 'staff' ? `
-        <p><strong>Department:</strong> ${visitor.staffDepartment}</p>
+        ${appointment.visitorMeetingSelection === 'staff' ? `
+        <p><strong>Department:</strong> ${appointment.staffDepartment || ''}</p>
         ` : ''}
         <hr>
         <p><em>This is an automated notification from the visitor management system.</em></p>
       `
     }),
 
+    appointmentCancelled: (appointment: Appointment): EmailTemplate => ({
+      subject: `Appointment Cancelled - ${appointment.firstName} ${appointment.lastName}`,
+      body: `
+        <h2>Appointment Cancelled</h2>
+        <p><strong>Visitor:</strong> ${appointment.firstName} ${appointment.lastName}</p>
+        <p><strong>Was scheduled for:</strong> ${appointment.recurrence
+          ? `${recurrenceService.describe(appointment.recurrence, appointment.startTime)} (all visits)`
+          : appointment.startTime.toLocaleString()}</p>
+        ${appointment.cancellationReason ? `<p><strong>Reason:</strong> ${appointment.cancellationReason}</p>` : ''}
+        <hr>
+        <p><em>This is an automated notification from the visitor management system.</em></p>
+      `
+    }),
+
+    preRegistrationPass: (registration: Pick<PreRegistration, 'visitor' | 'slotStart'>, pass: string, passUrl: string): EmailTemplate => ({
+      subject: `Your Visitor Pass - ${registration.slotStart.toLocaleString()}`,
+      body: `
+        <h2>You're Pre-registered</h2>
+        <p>Hello ${registration.visitor.firstName},</p>
+        <p><strong>Arrival time:</strong> ${registration.slotStart.toLocaleString()}</p>
+        <p><strong>Meeting with:</strong> ${registration.visitor.visitorMeetingSelection}</p>
+        ${registration.visitor.residentName ? `<p><strong>Resident:</strong> ${registration.visitor.residentName}</p>` : ''}
+        <p>Show this QR code at the front desk when you arrive. You'll only need to answer the health screening questions.</p>
+        <div>${renderToStaticMarkup(createElement(QRCode, { value: pass, size: 200 }))}</div>
+        <p>If the code doesn't show, <a href="${passUrl}">open your pass here</a>.</p>
+        <hr>
+        <p><em>This is an automated notification from the visitor management system.</em></p>
+      `
+    }),
+
     checkInCompleted: (visitor: Visitor, healthScreening: HealthScreening): EmailTemplate => ({
       subject: `Check-in Completed - ${visitor.firstName} ${visitor.lastName}`,
       body: `
@@ -128,7 +164,8 @@ class EmailService {
       
       // Log the email content for debugging
       console.log('Email content:', notification.body);
-      
+
+      this.logSentEmail(notification);
       return true;
     } catch (error) {
       console.error('Failed to send email notification:', error);
@@ -136,19 +173,49 @@ class EmailService {
     }
   }
 
-  async sendAppointmentScheduledNotification(visitor: Visitor, recipientEmail: string): Promise<boolean> {
-    const template = this.emailTemplates.appointmentScheduled(visitor);
+  async sendAppointmentScheduledNotification(appointment: Appointment, recipientEmail: string, rescheduled = false): Promise<boolean> {
+    const template = this.emailTemplates.appointmentScheduled(appointment, rescheduled);
     const notification: EmailNotification = {
       to: recipientEmail,
       subject: template.subject,
       body: template.body,
-      visitorId: visitor.id,
+      visitorId: appointment.id,
       type: 'appointment-scheduled'
     };
 
     return this.sendEmail(notification);
   }
 
+  async sendAppointmentCancelledNotification(appointment: Appointment, recipientEmail: string): Promise<boolean> {
+    const template = this.emailTemplates.appointmentCancelled(appointment);
+    const notification: EmailNotification = {
+      to: recipientEmail,
+      subject: template.subject,
+      body: template.body,
+      visitorId: appointment.id,
+      type: 'appointment-cancelled'
+    };
+
+    return this.sendEmail(notification);
+  }
+
+  async sendPreRegistrationPass(
+    registration: Pick<PreRegistration, 'id' | 'visitor' | 'slotStart'>,
+    pass: string,
+    passUrl: string
+  ): Promise<boolean> {
+    const template = this.emailTemplates.preRegistrationPass(registration, pass, passUrl);
+    const notification: EmailNotification = {
+      to: registration.visitor.email,
+      subject: template.subject,
+      body: template.body,
+      visitorId: registration.id,
+      type: 'pre-registration-pass'
+    };
+
+    return this.sendEmail(notification);
+  }
+
   async sendCheckInNotification(visitor: Visitor, healthScreening: HealthScreening, recipientEmail: string): Promise<boolean> {
     const template = this.emailTemplates.checkInCompleted(visitor, healthScreening);
     const notification: EmailNotification = {
@@ -175,8 +242,21 @@ class EmailService {
     return this.sendEmail(notification);
   }
 
+  // Kept so a visitor's subject access request can list what was sent about them. Not the body,
+  // which would be one more copy of their details. Best effort: the public portal cannot write it.
+  // Not waited on, since offline the write only resolves once the cache has synced it
+  private logSentEmail(notification: EmailNotification): void {
+    addDoc(collection(db, 'email_log'), {
+      to: notification.to,
+      subject: notification.subject,
+      type: notification.type,
+      relatedId: notification.visitorId,
+      sentAt: Timestamp.now(),
+    }).catch(error => console.error('Email log error:', error));
+  }
+
   // Method to determine recipient email based on visitor meeting selection
-  getRecipientEmail(visitor: Visitor): string {
+  getRecipientEmail(visitor: Pick<Visitor, 'visitorMeetingSelection' | 'staffDepartment'>): string {
     // In a real implementation, this would look up the appropriate recipient
     // based on the visitor meeting selection and other criteria
     
@@ -0,0 +1,295 @@
+// src/services/emergencyService.ts
+
+import {
+  collection,
+  setDoc,
+  updateDoc,
+  doc,
+  getDoc,
+  query,
+  where,
+  limit,
+  onSnapshot,
+  FieldPath,
+  Timestamp,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from '../firebase/config';
+import { EmergencySession, EmergencyType, RollCallEntry, RollCallStatus, User, Visitor } from '../types';
+import { visitorService } from './visitorService';
+import { outboxService } from './outboxService';
+import { auditService } from './auditService';
+
+export const EMERGENCY_TYPES: { value: EmergencyType; label: string }[] = [
+  { value: 'fire', label: 'Fire' },
+  { value: 'medical', label: 'Medical' },
+  { value: 'security', label: 'Security' },
+  { value: 'weather', label: 'Severe Weather' },
+  { value: 'other', label: 'Other' },
+];
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+class EmergencyService {
+  private sessionsCollection = collection(db, 'emergency_sessions');
+
+  private mapDocToSession(snapshot: DocumentSnapshot<DocumentData> | QueryDocumentSnapshot<DocumentData>): EmergencySession {
+    const data = snapshot.data() || {};
+    const rollCall: Record<string, RollCallEntry> = {};
+    Object.entries(data.rollCall || {}).forEach(([key, entry]) => {
+      const e = entry as DocumentData;
+      rollCall[key] = { ...e, key, markedAt: e.markedAt?.toDate() } as RollCallEntry;
+    });
+
+    return {
+      id: snapshot.id,
+      startTime: data.startTime?.toDate() || new Date(),
+      endTime: data.endTime?.toDate(),
+      type: data.type || 'other',
+      description: data.description || '',
+      evacuatedVisitors: data.evacuatedVisitors || [],
+      isActive: data.isActive === true,
+      startedBy: data.startedBy || '',
+      endedBy: data.endedBy,
+      rollCall,
+    };
+  }
+
+  // One entry per person on site: the registered visitor and each family member still with them
+  private buildRollCall(visitors: Visitor[]): Record<string, RollCallEntry> {
+    const rollCall: Record<string, RollCallEntry> = {};
+
+    visitors.forEach(visitor => {
+      if (!visitor.primaryCheckOutTime) {
+        rollCall[visitor.id] = {
+          key: visitor.id,
+          visitorId: visitor.id,
+          name: `${visitor.firstName} ${visitor.lastName}`.trim(),
+          badgeNumber: visitor.badgeNumber || '',
+          residentName: visitor.residentName || '',
+          roomNumber: visitor.residentRoom || '',
+          status: 'unaccounted',
+        };
+      }
+
+      (visitor.familyMembers || []).filter(member => !member.checkOutTime).forEach(member => {
+        const key = `${visitor.id}_${member.id}`;
+        rollCall[key] = {
+          key,
+          visitorId: visitor.id,
+          familyMemberId: member.id,
+          name: `${member.firstName} ${member.lastName}`.trim(),
+          badgeNumber: member.badgeNumber || '',
+          residentName: visitor.residentName || '',
+          roomNumber: visitor.residentRoom || '',
+          status: 'unaccounted',
+        };
+      });
+    });
+
+    return rollCall;
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Session lifecycle
+  // ──────────────────────────────────────────────────────────────
+  async startSession(type: EmergencyType, description: string, startedBy: User): Promise<EmergencySession> {
+    try {
+      const visitors = await visitorService.getActiveVisitors();
+      const rollCall = this.buildRollCall(visitors);
+      const startTime = new Date();
+
+      // Emergency mode has to start even with the lobby offline, so the session is written from the cache
+      const docRef = doc(this.sessionsCollection);
+      await outboxService.settleWrite(setDoc(docRef, {
+        startTime: Timestamp.fromDate(startTime),
+        type,
+        description: description.trim(),
+        evacuatedVisitors: [],
+        isActive: true,
+        startedBy: startedBy.id,
+        rollCall,
+      }));
+
+      await auditService.record({
+        action: 'emergency_started',
+        after: { type, description: description.trim(), isActive: true },
+        details: { sessionId: docRef.id, peopleOnSite: Object.keys(rollCall).length },
+      });
+
+      return { id: docRef.id, startTime, type, description, evacuatedVisitors: [], isActive: true, startedBy: startedBy.id, rollCall };
+    } catch (error) {
+      console.error('Start emergency session error:', error);
+      throw error;
+    }
+  }
+
+  // Every open terminal follows the active session, so emergency mode is shared
+  subscribeToActiveSession(callback: (session: EmergencySession | null) => void) {
+    const q = query(this.sessionsCollection, where('isActive', '==', true), limit(1));
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.empty ? null : this.mapDocToSession(snapshot.docs[0]));
+    }, (error) => {
+      console.error('Emergency session subscription error:', error);
+      callback(null);
+    });
+  }
+
+  async markRollCall(sessionId: string, entry: RollCallEntry, status: RollCallStatus, markedBy: string): Promise<void> {
+    try {
+      // Field paths keep concurrent updates from different terminals from overwriting each other
+      await outboxService.settleWrite(updateDoc(
+        doc(db, 'emergency_sessions', sessionId),
+        new FieldPath('rollCall', entry.key, 'status'), status,
+        new FieldPath('rollCall', entry.key, 'markedBy'), markedBy,
+        new FieldPath('rollCall', entry.key, 'markedAt'), Timestamp.fromDate(new Date())
+      ));
+
+      await auditService.record({
+        action: 'emergency_roll_call',
+        visitorId: entry.visitorId,
+        before: { status: entry.status },
+        after: { status },
+        details: { sessionId, name: entry.name, familyMemberId: entry.familyMemberId || null },
+      });
+    } catch (error) {
+      console.error('Roll call update error:', error);
+      throw error;
+    }
+  }
+
+  // Everyone accounted for is evacuated and anyone missing stays checked in, so a visit closes only when its whole party is out
+  async endSession(sessionId: string, endedBy: User): Promise<EmergencySession> {
+    try {
+      const sessionRef = doc(db, 'emergency_sessions', sessionId);
+      const session = this.mapDocToSession(await getDoc(sessionRef));
+      const entries = Object.values(session.rollCall);
+
+      const evacuatedVisitors = Array.from(new Set(entries.map(e => e.visitorId)))
+        .filter(visitorId => entries.filter(e => e.visitorId === visitorId).every(e => e.status === 'accounted'));
+
+      const accounted = entries.filter(e => e.status === 'accounted');
+      if (accounted.length > 0) {
+        // Saved on this terminal if the connection is down; the visits close once it syncs
+        await outboxService.emergencyEvacuation(
+          accounted.map(e => ({ visitorId: e.visitorId, familyMemberId: e.familyMemberId }))
+        );
+      }
+
+      const endTime = new Date();
+      await outboxService.settleWrite(updateDoc(sessionRef, {
+        isActive: false,
+        endTime: Timestamp.fromDate(endTime),
+        endedBy: endedBy.id,
+        evacuatedVisitors,
+      }));
+
+      const ended = { ...session, isActive: false, endTime, endedBy: endedBy.id, evacuatedVisitors };
+      const counts = this.getCounts(ended);
+      await auditService.record({
+        action: 'emergency_ended',
+        before: { isActive: true },
+        after: { isActive: false },
+        details: { sessionId, ...counts },
+      });
+
+      return ended;
+    } catch (error) {
+      console.error('End emergency session error:', error);
+      throw error;
+    }
+  }
+
+  getCounts(session: EmergencySession): Record<RollCallStatus | 'total', number> {
+    const entries = Object.values(session.rollCall);
+    return {
+      total: entries.length,
+      accounted: entries.filter(e => e.status === 'accounted').length,
+      missing: entries.filter(e => e.status === 'missing').length,
+      unaccounted: entries.filter(e => e.status === 'unaccounted').length,
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Incident report
+  // ──────────────────────────────────────────────────────────────
+  printIncidentReport(session: EmergencySession, staffNames: Record<string, string> = {}): void {
+    const counts = this.getCounts(session);
+    const typeLabel = EMERGENCY_TYPES.find(t => t.value === session.type)?.label || session.type;
+    const staff = (id?: string) => escapeHtml((id && staffNames[id]) || id || '—');
+    const entries = Object.values(session.rollCall).sort((a, b) =>
+      a.status === b.status ? a.name.localeCompare(b.name) : a.status === 'missing' ? -1 : b.status === 'missing' ? 1 : 0
+    );
+
+    const html = `
+      <html>
+        <head>
+          <title>Incident Report - ${format(session.startTime, 'yyyy-MM-dd HH:mm')}</title>
+          <style>
+            body { font-family: Arial, sans-serif; margin: 24px; color: #111; }
+            h1 { margin-bottom: 4px; }
+            .meta { color: #555; margin-bottom: 16px; }
+            .summary { display: flex; gap: 24px; margin: 16px 0; }
+            .summary div { border: 1px solid #ccc; padding: 8px 16px; }
+            table { width: 100%; border-collapse: collapse; font-size: 12px; }
+            th, td { border: 1px solid #ccc; padding: 6px; text-align: left; }
+            .missing { color: #b91c1c; font-weight: bold; }
+            .unaccounted { color: #b45309; }
+          </style>
+        </head>
+        <body>
+          <h1>Emergency Incident Report</h1>
+          <div class="meta">
+            Type: ${escapeHtml(typeLabel)}<br>
+            Started: ${format(session.startTime, 'MMM d, yyyy HH:mm:ss')} by ${staff(session.startedBy)}<br>
+            Ended: ${session.endTime ? `${format(session.endTime, 'MMM d, yyyy HH:mm:ss')} by ${staff(session.endedBy)}` : 'Still active'}<br>
+            Description: ${escapeHtml(session.description || '—')}
+          </div>
+          <div class="summary">
+            <div>On site: <strong>${counts.total}</strong></div>
+            <div>Accounted for: <strong>${counts.accounted}</strong></div>
+            <div>Missing: <strong>${counts.missing}</strong></div>
+            <div>Not checked: <strong>${counts.unaccounted}</strong></div>
+          </div>
+          <table>
+            <thead>
+              <tr><th>Name</th><th>Badge</th><th>Visiting</th><th>Status</th><th>Marked By</th><th>Marked At</th></tr>
+            </thead>
+            <tbody>
+              ${entries.map(e => `
+                <tr>
+                  <td>${escapeHtml(e.name)}${e.familyMemberId ? ' (family)' : ''}</td>
+                  <td>${escapeHtml(e.badgeNumber)}</td>
+                  <td>${escapeHtml(e.residentName || '')}${e.roomNumber ? ` · Room ${escapeHtml(e.roomNumber)}` : ''}</td>
+                  <td class="${e.status}">${e.status === 'unaccounted' ? 'Not checked' : e.status === 'accounted' ? 'Accounted for' : 'Missing'}</td>
+                  <td>${e.markedBy ? staff(e.markedBy) : ''}</td>
+                  <td>${e.markedAt ? format(e.markedAt, 'HH:mm:ss') : ''}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+          <p class="meta">Generated ${format(new Date(), 'MMM d, yyyy HH:mm:ss')}</p>
+        </body>
+      </html>
+    `;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert('Please allow popups to print the incident report');
+      return;
+    }
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
+
+export const emergencyService = new EmergencyService();
@@ -233,10 +233,10 @@ export class GoogleDriveService {
 
         // Transform visitors data
         const visitorSheetData = visitors.map(v => ({
-            'Full Name': v.fullName || '',
-            'Phone Number': v.phoneNumber || '',
+            'Full Name': `${v.firstName} ${v.lastName}`.trim(),
+            'Phone Number': v.phone || '',
             'Visiting Resident': v.residentName || '',
-            'Room': v.roomNumber || '',
+            'Room': v.residentRoom || '',
             'Check-in Time': v.checkInTime ? v.checkInTime.toLocaleString() : '',
             'Check-out Time': v.checkOutTime ? v.checkOutTime.toLocaleString() : '',
             'Status': v.status || '',
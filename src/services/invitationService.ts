@@ -0,0 +1,146 @@
+// src/services/invitationService.ts
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { Invitation, InvitationStatus, UserRole } from '../types';
+import { auditService } from './auditService';
+
+export interface InvitationInput {
+  email: string;
+  role: UserRole;
+  expiresInDays: number;
+}
+
+// Unambiguous characters only, since codes may be read out or typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const INVITATION_CODE_LENGTH = 20;
+
+class InvitationService {
+  private invitationsCollection = collection(db, 'invitations');
+
+  private mapDocToInvitation(id: string, data: DocumentData): Invitation {
+    return {
+      id,
+      email: data.email,
+      role: data.role,
+      status: data.status,
+      expiresAt: data.expiresAt.toDate(),
+      createdAt: data.createdAt.toDate(),
+      createdBy: data.createdBy,
+      reference: data.reference,
+      acceptedBy: data.acceptedBy,
+      acceptedAt: data.acceptedAt?.toDate(),
+      revokedBy: data.revokedBy,
+      revokedAt: data.revokedAt?.toDate(),
+    };
+  }
+
+  private generateCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(INVITATION_CODE_LENGTH));
+    return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Admin actions
+  // ──────────────────────────────────────────────────────────────
+  async createInvitation(input: InvitationInput, createdBy: string): Promise<Invitation> {
+    const now = new Date();
+    const invitation: Invitation = {
+      id: this.generateCode(),
+      reference: doc(this.invitationsCollection).id,
+      email: input.email.trim().toLowerCase(),
+      role: input.role,
+      status: 'pending',
+      expiresAt: new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000),
+      createdAt: now,
+      createdBy,
+    };
+
+    try {
+      await setDoc(doc(db, 'invitations', invitation.id), {
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expiresAt: Timestamp.fromDate(invitation.expiresAt),
+        createdAt: Timestamp.fromDate(invitation.createdAt),
+        createdBy,
+        reference: invitation.reference,
+      });
+      await auditService.record({
+        action: 'invitation_created',
+        after: { email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt },
+        details: { invitationReference: invitation.reference },
+      });
+      return invitation;
+    } catch (error) {
+      console.error('Create invitation error:', error);
+      throw error;
+    }
+  }
+
+  async getAllInvitations(): Promise<Invitation[]> {
+    try {
+      const q = query(this.invitationsCollection, orderBy('createdAt', 'desc'));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(d => this.mapDocToInvitation(d.id, d.data()));
+    } catch (error) {
+      console.error('getAllInvitations error:', error);
+      return [];
+    }
+  }
+
+  async revokeInvitation(invitation: Invitation, revokedBy: string): Promise<void> {
+    try {
+      const after = {
+        status: 'revoked',
+        revokedBy,
+        revokedAt: Timestamp.fromDate(new Date()),
+      };
+      await updateDoc(doc(db, 'invitations', invitation.id), after);
+      await auditService.record({
+        action: 'invitation_revoked',
+        before: { status: 'pending' },
+        after,
+        details: { invitationReference: invitation.reference || null, email: invitation.email },
+      });
+    } catch (error) {
+      console.error('Revoke invitation error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Signup
+  // ──────────────────────────────────────────────────────────────
+  async getInvitation(code: string): Promise<Invitation | null> {
+    try {
+      const snapshot = await getDoc(doc(db, 'invitations', code.trim().toUpperCase()));
+      return snapshot.exists() ? this.mapDocToInvitation(snapshot.id, snapshot.data()) : null;
+    } catch (error) {
+      console.error('getInvitation error:', error);
+      return null;
+    }
+  }
+
+  getStatus(invitation: Invitation, at: Date = new Date()): InvitationStatus {
+    if (invitation.status === 'pending' && invitation.expiresAt <= at) return 'expired';
+    return invitation.status;
+  }
+
+  getSignupLink(code: string): string {
+    return `${window.location.origin}/signup?invite=${code}`;
+  }
+}
+
+export const invitationService = new InvitationService();
@@ -0,0 +1,67 @@
+// src/services/nameMatchService.ts
+
+// Soundex digit per letter; vowels, h, w and y carry none
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+// Shared by watchlist screening and duplicate visitor detection
+class NameMatchService {
+  // Accents, punctuation and spacing are ignored: "José  O'Neil" → "jose oneil"
+  normalizeName(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase().replace(/[^a-z\s]/g, '').trim().replace(/\s+/g, ' ');
+  }
+
+  // Last ten digits, so a country code prefix still matches
+  normalizePhone(value?: string): string {
+    return (value || '').replace(/\D/g, '').slice(-10);
+  }
+
+  normalizeEmail(value?: string): string {
+    return (value || '').trim().toLowerCase();
+  }
+
+  // 1 minus the edit distance relative to the longer string
+  similarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+  }
+
+  // "Smith" and "Smyth" both give S530
+  soundex(value: string): string {
+    const letters = this.normalizeName(value).replace(/\s/g, '');
+    if (!letters) return '';
+
+    let code = letters[0].toUpperCase();
+    let previous = SOUNDEX_CODES[letters[0]] || '';
+    for (const letter of letters.slice(1)) {
+      const digit = SOUNDEX_CODES[letter] || '';
+      if (digit && digit !== previous) code += digit;
+      if (letter !== 'h' && letter !== 'w') previous = digit;
+      if (code.length === 4) break;
+    }
+    return code.padEnd(4, '0');
+  }
+}
+
+export const nameMatchService = new NameMatchService();
@@ -0,0 +1,247 @@
+// src/services/occupancyService.ts
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  onSnapshot,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import {
+  Visitor,
+  Resident,
+  CheckInPolicyViolation,
+  OccupancyLevel,
+  OccupancyLimit,
+  OccupancySettings,
+  OccupancyStatus,
+} from '../types';
+import { auditService } from './auditService';
+import { residentService } from './residentService';
+
+export const DEFAULT_OCCUPANCY: OccupancySettings = { buildings: {} };
+
+// Only what counting needs from an open visit
+type OnSiteVisit = Pick<Visitor, 'residentId'> & { primaryLeft: boolean; familyOnSite: number };
+
+const SCOPE_NAMES: Record<OccupancyLevel['scope'], string> = {
+  facility: 'The facility',
+  building: 'Building',
+  room: 'Room',
+};
+
+class OccupancyService {
+  private settingsRef = doc(db, 'settings', 'occupancy');
+  private visitsCollection = collection(db, 'visits');
+
+  // ──────────────────────────────────────────────────────────────
+  // Settings
+  // ──────────────────────────────────────────────────────────────
+  async getSettings(): Promise<OccupancySettings> {
+    try {
+      const snapshot = await getDoc(this.settingsRef);
+      return this.withDefaults(snapshot.data());
+    } catch (error) {
+      console.error('getSettings error:', error);
+      return DEFAULT_OCCUPANCY;
+    }
+  }
+
+  async saveSettings(settings: OccupancySettings, updatedBy: string): Promise<void> {
+    const limits = [settings.facility, settings.room, ...Object.values(settings.buildings)].filter(Boolean) as OccupancyLimit[];
+    if (limits.some(limit => !Number.isInteger(limit.max) || limit.max < 1)) {
+      throw new Error('Limits must be whole numbers of at least 1');
+    }
+
+    try {
+      const before = await this.getSettings();
+      // Firestore rejects `undefined`, so a removed limit is stored as null
+      await setDoc(this.settingsRef, {
+        facility: settings.facility || null,
+        buildings: settings.buildings,
+        room: settings.room || null,
+        updatedAt: Timestamp.fromDate(new Date()),
+        updatedBy,
+      });
+      await auditService.record({
+        action: 'occupancy_limits_updated',
+        ...auditService.diff(
+          { facility: before.facility, room: before.room, ...before.buildings },
+          { facility: settings.facility, room: settings.room, ...settings.buildings }
+        ),
+      });
+    } catch (error) {
+      console.error('Save occupancy limits error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Live occupancy
+  // ──────────────────────────────────────────────────────────────
+  async getStatus(): Promise<OccupancyStatus> {
+    const [visits, residents, settings] = await Promise.all([
+      getDocs(query(this.visitsCollection, where('status', '==', 'checked-in'))),
+      residentService.getAllResidents(),
+      getDoc(this.settingsRef),
+    ]);
+    return this.buildStatus(visits.docs.map(d => this.toOnSiteVisit(d.data())), residents, this.withDefaults(settings.data()));
+  }
+
+  // Recomputed whenever someone arrives or leaves, a resident moves or a limit changes
+  subscribe(callback: (status: OccupancyStatus) => void): () => void {
+    let visits: OnSiteVisit[] | null = null;
+    let residents: Resident[] | null = null;
+    let settings: OccupancySettings | null = null;
+
+    const emit = () => {
+      if (visits && residents && settings) callback(this.buildStatus(visits, residents, settings));
+    };
+    const onError = (error: Error) => console.error('Occupancy subscription error:', error);
+
+    const unsubscribers = [
+      onSnapshot(query(this.visitsCollection, where('status', '==', 'checked-in')), snapshot => {
+        visits = snapshot.docs.map(d => this.toOnSiteVisit(d.data()));
+        emit();
+      }, onError),
+      residentService.subscribeToResidents(latest => {
+        residents = latest;
+        emit();
+      }),
+      onSnapshot(this.settingsRef, snapshot => {
+        settings = this.withDefaults(snapshot.data());
+        emit();
+      }, onError),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Drives the gauge colour; "near" starts at 80% of the limit
+  getLevelState(level: OccupancyLevel): 'unlimited' | 'ok' | 'near' | 'full' {
+    if (!level.limit) return 'unlimited';
+    if (level.current >= level.limit.max) return 'full';
+    return level.current >= level.limit.max * 0.8 ? 'near' : 'ok';
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Check-in
+  // ──────────────────────────────────────────────────────────────
+  // One violation per limit this party would take past its maximum: the facility, and for
+  // resident visits the resident's building and room. Throws when occupancy cannot be read
+  async check(visitorData: Partial<Visitor>, partySize: number): Promise<CheckInPolicyViolation[]> {
+    const status = await this.getStatus();
+    const levels = [status.facility];
+
+    if (visitorData.visitorMeetingSelection === 'resident' && visitorData.residentId) {
+      const resident = await residentService.getResident(visitorData.residentId);
+      if (resident) {
+        const buildingLevel = status.buildings.find(level => level.label === resident.building);
+        const roomLevel = status.rooms.find(level => level.label === this.roomLabel(resident.building, resident.room));
+        if (buildingLevel) levels.push(buildingLevel);
+        if (roomLevel) levels.push(roomLevel);
+      }
+    }
+
+    return levels
+      .filter(level => level.limit && level.current + partySize > level.limit.max)
+      .map(level => ({
+        rule: 'occupancy-limit' as const,
+        action: level.limit!.enforcement,
+        message: `${this.describe(level)} has ${level.current} of ${level.limit!.max} people on site; ` +
+          `${partySize === 1 ? 'this visitor' : `this party of ${partySize}`} would go over the limit.`,
+      }));
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Utilities
+  // ──────────────────────────────────────────────────────────────
+  // The registered visitor counts until they leave, each family member until they leave
+  private buildStatus(visits: OnSiteVisit[], residents: Resident[], settings: OccupancySettings): OccupancyStatus {
+    const residentsById = new Map(residents.map(resident => [resident.id, resident]));
+    const byBuilding = new Map<string, number>();
+    const byRoom = new Map<string, number>();
+    let total = 0;
+
+    visits.forEach(visit => {
+      const people = (visit.primaryLeft ? 0 : 1) + visit.familyOnSite;
+      total += people;
+
+      const resident = visit.residentId ? residentsById.get(visit.residentId) : undefined;
+      if (!resident || people === 0) return;
+      if (resident.building) byBuilding.set(resident.building, (byBuilding.get(resident.building) || 0) + people);
+      const room = this.roomLabel(resident.building, resident.room);
+      byRoom.set(room, (byRoom.get(room) || 0) + people);
+    });
+
+    const buildingNames = residents.map(resident => resident.building).filter(Boolean);
+    const buildings = Array.from(new Set([...Object.keys(settings.buildings), ...buildingNames]))
+      .sort()
+      .map(building => ({
+        scope: 'building' as const,
+        label: building,
+        current: byBuilding.get(building) || 0,
+        limit: settings.buildings[building],
+      }));
+
+    // Residents sharing a room share its limit; the smallest of their own limits applies
+    const roomLimits = new Map<string, number>();
+    residents.forEach(resident => {
+      if (!resident.maxVisitors) return;
+      const room = this.roomLabel(resident.building, resident.room);
+      roomLimits.set(room, Math.min(roomLimits.get(room) ?? Infinity, resident.maxVisitors));
+    });
+
+    const rooms = Array.from(new Set(residents.map(resident => this.roomLabel(resident.building, resident.room))))
+      .sort()
+      .map(room => {
+        const max = roomLimits.get(room) ?? settings.room?.max;
+        return {
+          scope: 'room' as const,
+          label: room,
+          current: byRoom.get(room) || 0,
+          limit: max ? { max, enforcement: settings.room?.enforcement || 'warn' } : undefined,
+        };
+      });
+
+    return {
+      facility: { scope: 'facility', label: 'Facility', current: total, limit: settings.facility },
+      buildings,
+      rooms,
+    };
+  }
+
+  private describe(level: OccupancyLevel): string {
+    return level.scope === 'facility' ? SCOPE_NAMES.facility : `${SCOPE_NAMES[level.scope]} ${level.label}`;
+  }
+
+  private roomLabel(building: string, room: string): string {
+    return building ? `${building} ${room}` : room;
+  }
+
+  private toOnSiteVisit(data: DocumentData): OnSiteVisit {
+    return {
+      residentId: data.residentId || undefined,
+      primaryLeft: !!data.primaryCheckOutTime,
+      familyOnSite: (data.familyMembers || []).filter((member: DocumentData) => !member.checkOutTime).length,
+    };
+  }
+
+  private withDefaults(data: DocumentData | undefined): OccupancySettings {
+    return {
+      facility: data?.facility || undefined,
+      buildings: data?.buildings || {},
+      room: data?.room || undefined,
+      updatedAt: data?.updatedAt?.toDate(),
+      updatedBy: data?.updatedBy,
+    };
+  }
+}
+
+export const occupancyService = new OccupancyService();
@@ -0,0 +1,306 @@
+// src/services/outboxService.ts
+
+import { collection, doc } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { FamilyMember, OutboxStatus, Visitor } from '../types';
+import { visitorService, CheckInVisitorData } from './visitorService';
+import { badgeNumberService } from './badgeNumberService';
+import { emailService } from './emailService';
+
+type EvacuatedPerson = { visitorId: string; familyMemberId?: string };
+
+// A front-desk action as it is saved; replaying one that already reached the server changes nothing
+type OutboxAction =
+  | { type: 'check-in'; visitorData: CheckInVisitorData; isReturningVisitor: boolean; visitId: string; profileId: string; badgeNumbers: string[] }
+  | { type: 'check-out'; visitorId: string }
+  | { type: 'check-out-family-member'; visitorId: string; familyMemberId: string }
+  | { type: 'check-out-party'; visitorId: string }
+  | { type: 'emergency-evacuation'; people: EvacuatedPerson[] };
+
+// `at` is when it happened at the desk; the key increments, so entries replay in the order they were taken
+type OutboxEntry = OutboxAction & {
+  id?: number;
+  at: Date;
+  attempts: number;
+  lastError?: string;
+};
+
+const DB_NAME = 'visitor-outbox';
+const STORE_NAME = 'actions';
+
+// How long an action may wait on the server before the terminal is treated as offline
+const ONLINE_TIMEOUT_MS = 15000;
+const RETRY_INTERVAL_MS = 60000;
+
+const OFFLINE_CODES = ['unavailable', 'deadline-exceeded', 'functions/unavailable', 'functions/deadline-exceeded'];
+
+const offlineError = () => Object.assign(new Error('The server could not be reached'), { code: 'unavailable' });
+
+class OutboxService {
+  private databasePromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<(status: OutboxStatus) => void>();
+  private syncing = false;
+
+  // ──────────────────────────────────────────────────────────────
+  // Front-desk actions
+  // ──────────────────────────────────────────────────────────────
+  // Offline, the visitor gets provisional badge numbers from this terminal and `queued` is set
+  async checkIn(visitorData: CheckInVisitorData, isReturningVisitor: boolean): Promise<{ visitor: Visitor; queued: boolean }> {
+    // Chosen here so a check-in that times out and is sent again still writes one visit and one profile;
+    // if the first attempt lands after all, the resend finds its visit and keeps the badges stored there
+    const visitId = doc(collection(db, 'visits')).id;
+    const profileId = doc(collection(db, 'visitorProfiles')).id;
+    const at = new Date();
+
+    try {
+      const visitor = await this.attempt(() => visitorService.checkInVisitor(visitorData, isReturningVisitor, { visitId, profileId, checkInTime: at }));
+      this.followUpCheckIn(visitor);
+      return { visitor, queued: false };
+    } catch (error) {
+      if (!this.isOfflineError(error)) throw error;
+    }
+
+    const familyMembers = visitorData.familyMembers || [];
+    const badgeNumbers = await badgeNumberService.issueOfflineBadgeNumbers(visitorData.accessLevel, 1 + familyMembers.length);
+    await this.enqueue({ type: 'check-in', visitorData, isReturningVisitor, visitId, profileId, badgeNumbers }, at);
+
+    const [badgeNumber, ...memberBadges] = badgeNumbers;
+    const visitor = {
+      ...visitorData,
+      id: visitId,
+      visitorIdNumber: visitorData.visitorIdNumber || '',
+      checkInTime: at,
+      qrCode: '',
+      badgeNumber,
+      status: 'checked-in',
+      familyMembers: familyMembers.map((member, index): FamilyMember => ({
+        ...member,
+        badgeNumber: memberBadges[index],
+        visitorId: memberBadges[index],
+        checkInTime: at,
+        status: 'checked-in',
+      })),
+    } as Visitor;
+    return { visitor, queued: true };
+  }
+
+  // Each returns true when the action was saved for later rather than sent
+  async checkOutVisitor(visitorId: string): Promise<boolean> {
+    return this.perform({ type: 'check-out', visitorId });
+  }
+
+  async checkOutFamilyMember(visitorId: string, familyMemberId: string): Promise<boolean> {
+    return this.perform({ type: 'check-out-family-member', visitorId, familyMemberId });
+  }
+
+  async checkOutParty(visitorId: string): Promise<boolean> {
+    return this.perform({ type: 'check-out-party', visitorId });
+  }
+
+  async emergencyEvacuation(people: EvacuatedPerson[]): Promise<boolean> {
+    return this.perform({ type: 'emergency-evacuation', people });
+  }
+
+  // A Firestore write resolves only once the server has it, so offline it would never resolve. The SDK
+  // keeps it in the persistent cache and sends it on reconnect, so it is waited on only while online;
+  // true when it was left to sync later
+  async settleWrite(write: Promise<void>): Promise<boolean> {
+    write.catch(error => console.error('Write refused after sync:', error));
+    try {
+      await this.attempt(() => write);
+      return false;
+    } catch (error) {
+      if (!this.isOfflineError(error)) throw error;
+      return true;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Sync
+  // ──────────────────────────────────────────────────────────────
+  // Sends anything waiting now, whenever the browser reconnects, and every minute in case it never says so
+  startSync(): () => void {
+    const run = () => {
+      this.sync().catch(error => console.error('Outbox sync error:', error));
+    };
+    window.addEventListener('online', run);
+    const timer = setInterval(run, RETRY_INTERVAL_MS);
+    run();
+
+    return () => {
+      window.removeEventListener('online', run);
+      clearInterval(timer);
+    };
+  }
+
+  // In order; stops at the first action the server can't be reached for. Actions it refuses are kept
+  // with the reason and tried again next time, so no visit record is ever dropped. A synced check-in
+  // is notified only once its entry is gone, so sending it again never emails twice
+  async sync(): Promise<void> {
+    if (this.syncing || !navigator.onLine) return;
+    this.syncing = true;
+    await this.notify();
+
+    try {
+      for (const entry of await this.readAll()) {
+        try {
+          const visitor = await this.attempt(() => this.send(entry, entry.at));
+          await this.request('readwrite', store => store.delete(entry.id!));
+          if (visitor) this.followUpCheckIn(visitor);
+        } catch (error) {
+          if (this.isOfflineError(error)) break;
+          console.error('Outbox action refused:', entry.type, error);
+          await this.request('readwrite', store => store.put({
+            ...entry,
+            attempts: entry.attempts + 1,
+            lastError: error instanceof Error ? error.message : String(error),
+          }));
+        }
+      }
+    } finally {
+      this.syncing = false;
+      await this.notify();
+    }
+  }
+
+  subscribe(callback: (status: OutboxStatus) => void): () => void {
+    this.listeners.add(callback);
+    this.notify();
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Utilities
+  // ──────────────────────────────────────────────────────────────
+  private async perform(action: OutboxAction): Promise<boolean> {
+    const at = new Date();
+    try {
+      await this.attempt(() => this.send(action, at));
+      return false;
+    } catch (error) {
+      if (!this.isOfflineError(error)) throw error;
+    }
+
+    await this.enqueue(action, at);
+    return true;
+  }
+
+  // The visitor for a check-in, whose notifications are left to the caller
+  private async send(action: OutboxAction, at: Date): Promise<Visitor | null> {
+    switch (action.type) {
+      case 'check-in':
+        return visitorService.checkInVisitor(action.visitorData, action.isReturningVisitor, {
+          visitId: action.visitId,
+          profileId: action.profileId,
+          checkInTime: at,
+          offlineBadgeNumbers: action.badgeNumbers,
+        });
+      case 'check-out':
+        await visitorService.checkOutVisitor(action.visitorId, at);
+        return null;
+      case 'check-out-family-member':
+        await visitorService.checkOutFamilyMember(action.visitorId, action.familyMemberId, at);
+        return null;
+      case 'check-out-party':
+        await visitorService.checkOutParty(action.visitorId, at);
+        return null;
+      case 'emergency-evacuation':
+        await visitorService.emergencyEvacuation(action.people, at);
+        return null;
+    }
+  }
+
+  // Sent in the background: emails may neither fail nor hold up the check-in, which has already been written
+  private async followUpCheckIn(visitor: Visitor): Promise<void> {
+    try {
+      const recipientEmail = emailService.getRecipientEmail(visitor);
+      await emailService.sendCheckInNotification(visitor, visitor.healthScreening, recipientEmail);
+      if (emailService.shouldSendHealthAlert(visitor.healthScreening)) {
+        await emailService.sendHealthAlertNotification(visitor, visitor.healthScreening, recipientEmail);
+      }
+    } catch (error) {
+      console.error('Failed to send email notifications:', error);
+    }
+  }
+
+  // Skips the wait entirely when the browser already knows it is offline
+  private async attempt<T>(action: () => Promise<T>): Promise<T> {
+    if (!navigator.onLine) throw offlineError();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      return await Promise.race([
+        action(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(offlineError()), ONLINE_TIMEOUT_MS);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // The server couldn't be reached, as opposed to refusing the action
+  private isOfflineError(error: unknown): boolean {
+    return !navigator.onLine || OFFLINE_CODES.includes((error as { code?: string })?.code || '');
+  }
+
+  private async enqueue(action: OutboxAction, at: Date): Promise<void> {
+    await this.request('readwrite', store => store.add({ ...action, at, attempts: 0 }));
+    console.warn('Saved for sync while offline:', action.type);
+    await this.notify();
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+
+    try {
+      const entries = await this.readAll();
+      const failed = entries.filter(entry => entry.lastError);
+      const status: OutboxStatus = {
+        pending: entries.length,
+        failed: failed.length,
+        syncing: this.syncing,
+        lastError: failed[failed.length - 1]?.lastError,
+      };
+      this.listeners.forEach(listener => listener(status));
+    } catch (error) {
+      console.error('Outbox status error:', error);
+    }
+  }
+
+  private readAll(): Promise<OutboxEntry[]> {
+    return this.request('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+  }
+
+  // Resolves once the IndexedDB transaction commits, so a queued action survives the tab closing
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = new Promise((resolve, reject) => {
+        const open = indexedDB.open(DB_NAME, 1);
+        open.onupgradeneeded = () => {
+          open.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+      });
+    }
+    return this.databasePromise;
+  }
+}
+
+export const outboxService = new OutboxService();
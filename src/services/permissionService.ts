@@ -0,0 +1,142 @@
+// src/services/permissionService.ts
+
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { Permission, PermissionOverrides, RoleTemplate, User, UserRole } from '../types';
+import { auditService } from './auditService';
+
+export interface PermissionDefinition {
+  key: Permission;
+  label: string;
+  description: string;
+  category: 'Administration' | 'Visitors' | 'Reporting';
+}
+
+// The full catalogue; keep in sync with functions/src/permissions.ts
+export const PERMISSIONS: PermissionDefinition[] = [
+  { key: 'manage_users', label: 'Manage users', description: 'Create, edit and deactivate staff accounts', category: 'Administration' },
+  { key: 'manage_roles', label: 'Manage roles', description: 'Edit role templates and per-user overrides', category: 'Administration' },
+  { key: 'manage_residents', label: 'Manage residents', description: 'Maintain the resident registry', category: 'Administration' },
+  { key: 'manage_backups', label: 'Manage backups', description: 'Configure and run Google Drive backups', category: 'Administration' },
+  { key: 'manage_data_retention', label: 'Manage data retention', description: 'Set retention periods, place legal holds, and export or erase visitor data', category: 'Administration' },
+  { key: 'view_reports', label: 'View reports', description: 'Open visitor reports and statistics', category: 'Reporting' },
+  { key: 'export_reports', label: 'Export reports', description: 'Download visitor data as CSV or Excel', category: 'Reporting' },
+  { key: 'view_audit_logs', label: 'View audit logs', description: 'Read the audit trail', category: 'Reporting' },
+  { key: 'view_visitors', label: 'View visitors', description: 'See visitor records and the active list', category: 'Visitors' },
+  { key: 'check_in_visitors', label: 'Check in visitors', description: 'Register visitors and print badges', category: 'Visitors' },
+  { key: 'check_out_visitors', label: 'Check out visitors', description: 'Check visitors out individually or in bulk', category: 'Visitors' },
+  { key: 'manage_visitors', label: 'Manage visitors', description: 'Edit or delete visitor records', category: 'Visitors' },
+  { key: 'emergency_evacuation', label: 'Emergency evacuation', description: 'Start and end emergency mode', category: 'Visitors' },
+  { key: 'override_check_in_policy', label: 'Override check-in policy', description: 'Approve visits outside resident rules', category: 'Visitors' },
+  { key: 'manage_appointments', label: 'Manage appointments', description: 'Schedule, reschedule and cancel appointments', category: 'Visitors' },
+  { key: 'manage_watchlist', label: 'Manage watchlist', description: 'Add and remove banned or restricted visitors', category: 'Visitors' },
+];
+
+export const ROLES: { value: UserRole; label: string }[] = [
+  { value: 'super-admin', label: 'Super Admin' },
+  { value: 'admin', label: 'Admin' },
+  { value: 'hierarchy-person', label: 'Hierarchy Person' },
+  { value: 'front-desk', label: 'Front Desk' },
+];
+
+// Shape of saved role templates; keep in sync with CURRENT_ROLE_TEMPLATE_VERSION in functions/src/migrations
+export const ROLE_TEMPLATE_SCHEMA_VERSION = 1;
+
+// Used until an admin saves a template for the role
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  'super-admin': PERMISSIONS.map(p => p.key),
+  'admin': [
+    'manage_users', 'manage_roles', 'manage_residents', 'manage_backups',
+    'view_reports', 'export_reports', 'view_audit_logs',
+    'view_visitors', 'check_in_visitors', 'check_out_visitors', 'manage_visitors',
+    'emergency_evacuation', 'override_check_in_policy', 'manage_appointments', 'manage_watchlist',
+    'manage_data_retention',
+  ],
+  'hierarchy-person': ['view_reports', 'export_reports', 'view_audit_logs', 'view_visitors', 'override_check_in_policy'],
+  'front-desk': ['view_visitors', 'check_in_visitors', 'check_out_visitors', 'emergency_evacuation', 'manage_appointments'],
+  'pending': [],
+};
+
+class PermissionService {
+  private templatesCollection = collection(db, 'role_templates');
+
+  // ──────────────────────────────────────────────────────────────
+  // Role templates
+  // ──────────────────────────────────────────────────────────────
+  async getRoleTemplates(): Promise<RoleTemplate[]> {
+    const saved = new Map<string, RoleTemplate>();
+
+    try {
+      const snapshot = await getDocs(this.templatesCollection);
+      snapshot.docs.forEach(d => {
+        const data = d.data();
+        saved.set(d.id, {
+          role: d.id as UserRole,
+          permissions: this.onlyKnown(data.permissions || []),
+          updatedAt: data.updatedAt?.toDate(),
+          updatedBy: data.updatedBy,
+        });
+      });
+    } catch (error) {
+      console.error('getRoleTemplates error:', error);
+    }
+
+    return ROLES.map(({ value }) =>
+      saved.get(value) || { role: value, permissions: DEFAULT_ROLE_PERMISSIONS[value] }
+    );
+  }
+
+  // Claims for every user with this role are refreshed by the syncRoleTemplate function
+  async saveRoleTemplate(role: UserRole, permissions: Permission[], updatedBy: string): Promise<void> {
+    if (role === 'super-admin') {
+      throw new Error('Super admin permissions cannot be changed');
+    }
+
+    try {
+      const before = (await this.getRoleTemplates()).find(t => t.role === role);
+      await setDoc(doc(db, 'role_templates', role), {
+        permissions: this.onlyKnown(permissions),
+        schemaVersion: ROLE_TEMPLATE_SCHEMA_VERSION,
+        updatedAt: Timestamp.fromDate(new Date()),
+        updatedBy,
+      });
+      await auditService.record({
+        action: 'role_template_updated',
+        before: { permissions: before?.permissions || [] },
+        after: { permissions: this.onlyKnown(permissions) },
+        details: { role },
+      });
+    } catch (error) {
+      console.error('Save role template error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Permission checks
+  // ──────────────────────────────────────────────────────────────
+  resolvePermissions(templatePermissions: Permission[], overrides?: PermissionOverrides): Permission[] {
+    const effective = new Set(templatePermissions);
+    overrides?.granted.forEach(p => effective.add(p));
+    overrides?.revoked.forEach(p => effective.delete(p));
+    return PERMISSIONS.map(p => p.key).filter(key => effective.has(key));
+  }
+
+  hasPermission(user: User | null | undefined, permission: Permission): boolean {
+    if (!user || !user.isActive) return false;
+    if (user.role === 'super-admin') return true;
+    return user.permissions.includes(permission);
+  }
+
+  private onlyKnown(permissions: string[]): Permission[] {
+    return PERMISSIONS.map(p => p.key).filter(key => permissions.includes(key));
+  }
+}
+
+export const permissionService = new PermissionService();
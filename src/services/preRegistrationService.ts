@@ -0,0 +1,174 @@
+// src/services/preRegistrationService.ts
+
+import {
+  collection,
+  doc,
+  getDoc,
+  Timestamp,
+  Transaction,
+  DocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { addDays, format, setHours, startOfDay } from 'date-fns';
+import { db, functions } from '../firebase/config';
+import { PreRegisteredVisitor, PreRegistration } from '../types';
+import { badgeCodeService } from './badgeCodeService';
+import { emailService } from './emailService';
+
+// Keep in sync with functions/src/preRegistration.ts
+export const SLOT_MINUTES = 30;
+
+// Arrival times offered on the portal, in the facility's local time
+export const PORTAL_OPENING_HOUR = 9;
+export const PORTAL_CLOSING_HOUR = 17;
+export const BOOKING_DAYS_AHEAD = 14;
+
+export interface SlotAvailability {
+  start: Date;
+  remaining: number;
+}
+
+interface PreRegisterResponse {
+  id: string;
+  pass: string;
+  slotStart: number;
+  expiresAt: number;
+}
+
+class PreRegistrationService {
+  private registrationsCollection = collection(db, 'preRegistrations');
+
+  // ──────────────────────────────────────────────────────────────
+  // Public portal
+  // ──────────────────────────────────────────────────────────────
+  bookableDays(): Date[] {
+    const today = startOfDay(new Date());
+    return Array.from({ length: BOOKING_DAYS_AHEAD }, (_, i) => addDays(today, i))
+      .filter(day => this.slotTimes(day).length > 0);
+  }
+
+  async getAvailability(day: Date): Promise<SlotAvailability[]> {
+    const times = this.slotTimes(day);
+    if (times.length === 0) return [];
+
+    try {
+      const getAvailability = httpsCallable<{ from: number; to: number }, { capacity: number; booked: Record<string, number> }>(
+        functions, 'getPreRegistrationAvailability'
+      );
+      const { data } = await getAvailability({ from: times[0].getTime(), to: addDays(startOfDay(day), 1).getTime() });
+      return times.map(start => ({ start, remaining: Math.max(0, data.capacity - (data.booked[start.getTime()] || 0)) }));
+    } catch (error) {
+      console.error('getAvailability error:', error);
+      throw error;
+    }
+  }
+
+  // The pass is signed by a Cloud Function; the email is best effort because the pass is also shown on screen
+  async register(visitor: PreRegisteredVisitor, slotStart: Date): Promise<{ id: string; pass: string; slotStart: Date; emailed: boolean }> {
+    let response: PreRegisterResponse;
+    try {
+      const preRegisterVisitor = httpsCallable<{ visitor: PreRegisteredVisitor; slotStart: number }, PreRegisterResponse>(
+        functions, 'preRegisterVisitor'
+      );
+      response = (await preRegisterVisitor({ visitor, slotStart: slotStart.getTime() })).data;
+    } catch (error) {
+      console.error('Pre-registration error:', error);
+      throw error;
+    }
+
+    const emailed = await emailService.sendPreRegistrationPass(
+      { id: response.id, visitor, slotStart: new Date(response.slotStart) },
+      response.pass,
+      this.passUrl(response.pass)
+    );
+
+    return { id: response.id, pass: response.pass, slotStart: new Date(response.slotStart), emailed };
+  }
+
+  passUrl(pass: string): string {
+    return `${window.location.origin}/pre-register/pass?code=${encodeURIComponent(pass)}`;
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Front desk arrival
+  // ──────────────────────────────────────────────────────────────
+  // Throws with the reason when the pass is forged, expired, revoked or already used
+  async findByPass(code: string): Promise<PreRegistration> {
+    const verification = await badgeCodeService.verify(code);
+    if (!verification.valid) {
+      throw new Error(verification.reason);
+    }
+    if (verification.payload.t !== 'p') {
+      throw new Error('This is a visitor badge, not a pre-registration pass. Use returning visitor check-in instead.');
+    }
+
+    const snapshot = await getDoc(doc(this.registrationsCollection, verification.payload.id));
+    if (!snapshot.exists()) {
+      throw new Error('This pre-registration no longer exists.');
+    }
+
+    const registration = this.mapDocToPreRegistration(snapshot);
+    if (registration.passId !== verification.payload.jti) {
+      throw new Error('This pass has been replaced by a newer one.');
+    }
+    if (registration.status === 'arrived') {
+      throw new Error(`This pass was already used at ${format(registration.arrivedAt || registration.slotStart, 'PPp')}.`);
+    }
+    if (registration.status === 'cancelled') {
+      throw new Error('This pre-registration was cancelled.');
+    }
+    return registration;
+  }
+
+  // Read inside the check-in transaction, before it writes anything, so two desks can't both check a
+  // visitor in on the same pass. A check-in replayed from the offline outbox already happened at the desk,
+  // so it goes ahead even if the pass was used in the meantime; false means leave the pass as it is.
+  async claimPass(transaction: Transaction, registrationId: string, replayed: boolean): Promise<boolean> {
+    const status = (await transaction.get(doc(this.registrationsCollection, registrationId))).get('status');
+    if (status === 'pending') return true;
+    if (replayed) return false;
+
+    throw new Error(status === 'arrived'
+      ? 'This pass was already used by another check-in.'
+      : 'This pre-registration is no longer waiting for arrival.');
+  }
+
+  markArrived(transaction: Transaction, registrationId: string, visitId: string, arrivedAt: Date): void {
+    transaction.update(doc(this.registrationsCollection, registrationId), {
+      status: 'arrived',
+      visitId,
+      arrivedAt: Timestamp.fromDate(arrivedAt),
+    });
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Utilities
+  // ──────────────────────────────────────────────────────────────
+  private slotTimes(day: Date): Date[] {
+    const now = new Date();
+    const times: Date[] = [];
+    for (let time = setHours(startOfDay(day), PORTAL_OPENING_HOUR); time.getHours() < PORTAL_CLOSING_HOUR; time = new Date(time.getTime() + SLOT_MINUTES * 60 * 1000)) {
+      if (time > now) times.push(time);
+    }
+    return times;
+  }
+
+  private mapDocToPreRegistration(snapshot: DocumentSnapshot<DocumentData>): PreRegistration {
+    const data = snapshot.data() || {};
+    return {
+      id: snapshot.id,
+      visitor: data.visitor || {},
+      slotStart: data.slotStart?.toDate(),
+      slotEnd: data.slotEnd?.toDate(),
+      status: data.status || 'pending',
+      passId: data.passId || '',
+      passExpiresAt: data.passExpiresAt?.toDate(),
+      createdAt: data.createdAt?.toDate(),
+      visitId: data.visitId || undefined,
+      arrivedAt: data.arrivedAt?.toDate() || undefined,
+    };
+  }
+}
+
+export const preRegistrationService = new PreRegistrationService();
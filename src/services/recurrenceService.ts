@@ -0,0 +1,94 @@
+// src/services/recurrenceService.ts
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  format,
+  isAfter,
+  max,
+  min,
+  set,
+  startOfDay,
+} from 'date-fns';
+import { RecurrenceRule } from '../types';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+class RecurrenceService {
+  occurrenceKey(day: Date): string {
+    return format(day, 'yyyy-MM-dd');
+  }
+
+  // Months without the series' day of month (e.g. the 31st) are skipped rather than moved
+  occursOn(rule: RecurrenceRule, seriesStart: Date, day: Date): boolean {
+    const first = startOfDay(seriesStart);
+    const target = startOfDay(day);
+    if (target < first) return false;
+    if (rule.until && isAfter(target, startOfDay(rule.until))) return false;
+    if (rule.exceptions?.includes(this.occurrenceKey(target))) return false;
+
+    const interval = Math.max(1, rule.interval || 1);
+    switch (rule.frequency) {
+      case 'daily':
+        return differenceInCalendarDays(target, first) % interval === 0;
+      case 'weekly': {
+        const weekdays = rule.weekdays?.length ? rule.weekdays : [first.getDay()];
+        return weekdays.includes(target.getDay()) && differenceInCalendarWeeks(target, first) % interval === 0;
+      }
+      case 'monthly':
+        return target.getDate() === first.getDate() && differenceInCalendarMonths(target, first) % interval === 0;
+      default:
+        return false;
+    }
+  }
+
+  // Start times of the visits between from and to, at the series' time of day
+  occurrencesBetween(rule: RecurrenceRule, seriesStart: Date, from: Date, to: Date): Date[] {
+    const last = rule.until ? min([to, addDays(startOfDay(rule.until), 1)]) : to;
+    const occurrences: Date[] = [];
+
+    for (let day = startOfDay(max([seriesStart, from])); day <= last; day = addDays(day, 1)) {
+      if (!this.occursOn(rule, seriesStart, day)) continue;
+      const start = set(day, { hours: seriesStart.getHours(), minutes: seriesStart.getMinutes() });
+      if (start >= from && start <= to) occurrences.push(start);
+    }
+    return occurrences;
+  }
+
+  occurrenceOn(rule: RecurrenceRule, seriesStart: Date, key: string): Date | null {
+    const day = new Date(`${key}T00:00:00`);
+    if (isNaN(day.getTime()) || !this.occursOn(rule, seriesStart, day)) return null;
+    return set(day, { hours: seriesStart.getHours(), minutes: seriesStart.getMinutes() });
+  }
+
+  // "Every Tuesday and Thursday at 2:00 PM until Mar 1, 2027"
+  describe(rule: RecurrenceRule, seriesStart: Date): string {
+    const interval = Math.max(1, rule.interval || 1);
+    const plural = (unit: string) => interval === 1 ? unit : `${interval} ${unit}s`;
+    let pattern: string;
+
+    switch (rule.frequency) {
+      case 'daily':
+        pattern = interval === 1 ? 'Every day' : `Every ${plural('day')}`;
+        break;
+      case 'weekly': {
+        const weekdays = (rule.weekdays?.length ? rule.weekdays : [seriesStart.getDay()])
+          .slice().sort((a, b) => a - b).map(d => WEEKDAY_NAMES[d]);
+        const days = weekdays.length > 1 ? `${weekdays.slice(0, -1).join(', ')} and ${weekdays[weekdays.length - 1]}` : weekdays[0];
+        pattern = interval === 1 ? `Every ${days}` : `Every ${plural('week')} on ${days}`;
+        break;
+      }
+      case 'monthly':
+        pattern = `Every ${plural('month')} on day ${seriesStart.getDate()}`;
+        break;
+      default:
+        pattern = 'Repeats';
+    }
+
+    return `${pattern} at ${format(seriesStart, 'p')}${rule.until ? ` until ${format(rule.until, 'PP')}` : ''}`;
+  }
+}
+
+export const recurrenceService = new RecurrenceService();
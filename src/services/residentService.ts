@@ -0,0 +1,136 @@
+// src/services/residentService.ts
+
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  onSnapshot,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { Resident } from '../types';
+import { auditService } from './auditService';
+
+export type ResidentInput = Omit<Resident, 'id'>;
+
+export class ResidentService {
+  private residentsCollection = collection(db, 'residents');
+
+  // ──────────────────────────────────────────────────────────────
+  // Helper: Firestore doc → Resident object
+  // ──────────────────────────────────────────────────────────────
+  private mapDocToResident(snapshot: QueryDocumentSnapshot<DocumentData> | DocumentSnapshot<DocumentData>): Resident {
+    const data = snapshot.data() || {};
+
+    return {
+      id: snapshot.id,
+      firstName: data.firstName || '',
+      lastName: data.lastName || '',
+      room: data.room || '',
+      building: data.building || '',
+      emergencyContact: data.emergencyContact || '',
+      approvedVisitors: data.approvedVisitors || [],
+      visitingHours: {
+        start: data.visitingHours?.start || '',
+        end: data.visitingHours?.end || '',
+      },
+      specialInstructions: data.specialInstructions || undefined,
+      medicalRestrictions: data.medicalRestrictions || [],
+      maxVisitors: data.maxVisitors || undefined,
+    };
+  }
+
+  // Firestore rejects `undefined` values, so optional fields are dropped
+  private toFirestore(resident: Partial<ResidentInput>): DocumentData {
+    return Object.fromEntries(
+      Object.entries(resident).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  getResidentDisplayName(resident: Resident): string {
+    return `${resident.firstName} ${resident.lastName}`.trim();
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Queries
+  // ──────────────────────────────────────────────────────────────
+  async getAllResidents(): Promise<Resident[]> {
+    try {
+      const q = query(this.residentsCollection, orderBy('lastName'));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(d => this.mapDocToResident(d));
+    } catch (error) {
+      console.error('getAllResidents error:', error);
+      return [];
+    }
+  }
+
+  subscribeToResidents(callback: (residents: Resident[]) => void) {
+    return onSnapshot(query(this.residentsCollection, orderBy('lastName')), (snapshot) => {
+      callback(snapshot.docs.map(d => this.mapDocToResident(d)));
+    }, (error) => {
+      console.error('Residents subscription error:', error);
+    });
+  }
+
+  async getResident(residentId: string): Promise<Resident | null> {
+    try {
+      const snapshot = await getDoc(doc(db, 'residents', residentId));
+      if (!snapshot.exists()) return null;
+      return this.mapDocToResident(snapshot);
+    } catch (error) {
+      console.error('getResident error:', error);
+      return null;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Mutations
+  // ──────────────────────────────────────────────────────────────
+  async createResident(resident: ResidentInput): Promise<Resident> {
+    try {
+      const docRef = await addDoc(this.residentsCollection, this.toFirestore(resident));
+      await auditService.record({ action: 'resident_created', after: this.toFirestore(resident), details: { residentId: docRef.id } });
+      return { ...resident, id: docRef.id };
+    } catch (error) {
+      console.error('Create resident error:', error);
+      throw error;
+    }
+  }
+
+  async updateResident(residentId: string, updates: Partial<ResidentInput>): Promise<void> {
+    try {
+      const before = await getDoc(doc(db, 'residents', residentId));
+      await updateDoc(doc(db, 'residents', residentId), this.toFirestore(updates));
+      await auditService.record({
+        action: 'resident_updated',
+        ...auditService.diff(before.data() || {}, this.toFirestore(updates)),
+        details: { residentId },
+      });
+    } catch (error) {
+      console.error('Update resident error:', error);
+      throw error;
+    }
+  }
+
+  async deleteResident(residentId: string): Promise<void> {
+    try {
+      const before = await getDoc(doc(db, 'residents', residentId));
+      await deleteDoc(doc(db, 'residents', residentId));
+      await auditService.record({ action: 'resident_deleted', before: before.data(), details: { residentId } });
+    } catch (error) {
+      console.error('Delete resident error:', error);
+      throw error;
+    }
+  }
+}
+
+export const residentService = new ResidentService();
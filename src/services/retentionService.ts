@@ -0,0 +1,189 @@
+// src/services/retentionService.ts
+
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  orderBy,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { LegalHold, LegalHoldInput, RetentionCategory, RetentionPurgeSummary, RetentionSettings } from '../types';
+import { auditService } from './auditService';
+
+// Nothing is removed until an administrator sets a period
+export const DEFAULT_RETENTION: RetentionSettings = {
+  periodDays: {},
+  autoPurge: true,
+};
+
+export const RETENTION_CATEGORIES: { value: RetentionCategory; label: string; description: string }[] = [
+  { value: 'healthScreening', label: 'Health screening', description: 'Screening answers, temperature and symptoms recorded at check-in' },
+  { value: 'contactDetails', label: 'Contact details', description: 'Phone numbers, email addresses and emergency contacts, and the record of emails sent' },
+  { value: 'photos', label: 'Photos', description: 'Visitor photos taken at check-in' },
+  { value: 'identity', label: 'Names and ID numbers', description: 'Deletes the visitor profile and portal booking, leaves visits and appointments anonymous, and removes names and profile contact details from the audit trail' },
+];
+
+// Keep in sync with functions/src/retention.ts
+export const RETENTION_PURGE_TIME = '2:30 AM';
+
+class RetentionService {
+  private settingsRef = doc(db, 'settings', 'retention');
+  private holdsCollection = collection(db, 'legal_holds');
+
+  // ──────────────────────────────────────────────────────────────
+  // Settings
+  // ──────────────────────────────────────────────────────────────
+  async getSettings(): Promise<RetentionSettings> {
+    try {
+      const snapshot = await getDoc(this.settingsRef);
+      const data = snapshot.data();
+      return {
+        periodDays: data?.periodDays || {},
+        autoPurge: data?.autoPurge ?? DEFAULT_RETENTION.autoPurge,
+        updatedAt: data?.updatedAt?.toDate(),
+        updatedBy: data?.updatedBy,
+      };
+    } catch (error) {
+      console.error('getSettings error:', error);
+      return DEFAULT_RETENTION;
+    }
+  }
+
+  async saveSettings(settings: RetentionSettings, updatedBy: string): Promise<void> {
+    if (Object.values(settings.periodDays).some(days => days !== undefined && (!Number.isInteger(days) || days < 1))) {
+      throw new Error('Retention periods must be at least 1 day');
+    }
+
+    try {
+      const before = await this.getSettings();
+      // Firestore rejects `undefined`, so only the categories with a period are stored
+      const periodDays = Object.fromEntries(Object.entries(settings.periodDays).filter(([, days]) => days !== undefined));
+      await setDoc(this.settingsRef, {
+        periodDays,
+        autoPurge: settings.autoPurge,
+        updatedAt: Timestamp.fromDate(new Date()),
+        updatedBy,
+      });
+      await auditService.record({
+        action: 'retention_policy_updated',
+        ...auditService.diff(
+          { ...before.periodDays, autoPurge: before.autoPurge },
+          { ...periodDays, autoPurge: settings.autoPurge }
+        ),
+      });
+    } catch (error) {
+      console.error('Save retention policy error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Legal holds
+  // ──────────────────────────────────────────────────────────────
+  private mapDocToHold(snapshot: QueryDocumentSnapshot<DocumentData>): LegalHold {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      visitorIdNumber: data.visitorIdNumber || undefined,
+      from: data.from?.toDate() || undefined,
+      to: data.to?.toDate() || undefined,
+      reason: data.reason || '',
+      createdAt: data.createdAt?.toDate(),
+      createdBy: data.createdBy || '',
+      releasedAt: data.releasedAt?.toDate() || undefined,
+      releasedBy: data.releasedBy || undefined,
+    };
+  }
+
+  // Newest first, released holds included
+  async getAllHolds(): Promise<LegalHold[]> {
+    try {
+      const snapshot = await getDocs(query(this.holdsCollection, orderBy('createdAt', 'desc')));
+      return snapshot.docs.map(d => this.mapDocToHold(d));
+    } catch (error) {
+      console.error('getAllHolds error:', error);
+      return [];
+    }
+  }
+
+  async placeHold(hold: LegalHoldInput, createdBy: string): Promise<LegalHold> {
+    if (!hold.reason.trim()) throw new Error('Give the reason for the hold');
+    if (!hold.visitorIdNumber && !hold.from && !hold.to) {
+      throw new Error('A hold needs a visitor ID number, a date range or both');
+    }
+    if (hold.from && hold.to && hold.from > hold.to) throw new Error('The hold cannot end before it starts');
+
+    try {
+      const createdAt = new Date();
+      // Firestore rejects `undefined` values, so optional fields are dropped
+      const fields = Object.fromEntries(Object.entries({
+        visitorIdNumber: hold.visitorIdNumber?.trim() || undefined,
+        from: hold.from ? Timestamp.fromDate(hold.from) : undefined,
+        to: hold.to ? Timestamp.fromDate(hold.to) : undefined,
+        reason: hold.reason.trim(),
+      }).filter(([, value]) => value !== undefined));
+      const docRef = await addDoc(this.holdsCollection, { ...fields, createdAt: Timestamp.fromDate(createdAt), createdBy });
+      await auditService.record({
+        action: 'legal_hold_placed',
+        after: this.auditFields(hold),
+        details: { legalHoldId: docRef.id },
+      });
+      return { ...hold, id: docRef.id, createdAt, createdBy };
+    } catch (error) {
+      console.error('Place legal hold error:', error);
+      throw error;
+    }
+  }
+
+  async releaseHold(hold: LegalHold, releasedBy: string): Promise<void> {
+    try {
+      await updateDoc(doc(this.holdsCollection, hold.id), {
+        releasedAt: Timestamp.fromDate(new Date()),
+        releasedBy,
+      });
+      await auditService.record({
+        action: 'legal_hold_released',
+        before: this.auditFields(hold),
+        details: { legalHoldId: hold.id },
+      });
+    } catch (error) {
+      console.error('Release legal hold error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Purge
+  // ──────────────────────────────────────────────────────────────
+  // A preview counts what the policy would remove without changing anything
+  async runPurge(dryRun: boolean): Promise<RetentionPurgeSummary> {
+    try {
+      const runRetentionPurge = httpsCallable<{ dryRun: boolean }, RetentionPurgeSummary>(functions, 'runRetentionPurge');
+      const { data } = await runRetentionPurge({ dryRun });
+      return data;
+    } catch (error) {
+      console.error('Run retention purge error:', error);
+      throw error;
+    }
+  }
+
+  private auditFields(hold: LegalHoldInput): Record<string, unknown> {
+    return {
+      visitorIdNumber: hold.visitorIdNumber || null,
+      from: hold.from?.toISOString() || null,
+      to: hold.to?.toISOString() || null,
+      reason: hold.reason,
+    };
+  }
+}
+
+export const retentionService = new RetentionService();
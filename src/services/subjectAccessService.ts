@@ -0,0 +1,127 @@
+// src/services/subjectAccessService.ts
+
+import { httpsCallable } from 'firebase/functions';
+import { format } from 'date-fns';
+import { functions } from '../firebase/config';
+import { SubjectAccessExport, SubjectLookup, SubjectRecordCounts } from '../types';
+
+export const SUBJECT_RECORD_SECTIONS: { key: keyof SubjectRecordCounts; label: string }[] = [
+  { key: 'profiles', label: 'Visitor profiles' },
+  { key: 'visits', label: 'Visits, family members and health screenings' },
+  { key: 'appointments', label: 'Appointments' },
+  { key: 'preRegistrations', label: 'Pre-registrations' },
+  { key: 'emails', label: 'Emails sent' },
+  { key: 'auditEntries', label: 'Audit entries' },
+];
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return `<pre>${escapeHtml(JSON.stringify(value, null, 2))}</pre>`;
+  return escapeHtml(String(value));
+};
+
+// Both run as Cloud Functions: the records span collections staff cannot read, and erasure
+// has to blank audit entries nobody may write
+class SubjectAccessService {
+  // ──────────────────────────────────────────────────────────────
+  // Export
+  // ──────────────────────────────────────────────────────────────
+  async exportData(lookup: SubjectLookup): Promise<SubjectAccessExport> {
+    try {
+      const exportVisitorData = httpsCallable<SubjectLookup, SubjectAccessExport>(functions, 'exportVisitorData');
+      const { data } = await exportVisitorData(lookup);
+      return data;
+    } catch (error) {
+      console.error('Subject access export error:', error);
+      throw error;
+    }
+  }
+
+  countRecords(data: SubjectAccessExport): SubjectRecordCounts {
+    return Object.fromEntries(SUBJECT_RECORD_SECTIONS.map(({ key }) => [key, data[key].length])) as SubjectRecordCounts;
+  }
+
+  downloadJson(data: SubjectAccessExport, reference: string): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `subject-access-${reference}-${format(new Date(), 'yyyy-MM-dd')}.json`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+
+  // Opens the print dialog, where the export is saved as a PDF
+  printPdf(data: SubjectAccessExport, reference: string): void {
+    const sections = SUBJECT_RECORD_SECTIONS.map(({ key, label }) => `
+      <h2>${label} (${data[key].length})</h2>
+      ${data[key].length === 0 ? '<p class="meta">None held.</p>' : data[key].map(record => `
+        <table>
+          <tbody>
+            ${Object.entries(record).sort(([a], [b]) => a.localeCompare(b)).map(([field, value]) => `
+              <tr><th>${escapeHtml(field)}</th><td>${formatValue(value)}</td></tr>
+            `).join('')}
+          </tbody>
+        </table>
+      `).join('')}
+    `).join('');
+
+    const html = `
+      <html>
+        <head>
+          <title>Subject Access Export - ${escapeHtml(reference)}</title>
+          <style>
+            body { font-family: Arial, sans-serif; margin: 24px; color: #111; }
+            h1 { margin-bottom: 4px; }
+            h2 { margin-top: 24px; border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+            .meta { color: #555; }
+            table { width: 100%; border-collapse: collapse; font-size: 11px; margin-bottom: 12px; page-break-inside: avoid; }
+            th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+            th { width: 25%; background: #f5f5f5; }
+            pre { margin: 0; white-space: pre-wrap; font-size: 10px; }
+          </style>
+        </head>
+        <body>
+          <h1>Subject Access Export</h1>
+          <div class="meta">
+            Visitor: ${escapeHtml(reference)}<br>
+            Generated: ${format(new Date(data.generatedAt), 'MMM d, yyyy HH:mm:ss')}
+          </div>
+          ${sections}
+        </body>
+      </html>
+    `;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert('Please allow popups to save the export as a PDF');
+      return;
+    }
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Erasure
+  // ──────────────────────────────────────────────────────────────
+  // Throws while the visitor is checked in or under legal hold
+  async erase(lookup: SubjectLookup): Promise<SubjectRecordCounts> {
+    try {
+      const eraseVisitorData = httpsCallable<SubjectLookup, SubjectRecordCounts>(functions, 'eraseVisitorData');
+      const { data } = await eraseVisitorData(lookup);
+      return data;
+    } catch (error) {
+      console.error('Subject erasure error:', error);
+      throw error;
+    }
+  }
+}
+
+export const subjectAccessService = new SubjectAccessService();
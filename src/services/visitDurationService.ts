@@ -0,0 +1,125 @@
+// src/services/visitDurationService.ts
+
+import { doc, getDoc, setDoc, onSnapshot, Timestamp, DocumentData } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { Visitor, VisitDurationSettings } from '../types';
+import { auditService } from './auditService';
+
+export const DEFAULT_VISIT_DURATIONS: VisitDurationSettings = {
+  maxMinutes: {
+    family: 240,
+    friend: 180,
+    professional: 240,
+    volunteer: 480,
+    contractor: 600,
+  },
+  autoCheckOut: true,
+};
+
+// Keep in sync with functions/src/autoCheckOut.ts
+export const AUTO_CHECK_OUT_TIME = '11:55 PM';
+
+class VisitDurationService {
+  private settingsRef = doc(db, 'settings', 'visitDurations');
+
+  // ──────────────────────────────────────────────────────────────
+  // Settings
+  // ──────────────────────────────────────────────────────────────
+  async getSettings(): Promise<VisitDurationSettings> {
+    try {
+      const snapshot = await getDoc(this.settingsRef);
+      return this.withDefaults(snapshot.data());
+    } catch (error) {
+      console.error('getSettings error:', error);
+      return DEFAULT_VISIT_DURATIONS;
+    }
+  }
+
+  subscribe(callback: (settings: VisitDurationSettings) => void): () => void {
+    return onSnapshot(this.settingsRef, (snapshot) => {
+      callback(this.withDefaults(snapshot.data()));
+    }, (error) => {
+      console.error('Visit duration subscription error:', error);
+      callback(DEFAULT_VISIT_DURATIONS);
+    });
+  }
+
+  async saveSettings(settings: VisitDurationSettings, updatedBy: string): Promise<void> {
+    if (Object.values(settings.maxMinutes).some(minutes => minutes !== undefined && (!Number.isInteger(minutes) || minutes < 1))) {
+      throw new Error('Maximum visit lengths must be at least 1 minute');
+    }
+
+    try {
+      const before = await this.getSettings();
+      // Levels without a maximum are stored as null, which Firestore keeps and `undefined` it rejects
+      const maxMinutes = Object.fromEntries(
+        Object.keys(DEFAULT_VISIT_DURATIONS.maxMinutes).map(level => [level, settings.maxMinutes[level as Visitor['accessLevel']] ?? null])
+      );
+      await setDoc(this.settingsRef, {
+        maxMinutes,
+        autoCheckOut: settings.autoCheckOut,
+        updatedAt: Timestamp.fromDate(new Date()),
+        updatedBy,
+      });
+      await auditService.record({
+        action: 'visit_durations_updated',
+        ...auditService.diff(
+          { ...before.maxMinutes, autoCheckOut: before.autoCheckOut },
+          { ...maxMinutes, autoCheckOut: settings.autoCheckOut }
+        ),
+      });
+    } catch (error) {
+      console.error('Save visit durations error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Overstays
+  // ──────────────────────────────────────────────────────────────
+  // Minutes past the access level's maximum, or null while the visit is within it
+  getOverstayMinutes(visitor: Visitor, settings: VisitDurationSettings, now: Date = new Date()): number | null {
+    const maxMinutes = settings.maxMinutes[visitor.accessLevel];
+    if (visitor.status !== 'checked-in' || !maxMinutes || !visitor.checkInTime) return null;
+
+    const over = Math.floor((now.getTime() - visitor.checkInTime.getTime()) / 60000) - maxMinutes;
+    return over > 0 ? over : null;
+  }
+
+  formatOverstay(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m over` : `${minutes}m over`;
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Auto check-out
+  // ──────────────────────────────────────────────────────────────
+  // Runs the end-of-day close-out now, whether or not the nightly run is switched on
+  async runAutoCheckOut(): Promise<{ closed: number; people: number }> {
+    try {
+      const runAutoCheckOut = httpsCallable<void, { closed: number; people: number }>(functions, 'runAutoCheckOut');
+      const { data } = await runAutoCheckOut();
+      return data;
+    } catch (error) {
+      console.error('Run auto check-out error:', error);
+      throw error;
+    }
+  }
+
+  private withDefaults(data: DocumentData | undefined): VisitDurationSettings {
+    const stored = data?.maxMinutes || {};
+    return {
+      // A stored null means the level was deliberately left without a maximum
+      maxMinutes: Object.fromEntries(
+        Object.entries(DEFAULT_VISIT_DURATIONS.maxMinutes)
+          .map(([level, minutes]) => [level, level in stored ? stored[level] ?? undefined : minutes])
+      ),
+      autoCheckOut: data?.autoCheckOut ?? DEFAULT_VISIT_DURATIONS.autoCheckOut,
+      updatedAt: data?.updatedAt?.toDate(),
+      updatedBy: data?.updatedBy,
+    };
+  }
+}
+
+export const visitDurationService = new VisitDurationService();
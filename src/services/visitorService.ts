@@ -5,29 +5,95 @@ import {
   addDoc,
   updateDoc,
   doc,
+  getDoc,
   getDocs,
   query,
   where,
   orderBy,
+  limit,
   onSnapshot,
-  Timestamp
+  runTransaction,
+  Timestamp,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot
 } from 'firebase/firestore';
-import { db } from '../firebase/config';
-import { Visitor, HealthScreening } from '../types';
+import { auth, db } from '../firebase/config';
+import { Visitor, HealthScreening, AuditLog, VisitorProfile, VisitorProfileUpdate, FamilyMember, BadgeReissue } from '../types';
+import { auditService, AuditEntryInput } from './auditService';
+import { badgeCodeService } from './badgeCodeService';
+import { badgeNumberService } from './badgeNumberService';
+import { appointmentService } from './appointmentService';
+import { preRegistrationService } from './preRegistrationService';
 import {
   startOfDay as dateFnsStartOfDay,
   endOfDay as dateFnsEndOfDay,
 } from 'date-fns';
 
+// Shape written by this version of the app; keep in sync with CURRENT_SCHEMA_VERSION in functions/src/migrations
+export const VISITOR_SCHEMA_VERSION = 2;
+
+// Identity and contact fields are kept on the profile, never copied onto a visit
+const PROFILE_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'photoUrl', 'emergencyContact', 'emergencyPhone'];
+
+const displayName = (person: { firstName?: string; lastName?: string }) =>
+  `${person.firstName || ''} ${person.lastName || ''}`.trim();
+
+type DepartureStatus = 'checked-out' | 'emergency-evacuated';
+
+export type CheckInVisitorData = Omit<Visitor, 'id' | 'checkInTime' | 'qrCode' | 'badgeNumber' | 'visitorIdNumber'> & { visitorIdNumber?: string };
+
+// Set by the offline outbox so a check-in sent twice writes one visit, at the time it happened at the desk
+export interface CheckInOptions {
+  visitId?: string;
+  checkInTime?: Date;
+  offlineBadgeNumbers?: string[]; // Kept on sync unless someone else holds them by then
+  profileId?: string; // For the profile of a visitor who doesn't have one yet
+}
+
+// A visitor's profile as the check-in will leave it, and what the check-in writes to get there
+interface PreparedProfile {
+  profile: VisitorProfile;
+  isNew: boolean;
+  changes: Record<string, unknown>;
+  auditEntry: AuditEntryInput | null;
+}
+
+// Who is leaving a visit: the registered visitor, some or all of the family members with them
+interface Departure {
+  primary: boolean;
+  familyMemberIds: string[] | 'all';
+}
+
+interface DepartureResult {
+  status: DepartureStatus;
+  departedAt: Timestamp;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  departedMembers: FamilyMember[];
+  primaryDeparted: boolean;
+  visitClosed: boolean;
+}
+
 export class VisitorService {
-  private visitorsCollection = collection(db, 'visitors');
+  private visitsCollection = collection(db, 'visits');
+  private profilesCollection = collection(db, 'visitorProfiles');
   private auditCollection = collection(db, 'audit_logs');
 
   // ──────────────────────────────────────────────────────────────
   // Helper: Safely convert Firestore doc → Visitor object
   // ──────────────────────────────────────────────────────────────
-  private mapDocToVisitor(doc: any): Visitor {
+  // Contact details come from the profile when there is one, so an update there shows on every visit
+  private mapDocToVisitor(doc: any, profile?: VisitorProfile | null): Visitor {
     const data = doc.data();
+    const identity = profile || data;
+
+    const familyMembers: FamilyMember[] = (data.familyMembers || []).map((member: DocumentData) => ({
+      ...member,
+      checkInTime: member.checkInTime?.toDate?.() || null,
+      checkOutTime: member.checkOutTime?.toDate?.() || undefined,
+      status: member.status || (member.checkOutTime ? 'checked-out' : 'checked-in'),
+    }));
 
     let healthScreening: HealthScreening | null = null;
     if (data.healthScreening) {
@@ -39,73 +105,366 @@ export class VisitorService {
 
     return {
       id: doc.id,
-      fullName: data.fullName || '',
-      phoneNumber: data.phoneNumber || '',
+      schemaVersion: data.schemaVersion || undefined,
+      profileId: data.profileId || undefined,
+      firstName: identity.firstName || '',
+      lastName: identity.lastName || '',
+      email: identity.email || '',
+      phone: identity.phone || '',
       photoURL: data.photoURL || null,
+      photoUrl: identity.photoUrl || undefined,
+      emergencyContact: identity.emergencyContact || '',
+      emergencyPhone: identity.emergencyPhone || '',
+      relationship: data.relationship || '',
+      accessLevel: data.accessLevel || 'family',
+      notes: data.notes || undefined,
+      residentId: data.residentId || undefined,
       residentName: data.residentName || '',
-      roomNumber: data.roomNumber || '',
+      residentRoom: data.residentRoom || '',
       purpose: data.purpose || '',
+      visitorMeetingSelection: data.visitorMeetingSelection || '',
       visitorIdNumber: data.visitorIdNumber || '',
+      preRegistrationId: data.preRegistrationId || undefined,
+      appointmentId: data.appointmentId || undefined,
+      appointmentType: data.appointmentType || 'walk-in',
+      appointmentTime: data.appointmentTime || undefined,
       checkInTime: data.checkInTime?.toDate() || null,
       checkOutTime: data.checkOutTime?.toDate() || null,
+      primaryCheckOutTime: data.primaryCheckOutTime?.toDate() || undefined,
       status: data.status || 'checked-in',
+      familyMembers,
+      isFamilyGroup: familyMembers.length > 0,
       qrCode: data.qrCode || '',
+      qrCodeId: data.qrCodeId || undefined,
+      qrCodeExpiresAt: data.qrCodeExpiresAt?.toDate() || undefined,
       badgeNumber: data.badgeNumber || '',
       healthScreening: healthScreening, // can be null → no crash
+      policyOverride: data.policyOverride
+        ? { ...data.policyOverride, overriddenAt: data.policyOverride.overriddenAt?.toDate?.() || null }
+        : undefined,
+      purgedCategories: data.purgedCategories || undefined,
+      badgeReissues: data.badgeReissues || undefined,
+      checkedInBy: data.checkedInBy || undefined,
       // add any other fields you save
     } as unknown as Visitor;
   }
 
+  private mapDocToProfile(snapshot: DocumentSnapshot<DocumentData> | QueryDocumentSnapshot<DocumentData>): VisitorProfile {
+    const data = snapshot.data() || {};
+    return {
+      id: snapshot.id,
+      schemaVersion: data.schemaVersion || undefined,
+      visitorIdNumber: data.visitorIdNumber || '',
+      firstName: data.firstName || '',
+      lastName: data.lastName || '',
+      email: data.email || '',
+      phone: data.phone || '',
+      photoUrl: data.photoUrl || undefined,
+      emergencyContact: data.emergencyContact || '',
+      emergencyPhone: data.emergencyPhone || '',
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      lastVisitAt: data.lastVisitAt?.toDate(),
+      mergedInto: data.mergedInto || undefined,
+      mergedAt: data.mergedAt?.toDate(),
+      purgedCategories: data.purgedCategories || undefined,
+    };
+  }
+
+  // Reads each referenced profile once; visits whose profile can't be read fall back to their own fields
+  private async mapDocsToVisitors(docs: QueryDocumentSnapshot<DocumentData>[]): Promise<Visitor[]> {
+    const profileIds = Array.from(new Set(docs.map(d => d.data().profileId).filter(Boolean))) as string[];
+    const profiles = new Map<string, VisitorProfile>();
+
+    await Promise.all(profileIds.map(async profileId => {
+      try {
+        const snapshot = await getDoc(doc(this.profilesCollection, profileId));
+        if (snapshot.exists()) profiles.set(profileId, this.mapDocToProfile(snapshot));
+      } catch (error) {
+        console.warn('Could not read visitor profile', profileId, error);
+      }
+    }));
+
+    return docs.map(d => this.mapDocToVisitor(d, profiles.get(d.data().profileId)));
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Visitor profiles
+  // ──────────────────────────────────────────────────────────────
+  async getVisitorProfile(profileId: string): Promise<VisitorProfile | null> {
+    try {
+      const snapshot = await getDoc(doc(this.profilesCollection, profileId));
+      return snapshot.exists() ? this.mapDocToProfile(snapshot) : null;
+    } catch (error) {
+      console.error('getVisitorProfile error:', error);
+      return null;
+    }
+  }
+
+  // An ID number of a merged duplicate leads to the profile it was merged into
+  async findProfileByIdNumber(visitorIdNumber: string): Promise<VisitorProfile | null> {
+    try {
+      const q = query(this.profilesCollection, where('visitorIdNumber', '==', visitorIdNumber), limit(1));
+      const snapshot = await getDocs(q);
+      if (snapshot.empty) return null;
+
+      const profile = this.mapDocToProfile(snapshot.docs[0]);
+      return profile.mergedInto ? this.getVisitorProfile(profile.mergedInto) : profile;
+    } catch (error) {
+      console.error('Find profile by ID error:', error);
+      return null;
+    }
+  }
+
+  async updateVisitorProfile(profileId: string, updates: VisitorProfileUpdate): Promise<VisitorProfile> {
+    try {
+      const current = await this.getVisitorProfile(profileId);
+      if (!current) throw new Error('Visitor profile not found');
+
+      const changes: Record<string, unknown> = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      );
+
+      const { before, after } = auditService.diff(current as unknown as Record<string, unknown>, changes);
+      if (Object.keys(after).length === 0) return current;
+
+      const updatedAt = new Date();
+      await updateDoc(doc(this.profilesCollection, profileId), { ...after, updatedAt: Timestamp.fromDate(updatedAt) });
+
+      await auditService.record({
+        action: 'visitor_profile_updated',
+        before,
+        after,
+        details: { profileId, visitorIdNumber: current.visitorIdNumber },
+      });
+
+      return { ...current, ...after, updatedAt } as VisitorProfile;
+    } catch (error) {
+      console.error('Update visitor profile error:', error);
+      throw error;
+    }
+  }
+
+  // Returning visitors reuse their profile and refresh any contact details they changed. Nothing is saved
+  // here: the check-in transaction writes the profile along with the visit, so a check-in sent twice
+  // can't leave a second profile behind
+  private async prepareProfile(
+    visitorData: Partial<Visitor>,
+    isReturningVisitor: boolean,
+    profileId?: string
+  ): Promise<PreparedProfile> {
+    const details: VisitorProfileUpdate = {
+      firstName: visitorData.firstName || '',
+      lastName: visitorData.lastName || '',
+      email: visitorData.email || '',
+      phone: visitorData.phone || '',
+      emergencyContact: visitorData.emergencyContact || '',
+      emergencyPhone: visitorData.emergencyPhone || '',
+    };
+    if (visitorData.photoUrl) details.photoUrl = visitorData.photoUrl;
+
+    const now = new Date();
+
+    if (isReturningVisitor && visitorData.visitorIdNumber) {
+      const existing = await this.findProfileByIdNumber(visitorData.visitorIdNumber);
+      if (existing) {
+        // Empty form fields never wipe what the profile already has
+        const filled = Object.fromEntries(Object.entries(details).filter(([, value]) => value));
+        const { before, after } = auditService.diff(existing as unknown as Record<string, unknown>, filled);
+        if (Object.keys(after).length === 0) return { profile: existing, isNew: false, changes: {}, auditEntry: null };
+
+        return {
+          profile: { ...existing, ...after, updatedAt: now } as VisitorProfile,
+          isNew: false,
+          changes: { ...after, updatedAt: Timestamp.fromDate(now) },
+          auditEntry: {
+            action: 'visitor_profile_updated',
+            before,
+            after,
+            details: { profileId: existing.id, visitorIdNumber: existing.visitorIdNumber },
+          },
+        };
+      }
+    }
+
+    const profileRef = profileId ? doc(this.profilesCollection, profileId) : doc(this.profilesCollection);
+    const profile = {
+      ...details,
+      visitorIdNumber: isReturningVisitor && visitorData.visitorIdNumber
+        ? visitorData.visitorIdNumber
+        : await badgeNumberService.allocateVisitorIdNumber(),
+    };
+
+    return {
+      profile: { ...profile, id: profileRef.id, schemaVersion: VISITOR_SCHEMA_VERSION, createdAt: now, updatedAt: now } as VisitorProfile,
+      isNew: true,
+      changes: {
+        ...profile,
+        schemaVersion: VISITOR_SCHEMA_VERSION,
+        createdAt: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now),
+      },
+      auditEntry: {
+        action: 'visitor_profile_created',
+        after: { ...profile },
+        details: { profileId: profileRef.id },
+      },
+    };
+  }
+
   // ──────────────────────────────────────────────────────────────
   // Check-in
   // ──────────────────────────────────────────────────────────────
   async checkInVisitor(
-    visitorData: Omit<Visitor, 'id' | 'checkInTime' | 'qrCode' | 'badgeNumber' | 'visitorIdNumber'> & { visitorIdNumber?: string },
-    isReturningVisitor: boolean = false
+    visitorData: CheckInVisitorData,
+    isReturningVisitor: boolean = false,
+    options: CheckInOptions = {}
   ): Promise<Visitor> {
     try {
-      console.log('Check-in started for:', visitorData.fullName);
-
-      let visitorIdNumber: string;
-      let qrCode: string;
-      let badgeNumber: string;
-
-      if (isReturningVisitor && visitorData.visitorIdNumber) {
-        visitorIdNumber = visitorData.visitorIdNumber;
-        qrCode = this.generateQRCode(visitorIdNumber);
-        badgeNumber = this.generateBadgeNumber();
-      } else {
-        visitorIdNumber = this.generateVisitorIdNumber();
-        qrCode = this.generateQRCode(visitorIdNumber);
-        badgeNumber = this.generateBadgeNumber();
+      console.log('Check-in started for:', displayName(visitorData));
+
+      const visitRef = options.visitId ? doc(this.visitsCollection, options.visitId) : doc(this.visitsCollection);
+      if (options.visitId) {
+        const existing = await getDoc(visitRef);
+        if (existing.exists()) return this.resumeCheckIn(existing, options.offlineBadgeNumbers);
       }
 
-      const visitorPayload: any = {
-        ...visitorData,
-        visitorIdNumber,
-        qrCode,
-        badgeNumber,
-        checkInTime: Timestamp.fromDate(new Date()),
-        status: 'checked-in',
-      };
+      const prepared = await this.prepareProfile(visitorData, isReturningVisitor, options.profileId);
+      const { profile } = prepared;
+      const visitorIdNumber = profile.visitorIdNumber;
+      const familyMembers = visitorData.familyMembers || [];
+
+      // Visitors checked in from the arrivals board bring their appointment; anyone else is matched by ID, phone or name
+      const appointment = visitorData.appointmentId
+        ? null
+        : await appointmentService.findForArrival({ ...visitorData, visitorIdNumber });
+      const appointmentFields = appointment
+        ? { appointmentId: appointment.id, appointmentType: 'scheduled', appointmentTime: appointment.startTime.toISOString() }
+        : {};
+      const visitFields = Object.fromEntries(
+        Object.entries(visitorData).filter(([key]) => !PROFILE_FIELDS.includes(key))
+      );
 
-      // Only add healthScreening if it exists
-      if (visitorData.healthScreening) {
-        visitorPayload.healthScreening = {
-          ...visitorData.healthScreening,
-          screeningDate: Timestamp.fromDate(visitorData.healthScreening.screeningDate || new Date()),
+      // Badge numbers are reserved in the same transaction that writes the visit
+      let badgeReissues: BadgeReissue[] = [];
+      const visitorPayload = await runTransaction(db, async (transaction) => {
+        if (options.visitId && (await transaction.get(visitRef)).exists()) return null;
+        const claimsPass = !!visitorData.preRegistrationId &&
+          await preRegistrationService.claimPass(transaction, visitorData.preRegistrationId, !!options.offlineBadgeNumbers);
+
+        const [badgeNumber, ...memberBadges] = options.offlineBadgeNumbers
+          ? await badgeNumberService.reconcileBadgeNumbers(transaction, visitorData.accessLevel, options.offlineBadgeNumbers, visitRef.id)
+          : await badgeNumberService.reserveBadgeNumbers(transaction, visitorData.accessLevel, 1 + familyMembers.length, visitRef.id);
+        badgeReissues = this.listBadgeReissues(
+          options.offlineBadgeNumbers || [],
+          badgeNumber,
+          familyMembers.map((member, index) => ({ ...member, badgeNumber: memberBadges[index] }))
+        );
+
+        const checkInTime = Timestamp.fromDate(options.checkInTime || new Date());
+        const payload: any = {
+          ...visitFields,
+          ...appointmentFields,
+          schemaVersion: VISITOR_SCHEMA_VERSION,
+          profileId: profile.id,
+          visitorIdNumber,
+          qrCode: '',
+          badgeNumber,
+          checkInTime,
+          status: 'checked-in',
+          checkedInBy: auth.currentUser?.uid || null,
+          familyMembers: familyMembers.map((member, index) => this.toFamilyMemberDoc(
+            { ...member, badgeNumber: memberBadges[index], visitorId: memberBadges[index] },
+            checkInTime
+          )),
+          isFamilyGroup: familyMembers.length > 0,
         };
+        if (badgeReissues.length > 0) payload.badgeReissues = badgeReissues;
+
+        // Only add healthScreening if it exists
+        if (visitorData.healthScreening) {
+          payload.healthScreening = {
+            ...visitorData.healthScreening,
+            screeningDate: Timestamp.fromDate(visitorData.healthScreening.screeningDate || new Date()),
+          };
+        }
+
+        const profileRef = doc(this.profilesCollection, profile.id);
+        const profileWrite = { ...prepared.changes, lastVisitAt: checkInTime };
+        if (prepared.isNew) {
+          transaction.set(profileRef, profileWrite);
+        } else {
+          transaction.update(profileRef, profileWrite);
+        }
+        transaction.set(visitRef, payload);
+        if (claimsPass) preRegistrationService.markArrived(transaction, visitorData.preRegistrationId!, visitRef.id, checkInTime.toDate());
+        return payload;
+      });
+      // Another attempt at the same check-in got there first
+      if (!visitorPayload) return this.resumeCheckIn(await getDoc(visitRef), options.offlineBadgeNumbers);
+      const { badgeNumber } = visitorPayload;
+
+      if (visitorPayload.appointmentId) {
+        try {
+          await appointmentService.markArrived(visitorPayload.appointmentId, visitRef.id);
+        } catch (error) {
+          console.warn('Appointment could not be marked as arrived:', error);
+        }
       }
 
-      const docRef = await addDoc(this.visitorsCollection, visitorPayload);
+      // The badge code is signed by a Cloud Function; without it the visitor can still sign in with their ID number
+      try {
+        const badgeCode = await badgeCodeService.issue(visitRef.id);
+        visitorPayload.qrCode = badgeCode.qrCode;
+        visitorPayload.qrCodeId = badgeCode.codeId;
+        visitorPayload.qrCodeExpiresAt = Timestamp.fromDate(badgeCode.expiresAt);
+      } catch (error) {
+        console.warn('Badge QR code could not be issued:', error);
+      }
 
-      await this.logAudit('visitor_check_in', 'system', docRef.id, {
-        visitorName: visitorData.fullName,
-        resident: visitorData.residentName,
-        room: visitorData.roomNumber,
+      const auditEntries: AuditEntryInput[] = prepared.auditEntry ? [prepared.auditEntry] : [];
+      auditEntries.push({
+        action: 'visitor_check_in',
+        visitorId: visitRef.id,
+        after: {
+          status: 'checked-in',
+          checkInTime: visitorPayload.checkInTime,
+          visitorIdNumber,
+          badgeNumber,
+          residentId: visitorData.residentId || null,
+          residentName: visitorData.residentName || null,
+          residentRoom: visitorData.residentRoom || null,
+        },
+        details: {
+          visitorName: displayName(profile),
+          profileId: profile.id,
+          isReturningVisitor,
+          familyMembers: visitorData.familyMembers?.length || 0,
+          preRegistrationId: visitorData.preRegistrationId || null,
+          appointmentId: visitorPayload.appointmentId || null,
+          ...(options.offlineBadgeNumbers ? { offline: true, badgeReissues } : {}),
+        },
       });
 
-      return this.mapDocToVisitor({ id: docRef.id, data: () => visitorPayload });
+      if (visitorData.policyOverride) {
+        auditEntries.push({
+          action: 'check_in_policy_override',
+          visitorId: visitRef.id,
+          details: {
+            visitorName: displayName(profile),
+            residentId: visitorData.residentId || null,
+            rules: visitorData.policyOverride.rules,
+            watchlistEntryIds: visitorData.policyOverride.watchlistEntryIds || [],
+            reason: visitorData.policyOverride.reason,
+            supervisorId: visitorData.policyOverride.supervisorId,
+            supervisorName: visitorData.policyOverride.supervisorName,
+          },
+        });
+      }
+
+      await auditService.record(auditEntries);
+
+      return this.mapDocToVisitor({ id: visitRef.id, data: () => visitorPayload }, profile);
     } catch (error) {
       console.error('Check-in failed:', error);
       throw error;
@@ -113,22 +472,44 @@ export class VisitorService {
   }
 
 
+  // A check-in that already reached the server keeps the badges stored on its visit. Sent again from the
+  // outbox, the provisional badges the desk handed out are listed against them so they can be swapped
+  private async resumeCheckIn(snapshot: DocumentSnapshot<DocumentData>, offlineBadgeNumbers?: string[]): Promise<Visitor> {
+    const profileId = snapshot.get('profileId');
+    const visitor = this.mapDocToVisitor(snapshot, profileId ? await this.getVisitorProfile(profileId) : null);
+    if (!offlineBadgeNumbers || visitor.badgeReissues) return visitor;
+
+    const badgeReissues = this.listBadgeReissues(offlineBadgeNumbers, visitor.badgeNumber, visitor.familyMembers || []);
+    if (badgeReissues.length === 0) return visitor;
+
+    await updateDoc(snapshot.ref, { badgeReissues });
+    return { ...visitor, badgeReissues };
+  }
+
+  // Badges handed out offline, in party order, that differ from the ones the visit holds
+  private listBadgeReissues(issued: string[], badgeNumber: string, familyMembers: FamilyMember[]): BadgeReissue[] {
+    return issued.flatMap((number, index): BadgeReissue[] => {
+      const assigned = index === 0 ? badgeNumber : familyMembers[index - 1]?.badgeNumber;
+      if (!assigned || number === assigned) return [];
+      return [index === 0 ? { issued: number, assigned } : { issued: number, assigned, familyMemberId: familyMembers[index - 1].id }];
+    });
+  }
+
   async getVisitorsByDateRange(startDate: Date, endDate: Date): Promise<Visitor[]> {
     try {
       const q = query(
-        this.visitorsCollection,
+        this.visitsCollection,
         where('checkInTime', '>=', Timestamp.fromDate(dateFnsStartOfDay(startDate))),
         where('checkInTime', '<=', Timestamp.fromDate(dateFnsEndOfDay(endDate))),
         orderBy('checkInTime', 'desc')
       );
       const snapshot = await getDocs(q);
-      return snapshot.docs.map(d => this.mapDocToVisitor(d));
+      return this.mapDocsToVisitors(snapshot.docs);
     } catch (error: any) {
       console.warn('Date range query failed (index missing?), falling back...', error);
 
-      const all = await getDocs(this.visitorsCollection);
-      return all.docs
-        .map(d => this.mapDocToVisitor(d))
+      const all = await getDocs(this.visitsCollection);
+      return (await this.mapDocsToVisitors(all.docs))
         .filter(v => v.checkInTime && v.checkInTime >= dateFnsStartOfDay(startDate) && v.checkInTime <= dateFnsEndOfDay(endDate))
         .sort((a, b) => (b.checkInTime?.getTime() || 0) - (a.checkInTime?.getTime() || 0));
     }
@@ -137,16 +518,18 @@ export class VisitorService {
   // ──────────────────────────────────────────────────────────────
   // Check-out
   // ──────────────────────────────────────────────────────────────
-  async checkOutVisitor(visitorId: string): Promise<void> {
+  // The registered visitor only; the visit stays open while any of their family members are still inside
+  async checkOutVisitor(visitorId: string, at: Date = new Date()): Promise<void> {
     try {
-      const visitorRef = doc(db, 'visitors', visitorId);
-      await updateDoc(visitorRef, {
-        checkOutTime: Timestamp.fromDate(new Date()),
-        status: 'checked-out',
-      });
-
-      await this.logAudit('visitor_check_out', 'system', visitorId, {
-        timestamp: new Date().toISOString(),
+      const result = await this.recordDeparture(visitorId, { primary: true, familyMemberIds: [] }, 'checked-out', at);
+      if (!result.primaryDeparted) return;
+
+      await auditService.record({
+        action: 'visitor_check_out',
+        visitorId,
+        before: result.before,
+        after: result.after,
+        details: { visitClosed: result.visitClosed },
       });
     } catch (error) {
       console.error('Check-out failed:', error);
@@ -154,24 +537,55 @@ export class VisitorService {
     }
   }
 
+  async checkOutFamilyMember(visitorId: string, familyMemberId: string, at: Date = new Date()): Promise<void> {
+    try {
+      const result = await this.recordDeparture(visitorId, { primary: false, familyMemberIds: [familyMemberId] }, 'checked-out', at);
+      await auditService.record(this.familyMemberAuditEntries(visitorId, result));
+    } catch (error) {
+      console.error('Family member check-out failed:', error);
+      throw error;
+    }
+  }
+
+  // Everyone in the party who is still inside, for staff closing a visit from the dashboard
+  async checkOutParty(visitorId: string, at: Date = new Date()): Promise<void> {
+    try {
+      const result = await this.recordDeparture(visitorId, { primary: true, familyMemberIds: 'all' }, 'checked-out', at);
+      const entries = this.familyMemberAuditEntries(visitorId, result);
+      if (result.primaryDeparted) {
+        entries.unshift({
+          action: 'visitor_check_out',
+          visitorId,
+          before: result.before,
+          after: result.after,
+          details: { visitClosed: result.visitClosed, familyMembers: result.departedMembers.length },
+        });
+      }
+      await auditService.record(entries);
+    } catch (error) {
+      console.error('Party check-out failed:', error);
+      throw error;
+    }
+  }
+
   // ──────────────────────────────────────────────────────────────
   // Get Active Visitors (currently inside)
   // ──────────────────────────────────────────────────────────────
   async getActiveVisitors(): Promise<Visitor[]> {
     try {
       const q = query(
-        this.visitorsCollection,
+        this.visitsCollection,
         where('status', '==', 'checked-in'),
         orderBy('checkInTime', 'desc')
       );
       const snapshot = await getDocs(q);
-      return snapshot.docs.map(doc => this.mapDocToVisitor(doc));
+      return this.mapDocsToVisitors(snapshot.docs);
     } catch (error: any) {
       if (error.code === 'failed-precondition') {
         console.warn('Index missing, falling back...');
-        const fallback = query(this.visitorsCollection, where('status', '==', 'checked-in'));
+        const fallback = query(this.visitsCollection, where('status', '==', 'checked-in'));
         const snapshot = await getDocs(fallback);
-        const visitors = snapshot.docs.map(doc => this.mapDocToVisitor(doc));
+        const visitors = await this.mapDocsToVisitors(snapshot.docs);
         return visitors.sort((a, b) => (b.checkInTime?.getTime() || 0) - (a.checkInTime?.getTime() || 0));
       }
       console.error('getActiveVisitors error:', error);
@@ -195,25 +609,24 @@ export class VisitorService {
 
       // Try efficient indexed query first
       const q = query(
-        this.visitorsCollection,
+        this.visitsCollection,
 
         orderBy('checkInTime', 'desc')
       );
 
       const snapshot = await getDocs(q);
-      return snapshot.docs.map(doc => this.mapDocToVisitor(doc));
+      return this.mapDocsToVisitors(snapshot.docs);
 
     } catch (error: any) {
       if (error.code === 'failed-precondition') {
         console.warn('Composite index missing. Falling back to client-side filtering...');
 
         // Fallback: Get ALL visitors and filter locally
-        const allSnapshot = await getDocs(this.visitorsCollection);
+        const allSnapshot = await getDocs(this.visitsCollection);
         const todayStart = new Date();
         todayStart.setHours(0, 0, 0, 0);
 
-        const todayVisitors = allSnapshot.docs
-          .map(doc => this.mapDocToVisitor(doc))
+        const todayVisitors = (await this.mapDocsToVisitors(allSnapshot.docs))
           .filter(visitor => {
             if (!visitor.checkInTime) return false;
             return visitor.checkInTime >= todayStart;
@@ -236,12 +649,17 @@ export class VisitorService {
   // ──────────────────────────────────────────────────────────────
   subscribeToActiveVisitors(callback: (visitors: Visitor[]) => void) {
     const q = query(
-      this.visitorsCollection,
+      this.visitsCollection,
       where('status', '==', 'checked-in')
     );
 
-    return onSnapshot(q, (snapshot) => {
-      const visitors = snapshot.docs.map(doc => this.mapDocToVisitor(doc));
+    // Profiles load asynchronously, so a slow older snapshot must not overwrite a newer one
+    let latestSnapshot = 0;
+
+    return onSnapshot(q, async (snapshot) => {
+      const current = ++latestSnapshot;
+      const visitors = await this.mapDocsToVisitors(snapshot.docs);
+      if (current !== latestSnapshot) return;
       visitors.sort((a, b) => (b.checkInTime?.getTime() || 0) - (a.checkInTime?.getTime() || 0));
       callback(visitors);
     }, (error) => {
@@ -253,76 +671,162 @@ export class VisitorService {
   // ──────────────────────────────────────────────────────────────
   // Find visitor by ID number or QR code
   // ──────────────────────────────────────────────────────────────
+  // The profile plus its most recent visit, which supplies the resident and visit details to reuse
   async findVisitorByIdNumber(visitorIdNumber: string): Promise<Visitor | null> {
     try {
-      const q = query(this.visitorsCollection, where('visitorIdNumber', '==', visitorIdNumber));
-      const snapshot = await getDocs(q);
-      if (snapshot.empty) return null;
-      return this.mapDocToVisitor(snapshot.docs[0]);
+      const profile = await this.findProfileByIdNumber(visitorIdNumber);
+      if (!profile) return null;
+
+      const lastVisit = await this.getLatestVisit(profile.id);
+      return lastVisit ? this.mapDocToVisitor(lastVisit, profile) : null;
     } catch (error) {
       console.error('Find by ID error:', error);
       return null;
     }
   }
 
-  async findVisitorByQRCode(qrCodeData: string): Promise<Visitor | null> {
+  private async getLatestVisit(profileId: string): Promise<QueryDocumentSnapshot<DocumentData> | null> {
     try {
-      const parsed = JSON.parse(qrCodeData);
-      const id = parsed.id || parsed.visitorId;
-      if (id) return this.findVisitorByIdNumber(id);
-      return null;
-    } catch {
-      return null;
+      const q = query(this.visitsCollection, where('profileId', '==', profileId), orderBy('checkInTime', 'desc'), limit(1));
+      const snapshot = await getDocs(q);
+      return snapshot.empty ? null : snapshot.docs[0];
+    } catch (error) {
+      if ((error as { code?: string }).code === 'failed-precondition') {
+        console.warn('Index missing, falling back...');
+        const snapshot = await getDocs(query(this.visitsCollection, where('profileId', '==', profileId)));
+        const visits = snapshot.docs.sort((a, b) =>
+          (b.data().checkInTime?.toMillis() || 0) - (a.data().checkInTime?.toMillis() || 0)
+        );
+        return visits[0] || null;
+      }
+      throw error;
+    }
+  }
+
+  // Throws with the reason when the code is forged, expired or revoked
+  async findVisitorByQRCode(qrCodeData: string): Promise<Visitor | null> {
+    const verification = await badgeCodeService.verify(qrCodeData);
+    if (!verification.valid) {
+      throw new Error(verification.reason);
     }
+    if (verification.payload.t !== 'v') {
+      throw new Error('This is a pre-registration pass. Scan it with "Scan Pass" on the front desk dashboard.');
+    }
+    return this.findVisitorByIdNumber(verification.payload.id);
   }
 
   // ──────────────────────────────────────────────────────────────
   // Emergency evacuation
   // ──────────────────────────────────────────────────────────────
-  async emergencyEvacuation(visitorIds: string[]): Promise<void> {
-    const promises = visitorIds.map(id =>
-      updateDoc(doc(db, 'visitors', id), {
-        status: 'emergency-evacuated',
-        checkOutTime: Timestamp.fromDate(new Date()),
-      })
-    );
-    await Promise.all(promises);
+  // Each person is evacuated on their own; a visit closes once nobody from it is left inside
+  async emergencyEvacuation(people: { visitorId: string; familyMemberId?: string }[], at: Date = new Date()): Promise<void> {
+    const byVisit = new Map<string, Departure>();
+    people.forEach(({ visitorId, familyMemberId }) => {
+      const departure = byVisit.get(visitorId) || { primary: false, familyMemberIds: [] as string[] };
+      if (familyMemberId) (departure.familyMemberIds as string[]).push(familyMemberId);
+      else departure.primary = true;
+      byVisit.set(visitorId, departure);
+    });
+
+    const results = await Promise.all(Array.from(byVisit.entries()).map(async ([visitorId, departure]) => ({
+      visitorId,
+      result: await this.recordDeparture(visitorId, departure, 'emergency-evacuated', at),
+    })));
+
+    await auditService.record(results.flatMap(({ visitorId, result }) => [
+      ...(result.primaryDeparted ? [{
+        action: 'visitor_emergency_evacuation',
+        visitorId,
+        before: result.before,
+        after: result.after,
+        details: { evacuatedCount: people.length, visitClosed: result.visitClosed },
+      }] : []),
+      ...this.familyMemberAuditEntries(visitorId, result),
+    ]));
   }
 
   // ──────────────────────────────────────────────────────────────
   // Utilities
   // ──────────────────────────────────────────────────────────────
-  private generateVisitorIdNumber(): string {
-    return `VID-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+  // Firestore rejects undefined values, so optional details the form left empty are dropped
+  private toFamilyMemberDoc(member: FamilyMember, checkInTime: Timestamp): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries({ ...member, checkInTime, checkOutTime: undefined, status: 'checked-in' })
+        .filter(([, value]) => value !== undefined)
+    );
   }
 
-  private generateQRCode(visitorIdNumber: string): string {
-    return JSON.stringify({ t: 'v', id: visitorIdNumber, ts: Date.now() });
-  }
+  // A transaction, so two terminals checking out members of the same party can't leave the visit open.
+  // `at` is when they left, which is earlier than now for departures queued while offline
+  private async recordDeparture(visitorId: string, departure: Departure, status: DepartureStatus, at: Date): Promise<DepartureResult> {
+    const visitRef = doc(this.visitsCollection, visitorId);
 
-  private generateBadgeNumber(): string {
-    return `B${Date.now().toString().slice(-6)}`;
-  }
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(visitRef);
+      if (!snapshot.exists()) throw new Error('Visit not found');
 
-  private async logAudit(action: string, userId: string, visitorId: string, details: any) {
-    try {
-      await addDoc(this.auditCollection, {
-        timestamp: Timestamp.fromDate(new Date()),
-        action,
-        userId,
-        visitorId: visitorId,
-        details,
+      const data = snapshot.data();
+      const before = {
+        status: data.status || null,
+        checkOutTime: data.checkOutTime || null,
+        primaryCheckOutTime: data.primaryCheckOutTime || null,
+      };
+
+      const now = Timestamp.fromDate(at);
+      if (data.status && data.status !== 'checked-in') {
+        return { status, departedAt: now, before, after: before, departedMembers: [], primaryDeparted: false, visitClosed: true };
+      }
+
+      const departedMembers: FamilyMember[] = [];
+      const familyMembers = (data.familyMembers || []).map((member: DocumentData) => {
+        const leaving = !member.checkOutTime &&
+          (departure.familyMemberIds === 'all' || departure.familyMemberIds.includes(member.id));
+        if (!leaving) return member;
+
+        departedMembers.push(member as FamilyMember);
+        return { ...member, status, checkOutTime: now };
       });
-    } catch (e) {
-      console.warn('Audit log failed', e);
-    }
+
+      const primaryDeparted = departure.primary && !data.primaryCheckOutTime;
+      const primaryCheckOutTime = data.primaryCheckOutTime || (primaryDeparted ? now : null);
+      const visitClosed = !!primaryCheckOutTime && familyMembers.every((member: DocumentData) => member.checkOutTime);
+
+      const after: Record<string, unknown> = {
+        primaryCheckOutTime,
+        status: visitClosed ? status : 'checked-in',
+        checkOutTime: visitClosed ? now : null,
+      };
+      transaction.update(visitRef, { ...after, familyMembers });
+      badgeNumberService.releaseBadgeNumbers(transaction, [
+        ...(primaryDeparted ? [data.badgeNumber] : []),
+        ...departedMembers.map(member => member.badgeNumber),
+      ]);
+
+      return { status, departedAt: now, before, after, departedMembers, primaryDeparted, visitClosed };
+    });
+  }
+
+  private familyMemberAuditEntries(visitorId: string, result: DepartureResult): AuditEntryInput[] {
+    return result.departedMembers.map(member => ({
+      action: result.status === 'checked-out' ? 'family_member_check_out' : 'family_member_emergency_evacuation',
+      visitorId,
+      before: { status: 'checked-in', checkOutTime: null },
+      after: { status: result.status, checkOutTime: result.departedAt },
+      details: {
+        familyMemberId: member.id,
+        name: displayName(member),
+        badgeNumber: member.badgeNumber,
+        visitClosed: result.visitClosed,
+      },
+    }));
   }
 
   // Test DB connection (optional debug)
   async testDatabaseConnection() {
     try {
-      const testRef = await addDoc(this.visitorsCollection, { test: true, ts: Timestamp.now() });
+      const testRef = await addDoc(this.visitsCollection, { test: true, ts: Timestamp.now() });
       await updateDoc(testRef, { test: false });
+      await auditService.record({ action: 'database_connection_test', visitorId: testRef.id });
       return { success: true, message: 'Database OK' };
     } catch (e: any) {
       console.error('testDatabaseConnection error:', e);
@@ -335,22 +839,29 @@ export class VisitorService {
   // ──────────────────────────────────────────────────────────────
   async getAllVisitors(): Promise<Visitor[]> {
     try {
-      const snapshot = await getDocs(this.visitorsCollection);
-      return snapshot.docs.map(doc => this.mapDocToVisitor(doc));
+      const snapshot = await getDocs(this.visitsCollection);
+      return this.mapDocsToVisitors(snapshot.docs);
     } catch (error) {
       console.error('getAllVisitors error:', error);
       return [];
     }
   }
 
-  async getAllAuditLogs(): Promise<any[]> {
+  // Newest first; chained entries by sequence, older unchained ones by time
+  async getAllAuditLogs(): Promise<AuditLog[]> {
     try {
       const snapshot = await getDocs(this.auditCollection);
-      return snapshot.docs.map(doc => ({
+      const logs = snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data(),
-        timestamp: doc.data().timestamp?.toDate() || null
-      }));
+        details: doc.data().details || {},
+        ipAddress: doc.data().ipAddress || '',
+        timestamp: doc.data().timestamp?.toDate() || null,
+        redactedAt: doc.data().redactedAt?.toDate() || undefined
+      })) as AuditLog[];
+      return logs.sort((a, b) =>
+        (b.sequence ?? 0) - (a.sequence ?? 0) || (b.timestamp?.getTime() || 0) - (a.timestamp?.getTime() || 0)
+      );
     } catch (error) {
       console.error('getAllAuditLogs error:', error);
       return [];
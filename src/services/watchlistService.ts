@@ -0,0 +1,217 @@
+// src/services/watchlistService.ts
+
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  Timestamp,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { Visitor, WatchlistEntry, WatchlistMatch } from '../types';
+import { auditService } from './auditService';
+import { nameMatchService } from './nameMatchService';
+
+export type WatchlistEntryInput = Omit<WatchlistEntry, 'id' | 'createdAt' | 'createdBy' | 'updatedAt'>;
+
+// Names at least this similar count as a hit, so "Jon Smyth" is caught for "John Smith"
+export const NAME_MATCH_THRESHOLD = 0.8;
+
+type ScreenedVisitor = Pick<Visitor, 'firstName' | 'lastName'> &
+  Partial<Pick<Visitor, 'phone' | 'visitorIdNumber' | 'residentId'>>;
+
+export class WatchlistService {
+  private watchlistCollection = collection(db, 'watchlist');
+
+  // ──────────────────────────────────────────────────────────────
+  // Helper: Firestore doc → WatchlistEntry object
+  // ──────────────────────────────────────────────────────────────
+  private mapDocToEntry(snapshot: QueryDocumentSnapshot<DocumentData> | DocumentSnapshot<DocumentData>): WatchlistEntry {
+    const data = snapshot.data() || {};
+
+    return {
+      id: snapshot.id,
+      firstName: data.firstName || '',
+      lastName: data.lastName || '',
+      aliases: data.aliases || [],
+      phone: data.phone || undefined,
+      visitorIdNumber: data.visitorIdNumber || undefined,
+      photoUrl: data.photoUrl || undefined,
+      reason: data.reason || '',
+      action: data.action === 'override' ? 'override' : 'block',
+      residentIds: data.residentIds || [],
+      expiresAt: data.expiresAt?.toDate() || undefined,
+      createdAt: data.createdAt?.toDate(),
+      createdBy: data.createdBy || '',
+      updatedAt: data.updatedAt?.toDate() || undefined,
+    };
+  }
+
+  // Firestore rejects `undefined` values, so optional fields are dropped
+  private toFirestore(entry: Partial<WatchlistEntryInput>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries({ ...entry, expiresAt: entry.expiresAt ? Timestamp.fromDate(entry.expiresAt) : undefined })
+        .filter(([, value]) => value !== undefined && value !== '')
+    );
+  }
+
+  isActive(entry: WatchlistEntry, at: Date = new Date()): boolean {
+    return !entry.expiresAt || entry.expiresAt > at;
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Queries
+  // ──────────────────────────────────────────────────────────────
+  async getAllEntries(): Promise<WatchlistEntry[]> {
+    try {
+      const snapshot = await getDocs(query(this.watchlistCollection, orderBy('lastName')));
+      return snapshot.docs.map(d => this.mapDocToEntry(d));
+    } catch (error) {
+      console.error('getAllEntries error:', error);
+      return [];
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Mutations
+  // ──────────────────────────────────────────────────────────────
+  async createEntry(entry: WatchlistEntryInput, createdBy: string): Promise<WatchlistEntry> {
+    try {
+      const createdAt = new Date();
+      const docRef = await addDoc(this.watchlistCollection, {
+        ...this.toFirestore(entry),
+        createdAt: Timestamp.fromDate(createdAt),
+        createdBy,
+      });
+      await auditService.record({
+        action: 'watchlist_entry_created',
+        after: this.auditFields(entry),
+        details: { watchlistEntryId: docRef.id },
+      });
+      return { ...entry, id: docRef.id, createdAt, createdBy };
+    } catch (error) {
+      console.error('Create watchlist entry error:', error);
+      throw error;
+    }
+  }
+
+  async updateEntry(entryId: string, updates: Partial<WatchlistEntryInput>): Promise<void> {
+    try {
+      const before = await getDoc(doc(this.watchlistCollection, entryId));
+      // Optional fields cleared in the form are removed, e.g. lifting the expiry
+      const cleared = Object.entries(updates)
+        .filter(([, value]) => value === undefined || value === '')
+        .map(([key]) => [key, deleteField()]);
+      await updateDoc(doc(this.watchlistCollection, entryId), {
+        ...this.toFirestore(updates),
+        ...Object.fromEntries(cleared),
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      await auditService.record({
+        action: 'watchlist_entry_updated',
+        ...auditService.diff(this.auditFields(before.exists() ? this.mapDocToEntry(before) : {}), this.auditFields(updates)),
+        details: { watchlistEntryId: entryId },
+      });
+    } catch (error) {
+      console.error('Update watchlist entry error:', error);
+      throw error;
+    }
+  }
+
+  async deleteEntry(entryId: string): Promise<void> {
+    try {
+      const before = await getDoc(doc(this.watchlistCollection, entryId));
+      await deleteDoc(doc(this.watchlistCollection, entryId));
+      await auditService.record({
+        action: 'watchlist_entry_deleted',
+        before: before.exists() ? this.auditFields(this.mapDocToEntry(before)) : undefined,
+        details: { watchlistEntryId: entryId },
+      });
+    } catch (error) {
+      console.error('Delete watchlist entry error:', error);
+      throw error;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Screening
+  // ──────────────────────────────────────────────────────────────
+  // Every hit is written to the audit trail; throws when the watchlist cannot be read
+  // so the caller can refuse to wave the visitor through unscreened
+  async screen(visitor: ScreenedVisitor, at: Date = new Date()): Promise<WatchlistMatch[]> {
+    const snapshot = await getDocs(this.watchlistCollection);
+    const matches = snapshot.docs
+      .map(d => this.mapDocToEntry(d))
+      .filter(entry => this.isActive(entry, at))
+      .filter(entry => entry.residentIds.length === 0 || (!!visitor.residentId && entry.residentIds.includes(visitor.residentId)))
+      .map(entry => this.match(entry, visitor))
+      .filter((match): match is WatchlistMatch => match !== null);
+
+    if (matches.length > 0) {
+      await auditService.record(matches.map(match => ({
+        action: 'watchlist_hit',
+        details: {
+          watchlistEntryId: match.entry.id,
+          listedName: `${match.entry.firstName} ${match.entry.lastName}`.trim(),
+          visitorName: `${visitor.firstName} ${visitor.lastName}`.trim(),
+          visitorIdNumber: visitor.visitorIdNumber,
+          residentId: visitor.residentId,
+          matchedOn: match.matchedOn,
+          nameSimilarity: Math.round(match.nameSimilarity * 100) / 100,
+          action: match.entry.action,
+          reason: match.entry.reason,
+        },
+      })));
+    }
+    return matches;
+  }
+
+  match(entry: WatchlistEntry, visitor: ScreenedVisitor): WatchlistMatch | null {
+    const matchedOn: WatchlistMatch['matchedOn'] = [];
+
+    const idNumber = this.normalizeId(visitor.visitorIdNumber);
+    if (idNumber && idNumber === this.normalizeId(entry.visitorIdNumber)) matchedOn.push('id-number');
+
+    const phone = nameMatchService.normalizePhone(visitor.phone);
+    if (phone.length >= 7 && phone === nameMatchService.normalizePhone(entry.phone)) matchedOn.push('phone');
+
+    const nameSimilarity = this.nameSimilarity(entry, visitor);
+    if (nameSimilarity >= NAME_MATCH_THRESHOLD) matchedOn.push('name');
+
+    return matchedOn.length > 0 ? { entry, matchedOn, nameSimilarity } : null;
+  }
+
+  // ──────────────────────────────────────────────────────────────
+  // Utilities
+  // ──────────────────────────────────────────────────────────────
+  // Best score against the listed name and aliases, in either name order
+  private nameSimilarity(entry: WatchlistEntry, visitor: ScreenedVisitor): number {
+    const candidates = [
+      nameMatchService.normalizeName(`${visitor.firstName} ${visitor.lastName}`),
+      nameMatchService.normalizeName(`${visitor.lastName} ${visitor.firstName}`),
+    ];
+    const listed = [`${entry.firstName} ${entry.lastName}`, ...entry.aliases].map(name => nameMatchService.normalizeName(name)).filter(Boolean);
+
+    return Math.max(0, ...listed.flatMap(name => candidates.map(candidate => nameMatchService.similarity(name, candidate))));
+  }
+
+  private normalizeId(value?: string): string {
+    return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  // The photo is left out of the audit trail to keep entries small
+  private auditFields(entry: Partial<WatchlistEntryInput>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(this.toFirestore(entry)).filter(([key]) => key !== 'photoUrl'));
+  }
+}
+
+export const watchlistService = new WatchlistService();
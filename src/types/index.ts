@@ -1,26 +1,29 @@
 export interface Visitor {
-  roomNumber: string;
-  phoneNumber: string;
-  fullName: any;
   id: string;
+  schemaVersion?: number;
+  profileId?: string; // The visitorProfiles record holding identity and contact details
   visitorIdNumber: string; // Unique ID number for the visitor
   firstName: string;
   lastName: string;
   email: string;
   phone: string;
   relationship: string;
+  residentId?: string; // Links the visit to a record in the residents registry
   residentName: string;
   residentRoom: string;
   checkInTime: Date;
   checkOutTime?: Date;
+  primaryCheckOutTime?: Date; // The registered visitor left while family members stayed on
   healthScreening: HealthScreening;
   emergencyContact: string;
   emergencyPhone: string;
   photoUrl?: string;
   badgeNumber: string;
-  status: 'checked-in' | 'checked-out' | 'emergency-evacuated';
+  status: 'checked-in' | 'checked-out' | 'emergency-evacuated' | 'auto-checked-out'; // auto: closed by the end-of-day job
   accessLevel: 'family' | 'friend' | 'professional' | 'volunteer' | 'contractor';
   qrCode: string;
+  qrCodeId?: string; // ID of the signed badge code, for revocation
+  qrCodeExpiresAt?: Date;
   isApproved: boolean;
   notes?: string;
   // New fields for enhanced visitor management
@@ -32,14 +35,50 @@ export interface Visitor {
   visitPurposeOther?: string; // Text input for "Other" visit purpose
   appointmentType: 'scheduled' | 'walk-in';
   appointmentTime?: string; // For scheduled appointments
+  preRegistrationId?: string; // Set when the visit was booked on the pre-registration portal
+  appointmentId?: string; // Set when the visitor was matched to a booked appointment at check-in
   // Family members
   familyMembers?: FamilyMember[];
   isFamilyGroup: boolean;
   // For check-out flow
   isFamilyMember?: boolean;
   familyMemberData?: FamilyMember;
+  // Set when a supervisor approved a visit that broke the check-in policy
+  policyOverride?: CheckInPolicyOverride;
+  purgedCategories?: RetentionCategory[]; // Data the retention policy has removed from this visit
+  badgeReissues?: BadgeReissue[]; // Badges given out offline that differ from the ones the visit was stored with
+  checkedInBy?: string; // Staff account that checked the visitor in
 }
 
+// Identity and contact details shared by every visit of the same person
+export interface VisitorProfile {
+  id: string;
+  schemaVersion?: number;
+  visitorIdNumber: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  photoUrl?: string;
+  emergencyContact: string;
+  emergencyPhone: string;
+  createdAt: Date;
+  updatedAt: Date;
+  lastVisitAt?: Date;
+  mergedInto?: string; // Set when this profile was merged into another; its ID number leads there
+  mergedAt?: Date;
+  purgedCategories?: RetentionCategory[];
+}
+
+// Profiles that probably belong to the same person, for the merge tool
+export interface DuplicateProfileGroup {
+  profiles: VisitorProfile[]; // Most recent visitor first
+  matchedOn: ('name' | 'similar-name' | 'phone' | 'email')[];
+}
+
+export type VisitorProfileUpdate = Partial<Pick<VisitorProfile,
+  'firstName' | 'lastName' | 'email' | 'phone' | 'photoUrl' | 'emergencyContact' | 'emergencyPhone'>>;
+
 export interface HealthScreening {
   testResult: string;
   temperature?: number;
@@ -67,30 +106,145 @@ export interface Resident {
   };
   specialInstructions?: string;
   medicalRestrictions?: string[];
+  maxVisitors?: number; // People allowed in the room at once; unset or 0 uses the default room limit
+}
+
+// Check-in policy (resident visiting hours and approved visitor lists)
+export type CheckInPolicyAction = 'allow' | 'warn' | 'override' | 'block';
+
+export type CheckInPolicyRule =
+  | 'resident-not-found'
+  | 'outside-visiting-hours'
+  | 'not-approved-visitor'
+  | 'special-instructions'
+  | 'watchlist-match'
+  | 'occupancy-limit';
+
+export interface CheckInPolicyViolation {
+  rule: CheckInPolicyRule;
+  action: CheckInPolicyAction;
+  message: string;
+  watchlistMatch?: WatchlistMatch; // watchlist-match only, so the desk can compare the photo
+  familyMemberId?: string; // Set when the rule was broken by a family member rather than the registered visitor
+}
+
+export interface CheckInPolicyResult {
+  action: CheckInPolicyAction;
+  violations: CheckInPolicyViolation[];
+  resident: Resident | null;
+}
+
+export interface CheckInPolicyOverride {
+  supervisorId: string;
+  supervisorName: string;
+  reason: string;
+  rules: CheckInPolicyRule[];
+  watchlistEntryIds?: string[]; // Watchlist entries the visitor matched
+  overriddenAt: Date;
 }
 
 export interface AuditLog {
   id: string;
+  sequence?: number; // Absent on entries written before the trail was hash-chained
   timestamp: Date;
   action: string;
   userId: string;
   visitorId?: string;
+  targetUserId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
   details: Record<string, any>;
   ipAddress: string;
+  previousHash?: string;
+  hash?: string;
+  redactedAt?: Date; // Content blanked when the visitor's data was erased; the hash is the original's
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  unchained: number; // Legacy entries without a hash
+  brokenAtSequence?: number;
+  reason?: string;
+}
+
+// Contents of a signed badge QR code
+export interface BadgeCodePayload {
+  t: 'v' | 'p'; // Visitor badge, or pre-registration pass
+  id: string; // visitorIdNumber, or pre-registration ID
+  jti: string; // Code ID, used for revocation
+  iat: number; // Issued at, seconds since epoch
+  exp: number; // Expires at, seconds since epoch
+}
+
+export type BadgeCodeVerification =
+  | { valid: true; payload: BadgeCodePayload }
+  | { valid: false; reason: string };
+
+export type EmergencyType = 'fire' | 'medical' | 'security' | 'weather' | 'other';
+
+export type RollCallStatus = 'unaccounted' | 'accounted' | 'missing';
+
+export interface RollCallEntry {
+  key: string;
+  visitorId: string; // The visit document, shared by a visitor and their family members
+  familyMemberId?: string;
+  name: string;
+  badgeNumber: string;
+  residentName?: string;
+  roomNumber?: string;
+  status: RollCallStatus;
+  markedBy?: string;
+  markedAt?: Date;
 }
 
 export interface EmergencySession {
   id: string;
   startTime: Date;
   endTime?: Date;
-  type: 'fire' | 'medical' | 'security' | 'weather' | 'other';
+  type: EmergencyType;
   description: string;
   evacuatedVisitors: string[];
   isActive: boolean;
+  startedBy: string;
+  endedBy?: string;
+  rollCall: Record<string, RollCallEntry>;
 }
 
 // User Management Types
-export type UserRole = 'super-admin' | 'admin' | 'hierarchy-person' | 'front-desk';
+// 'pending' is held by self-registered accounts until a user manager approves them; it carries no permissions
+export type UserRole = 'super-admin' | 'admin' | 'hierarchy-person' | 'front-desk' | 'pending';
+
+export type Permission =
+  | 'manage_users'
+  | 'manage_roles'
+  | 'manage_residents'
+  | 'manage_backups'
+  | 'view_reports'
+  | 'export_reports'
+  | 'view_audit_logs'
+  | 'view_visitors'
+  | 'check_in_visitors'
+  | 'check_out_visitors'
+  | 'manage_visitors'
+  | 'emergency_evacuation'
+  | 'override_check_in_policy'
+  | 'manage_appointments'
+  | 'manage_watchlist'
+  | 'manage_data_retention';
+
+export interface RoleTemplate {
+  role: UserRole;
+  permissions: Permission[];
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// Per-user adjustments on top of the role template
+export interface PermissionOverrides {
+  granted: Permission[];
+  revoked: Permission[];
+}
 
 export interface User {
   id: string;
@@ -103,7 +257,30 @@ export interface User {
   isActive: boolean;
   createdAt: Date;
   lastLogin?: Date;
-  permissions: string[];
+  permissions: Permission[]; // Effective permissions from the verified token
+  permissionOverrides?: PermissionOverrides;
+  pendingApproval?: boolean; // Self-registered without an invitation
+  requestedRole?: UserRole; // Asked for at signup; given only when the account is approved
+  approvedBy?: string;
+  approvedAt?: Date;
+  invitationId?: string;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Invitation {
+  id: string; // Also the code handed to the invitee, so it is never written to the audit trail
+  reference?: string; // Names the invitation in the audit trail; unset on invitations created before it
+  email: string;
+  role: UserRole;
+  status: Exclude<InvitationStatus, 'expired'>;
+  expiresAt: Date;
+  createdAt: Date;
+  createdBy: string;
+  acceptedBy?: string;
+  acceptedAt?: Date;
+  revokedBy?: string;
+  revokedAt?: Date;
 }
 
 export interface LoginCredentials {
@@ -130,6 +307,219 @@ export interface FamilyMember {
   visitorId: string;
   checkInTime: Date;
   checkOutTime?: Date;
+  status?: Visitor['status'];
+}
+
+// A person who may not be checked in, or only with a supervisor's approval
+export interface WatchlistEntry {
+  id: string;
+  firstName: string;
+  lastName: string;
+  aliases: string[]; // Other names the person is known to use
+  phone?: string;
+  visitorIdNumber?: string;
+  photoUrl?: string;
+  reason: string; // e.g. "Trespass notice 2026-114"
+  action: 'block' | 'override';
+  residentIds: string[]; // Visits to these residents only; empty applies to every visit
+  expiresAt?: Date; // No expiry when absent
+  createdAt: Date;
+  createdBy: string;
+  updatedAt?: Date;
+}
+
+export interface WatchlistMatch {
+  entry: WatchlistEntry;
+  matchedOn: ('id-number' | 'phone' | 'name')[];
+  nameSimilarity: number; // 0 to 1 against the closest of the entry's names
+}
+
+// A visit booked by staff ahead of time; matched to the visit when the visitor checks in
+// How a series of appointments repeats from the series' first start time
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number; // Every n days, weeks or months
+  weekdays?: number[]; // Weekly only, 0 (Sunday) to 6; defaults to the weekday of the first visit
+  until?: Date; // Last day a visit may fall on
+  exceptions?: string[]; // yyyy-MM-dd days skipped, e.g. holidays
+}
+
+export interface Appointment {
+  id: string; // "<seriesId>_<yyyy-MM-dd>" for an occurrence of a recurring series
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone: string;
+  visitorIdNumber?: string; // Known visitor, matched on arrival
+  visitorMeetingSelection: Visitor['visitorMeetingSelection'];
+  residentId?: string;
+  residentName?: string;
+  residentRoom?: string;
+  staffDepartment?: string;
+  visitPurpose: string;
+  notes?: string;
+  startTime: Date;
+  durationMinutes: number;
+  status: 'scheduled' | 'arrived' | 'cancelled';
+  visitId?: string;
+  arrivedAt?: Date;
+  cancellationReason?: string;
+  createdAt: Date;
+  createdBy: string;
+  updatedAt?: Date;
+  recurrence?: RecurrenceRule; // Series only; its occurrences point back at it through seriesId
+  seriesId?: string; // Occurrences only
+  occurrenceDate?: string; // Occurrences only: the yyyy-MM-dd day the series put this visit on
+}
+
+export type AppointmentInput = Omit<Appointment,
+  'id' | 'status' | 'visitId' | 'arrivedAt' | 'cancellationReason' | 'createdAt' | 'createdBy' | 'updatedAt' | 'seriesId' | 'occurrenceDate'
+>;
+
+// Where an expected visitor stands right now, derived from the start time and status
+export type ArrivalState = 'expected' | 'late' | 'no-show' | 'arrived' | 'cancelled';
+
+// Details a visitor entered on the public portal ahead of their visit
+export type PreRegisteredVisitor = Pick<Visitor,
+  'firstName' | 'lastName' | 'email' | 'phone' | 'emergencyContact' | 'emergencyPhone' | 'visitorMeetingSelection' | 'visitPurpose'
+> & Partial<Pick<Visitor,
+  'relationship' | 'visitorIdNumber' | 'accessLevel' | 'notes' | 'photoUrl' | 'visitorCategory' | 'visitorCategoryOther' |
+  'staffDepartment' | 'visitPurposeOther' | 'residentId' | 'residentName' | 'residentRoom'
+>>;
+
+export interface PreRegistration {
+  id: string;
+  visitor: PreRegisteredVisitor;
+  slotStart: Date;
+  slotEnd: Date;
+  status: 'pending' | 'arrived' | 'cancelled';
+  passId: string;
+  passExpiresAt: Date;
+  createdAt: Date;
+  visitId?: string; // Set when the visitor arrives and is checked in
+  arrivedAt?: Date;
+}
+
+// How badge or visitor ID numbers are formatted, e.g. prefix 'C-' and 4 digits gives C-0001
+export interface NumberingScheme {
+  prefix: string;
+  digits: number;
+  resetDaily: boolean; // Start again at 1 each day; active badges are never reissued
+}
+
+export interface BadgeNumberingSettings {
+  visitorId: Omit<NumberingScheme, 'resetDaily'>; // Visitor IDs are kept for life, so they never reset
+  badges: Record<Visitor['accessLevel'], NumberingScheme>;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// A badge number given out while the terminal was offline and the one the visit holds instead
+export interface BadgeReissue {
+  issued: string;
+  assigned: string;
+  familyMemberId?: string; // Unset for the registered visitor's own badge
+}
+
+// Longest expected visit per access level; visits past it show as overstaying
+export interface VisitDurationSettings {
+  maxMinutes: Partial<Record<Visitor['accessLevel'], number>>; // Unset means no maximum
+  autoCheckOut: boolean; // Whether the end-of-day job closes visits left open
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// Kinds of visitor personal data the retention policy removes, each after its own period
+export type RetentionCategory = 'healthScreening' | 'contactDetails' | 'photos' | 'identity';
+
+export interface RetentionSettings {
+  periodDays: Partial<Record<RetentionCategory, number>>; // Unset keeps the data indefinitely
+  autoPurge: boolean; // Whether the nightly job removes expired data
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// Exempts a visitor's data, the visits in a date range, or both together, from the retention policy
+export interface LegalHold {
+  id: string;
+  visitorIdNumber?: string;
+  from?: Date;
+  to?: Date;
+  reason: string; // e.g. "Subpoena 2026-CV-0042"
+  createdAt: Date;
+  createdBy: string;
+  releasedAt?: Date; // Released holds are kept as a record
+  releasedBy?: string;
+}
+
+export type LegalHoldInput = Pick<LegalHold, 'visitorIdNumber' | 'from' | 'to' | 'reason'>;
+
+// A visitor asking what is held about them, or for it to be erased, found by either
+export interface SubjectLookup {
+  profileId?: string;
+  visitorIdNumber?: string;
+}
+
+// Everything held about one visitor, with timestamps as ISO strings; family members and
+// health screenings are inside their visits
+export interface SubjectAccessExport {
+  generatedAt: string;
+  profiles: Record<string, unknown>[];
+  visits: Record<string, unknown>[];
+  appointments: Record<string, unknown>[];
+  preRegistrations: Record<string, unknown>[];
+  emails: Record<string, unknown>[];
+  auditEntries: Record<string, unknown>[];
+}
+
+export type SubjectRecordCounts = Record<Exclude<keyof SubjectAccessExport, 'generatedAt'>, number>;
+
+// What a purge removed, or in a preview would remove
+export interface RetentionPurgeSummary {
+  dryRun: boolean;
+  visits: number;
+  profiles: number;
+  preRegistrations: number;
+  appointments: number;
+  emails: number; // Email log records deleted
+  auditEntries: number; // Audit entries whose visitor and resident names were removed
+  held: number; // Expired documents left alone because of a legal hold
+  byCategory: Record<RetentionCategory, number>;
+}
+
+// Front-desk actions saved on this terminal while it was offline, waiting to be sent
+export interface OutboxStatus {
+  pending: number;
+  failed: number; // Reached the server but were refused; retried with the rest
+  syncing: boolean;
+  lastError?: string;
+}
+
+// Occupancy limits for the whole facility, each building/wing and each resident room
+export interface OccupancyLimit {
+  max: number;
+  enforcement: Exclude<CheckInPolicyAction, 'allow'>; // What check-in does once the limit would be passed
+}
+
+export interface OccupancySettings {
+  facility?: OccupancyLimit;
+  buildings: Record<string, OccupancyLimit>; // Keyed by Resident.building
+  room?: OccupancyLimit; // Every resident room; a resident's maxVisitors replaces the number
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export interface OccupancyLevel {
+  scope: 'facility' | 'building' | 'room';
+  label: string;
+  current: number; // People on site, counting family members
+  limit?: OccupancyLimit;
+}
+
+export interface OccupancyStatus {
+  facility: OccupancyLevel;
+  buildings: OccupancyLevel[];
+  rooms: OccupancyLevel[]; // Every resident room
 }
 
 export interface NameTagData {
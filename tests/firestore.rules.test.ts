@@ -0,0 +1,335 @@
+// tests/firestore.rules.test.ts
+// Runs against the Firestore emulator: `npm test` starts it and points the tests at it
+
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+let testEnv: RulesTestEnvironment;
+
+// Claims as syncUserClaims sets them on the ID token
+const STAFF = {
+  superAdmin: { role: 'super-admin', permissions: [], active: true },
+  userManager: { role: 'admin', permissions: ['manage_users', 'view_visitors'], active: true },
+  frontDesk: { role: 'front-desk', permissions: ['view_visitors', 'check_in_visitors', 'check_out_visitors', 'emergency_evacuation'], active: true },
+  checkInOnly: { role: 'front-desk', permissions: ['check_in_visitors'], active: true },
+  hierarchy: { role: 'hierarchy-person', permissions: ['view_reports', 'view_visitors'], active: true },
+  deactivated: { role: 'admin', permissions: ['manage_users', 'view_visitors', 'check_in_visitors', 'manage_visitors'], active: false },
+  pending: { role: 'pending', permissions: [], active: false },
+};
+
+const as = (uid: string, claims: Record<string, unknown> = {}) =>
+  testEnv.authenticatedContext(uid, { email: `${uid}@example.com`, ...claims }).firestore();
+
+const seed = async (path: string, data: Record<string, unknown>) => {
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await context.firestore().doc(path).set(data);
+  });
+};
+
+const pendingProfile = (uid: string) => ({
+  email: `${uid}@example.com`,
+  name: 'New Starter',
+  role: 'pending',
+  requestedRole: 'front-desk',
+  isActive: false,
+  pendingApproval: true,
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-visitor-management',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+// ──────────────────────────────────────────────────────────────
+// Self-registration
+// ──────────────────────────────────────────────────────────────
+describe('self-registration', () => {
+  it('lets a new account create its own pending profile', async () => {
+    await assertSucceeds(as('newbie').doc('users/newbie').set(pendingProfile('newbie')));
+  });
+
+  it('refuses a profile that is given a staff role directly', async () => {
+    await assertFails(as('newbie').doc('users/newbie').set({ ...pendingProfile('newbie'), role: 'admin' }));
+    await assertFails(as('newbie').doc('users/newbie').set({ ...pendingProfile('newbie'), role: 'super-admin' }));
+  });
+
+  it('refuses a profile that is active or not awaiting approval', async () => {
+    await assertFails(as('newbie').doc('users/newbie').set({ ...pendingProfile('newbie'), isActive: true }));
+    await assertFails(as('newbie').doc('users/newbie').set({ ...pendingProfile('newbie'), pendingApproval: false }));
+  });
+
+  it('refuses to note super-admin as the requested role', async () => {
+    await assertFails(as('newbie').doc('users/newbie').set({ ...pendingProfile('newbie'), requestedRole: 'super-admin' }));
+  });
+
+  it('refuses permission overrides', async () => {
+    await assertFails(as('newbie').doc('users/newbie').set({
+      ...pendingProfile('newbie'),
+      permissionOverrides: { granted: ['manage_users'], revoked: [] },
+    }));
+  });
+
+  it("refuses another person's profile or email", async () => {
+    await assertFails(as('newbie').doc('users/someone-else').set(pendingProfile('someone-else')));
+    await assertFails(as('newbie').doc('users/newbie').set({ ...pendingProfile('newbie'), email: 'boss@example.com' }));
+  });
+
+  it('accepts an invitation only from the verified invited address', async () => {
+    await seed('invitations/INVITECODE', {
+      email: 'invitee@example.com',
+      role: 'front-desk',
+      status: 'pending',
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    });
+    const signup = (emailVerified: boolean) => {
+      const db = as('invitee', { email: 'invitee@example.com', email_verified: emailVerified });
+      const batch = db.batch();
+      batch.set(db.doc('users/invitee'), {
+        email: 'invitee@example.com',
+        name: 'New Starter',
+        role: 'front-desk',
+        isActive: true,
+        invitationId: 'INVITECODE',
+      });
+      batch.update(db.doc('invitations/INVITECODE'), { status: 'accepted', acceptedBy: 'invitee', acceptedAt: new Date() });
+      return batch.commit();
+    };
+
+    await assertFails(signup(false));
+    await assertSucceeds(signup(true));
+  });
+
+  it('refuses an invitation that was never issued', async () => {
+    await assertFails(as('newbie').doc('users/newbie').set({
+      email: 'newbie@example.com',
+      name: 'New Starter',
+      role: 'admin',
+      isActive: true,
+      invitationId: 'made-up',
+    }));
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Role escalation
+// ──────────────────────────────────────────────────────────────
+describe('role escalation', () => {
+  beforeEach(async () => {
+    await seed('users/desk', { email: 'desk@example.com', role: 'front-desk', isActive: true });
+    await seed('users/newbie', pendingProfile('newbie'));
+    await seed('users/root', { email: 'root@example.com', role: 'super-admin', isActive: true });
+  });
+
+  it('lets staff record their own sign-in but nothing else', async () => {
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('users/desk').update({ lastLogin: new Date() }));
+    await assertFails(as('desk', STAFF.frontDesk).doc('users/desk').update({ role: 'admin' }));
+    await assertFails(as('desk', STAFF.frontDesk).doc('users/desk').update({ permissionOverrides: { granted: ['manage_users'], revoked: [] } }));
+  });
+
+  it('does not let a pending account approve itself', async () => {
+    await assertFails(as('newbie', STAFF.pending).doc('users/newbie').update({ role: 'front-desk', isActive: true, pendingApproval: false }));
+  });
+
+  it('lets a user manager approve a pending account', async () => {
+    await assertSucceeds(as('manager', STAFF.userManager).doc('users/newbie').update({
+      role: 'front-desk',
+      isActive: true,
+      pendingApproval: false,
+    }));
+  });
+
+  it('keeps super admins out of reach of other user managers', async () => {
+    await assertFails(as('manager', STAFF.userManager).doc('users/newbie').update({ role: 'super-admin', isActive: true }));
+    await assertFails(as('manager', STAFF.userManager).doc('users/root').update({ isActive: false }));
+    await assertSucceeds(as('root', STAFF.superAdmin).doc('users/newbie').update({ role: 'super-admin', isActive: true }));
+  });
+
+  it('keeps permission overrides to role managers', async () => {
+    await assertFails(as('manager', STAFF.userManager).doc('users/desk').update({
+      permissionOverrides: { granted: ['manage_roles'], revoked: [] },
+    }));
+  });
+
+  it('ignores the permissions of a deactivated account', async () => {
+    await assertFails(as('former', STAFF.deactivated).doc('users/newbie').update({ role: 'admin', isActive: true }));
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Counters
+// ──────────────────────────────────────────────────────────────
+describe('counters', () => {
+  it('lets check-in staff advance a badge counter', async () => {
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('counters/badge_standard').set({ value: 7 }));
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('counters/badge_standard').get());
+  });
+
+  it('refuses everyone else', async () => {
+    await seed('counters/badge_standard', { value: 7 });
+    await assertFails(as('boss', STAFF.hierarchy).doc('counters/badge_standard').set({ value: 1 }));
+    await assertFails(as('newbie', STAFF.pending).doc('counters/badge_standard').get());
+    await assertFails(as('former', STAFF.deactivated).doc('counters/badge_standard').set({ value: 1 }));
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('counters/badge_standard').get());
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Email log
+// ──────────────────────────────────────────────────────────────
+describe('email_log', () => {
+  const entry = { to: 'host@example.com', subject: 'Your visitor has arrived', type: 'check-in', relatedId: 'visit-1', sentAt: new Date() };
+
+  it('lets staff log an email', async () => {
+    await assertSucceeds(as('desk', STAFF.frontDesk).collection('email_log').add(entry));
+  });
+
+  it('refuses anything beyond the logged fields', async () => {
+    await assertFails(as('desk', STAFF.frontDesk).collection('email_log').add({ ...entry, body: 'Full message text' }));
+  });
+
+  it('refuses accounts that are not active staff', async () => {
+    await assertFails(as('newbie', STAFF.pending).collection('email_log').add(entry));
+    await assertFails(testEnv.unauthenticatedContext().firestore().collection('email_log').add(entry));
+  });
+
+  it('is never read, changed or removed from the client', async () => {
+    await seed('email_log/sent', entry);
+    await assertFails(as('root', STAFF.superAdmin).doc('email_log/sent').get());
+    await assertFails(as('root', STAFF.superAdmin).collection('email_log').get());
+    await assertFails(as('root', STAFF.superAdmin).doc('email_log/sent').update({ subject: 'Changed' }));
+    await assertFails(as('root', STAFF.superAdmin).doc('email_log/sent').delete());
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Visits
+// ──────────────────────────────────────────────────────────────
+describe('visits', () => {
+  const visit = { profileId: 'profile-1', name: 'Jane Visitor', badgeNumber: 'S-0001', status: 'checked-in', checkInTime: new Date() };
+
+  it('lets check-in staff create a visit and nobody else', async () => {
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('visits/visit-1').set(visit));
+    await assertFails(as('boss', STAFF.hierarchy).doc('visits/visit-2').set(visit));
+    await assertFails(as('newbie', STAFF.pending).doc('visits/visit-3').set(visit));
+  });
+
+  it('refuses a visit stamped with another account', async () => {
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('visits/visit-1').set({ ...visit, checkedInBy: 'desk' }));
+    await assertFails(as('desk', STAFF.frontDesk).doc('visits/visit-2').set({ ...visit, checkedInBy: 'kiosk' }));
+  });
+
+  it('lets the front desk check a visitor out without touching the rest of the visit', async () => {
+    await seed('visits/visit-1', visit);
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('visits/visit-1').update({ status: 'checked-out', checkOutTime: new Date() }));
+    await assertFails(as('desk', STAFF.frontDesk).doc('visits/visit-1').update({ badgeNumber: 'S-0002' }));
+    await assertFails(as('desk', STAFF.frontDesk).doc('visits/visit-1').delete());
+  });
+
+  it('lets check-in-only staff look up a visit ID that is not yet used, but not read visits', async () => {
+    await seed('visits/visit-1', visit);
+    await assertSucceeds(as('kiosk', STAFF.checkInOnly).doc('visits/visit-2').get());
+    await assertFails(as('kiosk', STAFF.checkInOnly).doc('visits/visit-1').get());
+  });
+
+  it('lets check-in staff read a visit they checked in and list its badge swaps once', async () => {
+    const badgeReissues = [{ issued: 'S-KQX-0001', assigned: 'S-0001' }];
+    await seed('visits/visit-1', { ...visit, checkedInBy: 'kiosk' });
+    await seed('visits/visit-2', { ...visit, checkedInBy: 'desk' });
+
+    await assertSucceeds(as('kiosk', STAFF.checkInOnly).doc('visits/visit-1').get());
+    await assertFails(as('kiosk', STAFF.checkInOnly).doc('visits/visit-2').get());
+    await assertFails(as('kiosk', STAFF.checkInOnly).doc('visits/visit-1').update({ badgeReissues, badgeNumber: 'S-0002' }));
+    await assertFails(as('kiosk', STAFF.checkInOnly).doc('visits/visit-2').update({ badgeReissues }));
+    await assertSucceeds(as('kiosk', STAFF.checkInOnly).doc('visits/visit-1').update({ badgeReissues }));
+    await assertFails(as('kiosk', STAFF.checkInOnly).doc('visits/visit-1').update({ badgeReissues: [] }));
+  });
+
+  it('lets visitor viewers read visits', async () => {
+    await seed('visits/visit-1', visit);
+    await assertSucceeds(as('boss', STAFF.hierarchy).doc('visits/visit-1').get());
+    await assertFails(as('boss', STAFF.hierarchy).doc('visits/visit-1').update({ status: 'checked-out' }));
+    await assertFails(as('former', STAFF.deactivated).doc('visits/visit-1').get());
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Audit trail
+// ──────────────────────────────────────────────────────────────
+describe('audit_logs', () => {
+  const entry = { action: 'visitor_check_in', userId: 'desk', sequence: 1, previousHash: '', hash: 'abc', timestamp: new Date() };
+
+  beforeEach(async () => {
+    await seed('audit_logs/entry-1', entry);
+  });
+
+  it('lets audit log viewers read entries', async () => {
+    await assertSucceeds(as('boss', STAFF.hierarchy).doc('audit_logs/entry-1').get());
+    await assertFails(as('desk', STAFF.frontDesk).doc('audit_logs/entry-1').get());
+    await assertFails(as('former', STAFF.deactivated).doc('audit_logs/entry-1').get());
+  });
+
+  it('never lets an entry be written, changed or removed from the client', async () => {
+    await assertFails(as('root', STAFF.superAdmin).collection('audit_logs').add(entry));
+    await assertFails(as('root', STAFF.superAdmin).doc('audit_logs/entry-1').update({ action: 'user_login' }));
+    await assertFails(as('boss', STAFF.hierarchy).doc('audit_logs/entry-1').update({ action: 'user_login' }));
+    await assertFails(as('root', STAFF.superAdmin).doc('audit_logs/entry-1').delete());
+    await assertFails(as('boss', STAFF.hierarchy).doc('audit_logs/entry-1').delete());
+  });
+});
+
+// ──────────────────────────────────────────────────────────────
+// Reads by role
+// ──────────────────────────────────────────────────────────────
+describe('reads by role', () => {
+  beforeEach(async () => {
+    await seed('residents/resident-1', { firstName: 'Ada', lastName: 'Resident', room: '101' });
+    await seed('visitorProfiles/profile-1', { firstName: 'Jane', lastName: 'Visitor', visitorIdNumber: 'V-0001' });
+  });
+
+  it('lets every active staff role read residents', async () => {
+    await assertSucceeds(as('root', STAFF.superAdmin).doc('residents/resident-1').get());
+    await assertSucceeds(as('manager', STAFF.userManager).doc('residents/resident-1').get());
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('residents/resident-1').get());
+    await assertSucceeds(as('boss', STAFF.hierarchy).doc('residents/resident-1').get());
+  });
+
+  it('keeps residents from pending, deactivated and signed-out accounts', async () => {
+    await assertFails(as('newbie', STAFF.pending).doc('residents/resident-1').get());
+    await assertFails(as('former', STAFF.deactivated).doc('residents/resident-1').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('residents/resident-1').get());
+  });
+
+  it('lets visitor viewers read visitor profiles', async () => {
+    await assertSucceeds(as('desk', STAFF.frontDesk).doc('visitorProfiles/profile-1').get());
+    await assertSucceeds(as('boss', STAFF.hierarchy).doc('visitorProfiles/profile-1').get());
+    await assertSucceeds(as('boss', STAFF.hierarchy).collection('visitorProfiles').get());
+  });
+
+  it('keeps visitor profiles from everyone else', async () => {
+    await assertFails(as('kiosk', STAFF.checkInOnly).doc('visitorProfiles/profile-1').get());
+    await assertFails(as('newbie', STAFF.pending).doc('visitorProfiles/profile-1').get());
+    await assertFails(as('former', STAFF.deactivated).doc('visitorProfiles/profile-1').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('visitorProfiles/profile-1').get());
+  });
+
+  it('gives hierarchy staff read-only access', async () => {
+    await assertFails(as('boss', STAFF.hierarchy).doc('residents/resident-1').update({ room: '102' }));
+    await assertFails(as('boss', STAFF.hierarchy).doc('visitorProfiles/profile-1').update({ phone: '555-0100' }));
+  });
+});